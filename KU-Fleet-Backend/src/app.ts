@@ -19,6 +19,9 @@ import feedbackRoutes from "./routes/feebackRoutes";
 import alertRoutes from "./routes/alertRoutes";
 import uploadRoutes from "./routes/uploadRoutes";
 import rfidRoutes from "./routes/rfidRoutes";
+import deviceRoutes from "./routes/deviceRoutes";
+import osmandRoutes from "./routes/osmandRoutes";
+import timetableRoutes from "./routes/timetableRoutes";
 
 // Workers/cron jobs
 // Workers (single entry point)
@@ -63,6 +66,9 @@ app.use("/api/feedback", feedbackRoutes);
 app.use("/api/alerts", alertRoutes);
 app.use("/api/upload", uploadRoutes);
 app.use("/api/rfid", rfidRoutes);
+app.use("/api/devices", deviceRoutes);
+app.use("/api/osmand", osmandRoutes);
+app.use("/api/timetables", timetableRoutes);
 
 // Health check
 app.get("/", (_, res) => {
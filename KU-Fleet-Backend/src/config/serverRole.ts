@@ -0,0 +1,31 @@
+// src/config/serverRole.ts
+import dotenv from "dotenv";
+dotenv.config();
+
+/**
+ * Which parts of the backend this process runs (SERVER_ROLE):
+ *
+ *   all     HTTP API + Socket.IO + workers + tracker ingestion (default, single process)
+ *   api     HTTP API, Socket.IO clients, BullMQ workers and cron jobs
+ *   ingest  tracker TCP ports and MQTT; emits to Socket.IO rooms through the Redis adapter
+ *
+ * Any number of api and ingest processes can run side by side; Socket.IO events
+ * reach every client whichever process emitted them.
+ */
+
+export type ServerRole = "all" | "api" | "ingest";
+
+const SERVER_ROLES: ServerRole[] = ["all", "api", "ingest"];
+
+function parseServerRole(value: string | undefined): ServerRole {
+  const role = (value ?? "all").trim().toLowerCase();
+  if (!SERVER_ROLES.includes(role as ServerRole)) {
+    throw new Error(`SERVER_ROLE must be one of: ${SERVER_ROLES.join(", ")} (got "${value}")`);
+  }
+  return role as ServerRole;
+}
+
+export const SERVER_ROLE = parseServerRole(process.env.SERVER_ROLE);
+
+export const runsApi = SERVER_ROLE === "all" || SERVER_ROLE === "api";
+export const runsIngest = SERVER_ROLE === "all" || SERVER_ROLE === "ingest";
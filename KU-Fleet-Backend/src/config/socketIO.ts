@@ -0,0 +1,58 @@
+// src/config/socketIO.ts
+import http from "http";
+import { Server as SocketIOServer } from "socket.io";
+import { createAdapter } from "@socket.io/redis-adapter";
+import { redisClient } from "./redis";
+import { ROOMS } from "../utils/socketHelper";
+
+/**
+ * Socket.IO server backed by the Redis adapter: an emit to a room from any process
+ * (API or tracker ingestion) reaches the clients connected to every API process.
+ *
+ * Without an HTTP server (ingest role) the server only emits – no client connects to it.
+ */
+export function createSocketServer(server?: http.Server): SocketIOServer {
+  // The adapter needs a publisher and a dedicated subscriber connection
+  const pubClient = redisClient.duplicate();
+  const subClient = redisClient.duplicate();
+  pubClient.on("error", (err) => console.error("❌ Socket.IO Redis publisher error:", err));
+  subClient.on("error", (err) => console.error("❌ Socket.IO Redis subscriber error:", err));
+
+  const io = new SocketIOServer({
+    cors: { origin: "*" }, // restrict in production
+    adapter: createAdapter(pubClient, subClient),
+  });
+
+  if (!server) return io;
+  io.attach(server);
+
+  // Basic room join handlers (admins/students + per-bus)
+  io.on("connection", (socket) => {
+    console.log("🧠 Socket connected:", socket.id);
+
+    socket.on("joinRoom", (data: string | { role?: string; busId?: string; imei?: string }) => {
+      // Support both string (legacy) and object format
+      if (typeof data === "string") {
+        const role = data;
+        if (role === "admin" || role === "admins") socket.join(ROOMS.ADMINS);
+        if (role === "student" || role === "students") socket.join(ROOMS.STUDENTS);
+        if (role.startsWith("bus:")) socket.join(role);
+        if (role.startsWith("imei:")) socket.join(role);
+        console.log(`👥 ${socket.id} joined ${role}`);
+      } else {
+        // Object format for better type safety
+        if (data.role === "admin" || data.role === "admins") socket.join(ROOMS.ADMINS);
+        if (data.role === "student" || data.role === "students") socket.join(ROOMS.STUDENTS);
+        if (data.busId) socket.join(ROOMS.bus(data.busId));
+        if (data.imei) socket.join(ROOMS.imei(data.imei));
+        console.log(`👥 ${socket.id} joined rooms:`, data);
+      }
+    });
+
+    socket.on("disconnect", () => {
+      console.log("❌ Socket disconnected:", socket.id);
+    });
+  });
+
+  return io;
+}
@@ -0,0 +1,118 @@
+// src/config/trackerAlarms.ts
+import fs from "fs";
+import dotenv from "dotenv";
+import { AlertPriority, AlertType } from "../interfaces/Alert";
+import { TrackerAlarm } from "../services/gpsHandler";
+dotenv.config();
+
+/**
+ * Tracker alarm → Alert mapping.
+ *
+ * Defaults below can be overridden per alarm with TRACKER_ALARM_RULES, either
+ * inline JSON or a path to a JSON file, e.g.
+ *   TRACKER_ALARM_RULES='{"vibration":{"enabled":false},"powerCut":{"priority":"medium"}}'
+ */
+
+export interface TrackerAlarmRule {
+  type: AlertType;
+  priority: AlertPriority;
+  message: string;
+  enabled: boolean;
+  dedupeSec: number; // same alarm from the same tracker within this window → one alert
+}
+
+const ALERT_TYPES: AlertType[] = [
+  "panic",
+  "overspeed",
+  "routeDeviation",
+  "powerCut",
+  "vibration",
+  "lowBattery",
+  "geofenceIn",
+  "geofenceOut",
+  "displacement",
+  "system",
+  "other",
+];
+const ALERT_PRIORITIES: AlertPriority[] = ["low", "medium", "high"];
+
+const DEFAULT_DEDUPE_SEC = Number(process.env.ALERT_DEDUPE_SECONDS ?? 120);
+
+export const DEFAULT_TRACKER_ALARM_RULES: Record<TrackerAlarm, TrackerAlarmRule> = {
+  sos: { type: "panic", priority: "high", message: "SOS button pressed", enabled: true, dedupeSec: 60 },
+  powerCut: {
+    type: "powerCut",
+    priority: "high",
+    message: "Tracker external power cut",
+    enabled: true,
+    dedupeSec: DEFAULT_DEDUPE_SEC,
+  },
+  vibration: {
+    type: "vibration",
+    priority: "low",
+    message: "Vibration detected",
+    enabled: true,
+    dedupeSec: 600,
+  },
+  lowBattery: {
+    type: "lowBattery",
+    priority: "medium",
+    message: "Tracker backup battery low",
+    enabled: true,
+    dedupeSec: 3600,
+  },
+  geofenceIn: {
+    type: "geofenceIn",
+    priority: "medium",
+    message: "Bus entered tracker geofence",
+    enabled: true,
+    dedupeSec: DEFAULT_DEDUPE_SEC,
+  },
+  geofenceOut: {
+    type: "geofenceOut",
+    priority: "medium",
+    message: "Bus left tracker geofence",
+    enabled: true,
+    dedupeSec: DEFAULT_DEDUPE_SEC,
+  },
+  displacement: {
+    type: "displacement",
+    priority: "high",
+    message: "Bus moved while parked (displacement)",
+    enabled: true,
+    dedupeSec: DEFAULT_DEDUPE_SEC,
+  },
+  // Server-side overspeed alerts already cover this (SPEED_LIMIT_KMH)
+  overspeed: {
+    type: "overspeed",
+    priority: "high",
+    message: "Tracker overspeed alarm",
+    enabled: false,
+    dedupeSec: DEFAULT_DEDUPE_SEC,
+  },
+};
+
+function readOverrides(value: string | undefined): Record<string, Partial<TrackerAlarmRule>> {
+  if (!value) return {};
+  const json = value.trim().startsWith("{") ? value : fs.readFileSync(value, "utf8");
+  return JSON.parse(json);
+}
+
+export function loadTrackerAlarmRules(value: string | undefined): Record<TrackerAlarm, TrackerAlarmRule> {
+  const rules = { ...DEFAULT_TRACKER_ALARM_RULES };
+
+  for (const [alarm, override] of Object.entries(readOverrides(value))) {
+    if (!(alarm in rules)) throw new Error(`TRACKER_ALARM_RULES: unknown alarm "${alarm}"`);
+    const rule = { ...rules[alarm as TrackerAlarm], ...override };
+
+    if (!ALERT_TYPES.includes(rule.type)) throw new Error(`TRACKER_ALARM_RULES.${alarm}: invalid type "${rule.type}"`);
+    if (!ALERT_PRIORITIES.includes(rule.priority)) {
+      throw new Error(`TRACKER_ALARM_RULES.${alarm}: invalid priority "${rule.priority}"`);
+    }
+    rules[alarm as TrackerAlarm] = rule;
+  }
+
+  return rules;
+}
+
+export const TRACKER_ALARM_RULES = loadTrackerAlarmRules(process.env.TRACKER_ALARM_RULES);
@@ -0,0 +1,77 @@
+// src/config/tripDetection.ts
+import dotenv from "dotenv";
+dotenv.config();
+
+/**
+ * Trip boundary detection settings.
+ *
+ * Env values are the fleet defaults; each bus can override any of them with
+ * `Bus.tripDetection` (see services/tripBoundary.ts for how they are applied).
+ *
+ * Modes:
+ *   speed     – start on movement, end after INACTIVITY_MINUTES of low speed
+ *   ignition  – start on movement with ignition on, end when ignition stays off
+ *   auto      – ignition once the tracker has reported an ignition state, speed before that
+ */
+
+export type TripDetectionMode = "speed" | "ignition" | "auto";
+
+export interface TripDepot {
+  lat: number;
+  lng: number;
+  radiusMeters: number;
+}
+
+export interface TripDetectionConfig {
+  mode: TripDetectionMode;
+  minSpeedKmh: number;
+  inactivityMinutes: number;
+  ignitionOffMinutes: number; // ignition off this long ends the trip
+  depot: TripDepot | null; // no trip starts inside it; parked in it ends the trip
+  depotDwellMinutes: number;
+  maxGapMinutes: number; // no fix for this long ends the trip at the last fix before the gap
+}
+
+export const TRIP_DETECTION_MODES: TripDetectionMode[] = ["speed", "ignition", "auto"];
+
+export const DEFAULT_TRIP_DETECTION: TripDetectionConfig = {
+  mode: (process.env.TRIP_DETECTION_MODE as TripDetectionMode) ?? "auto",
+  minSpeedKmh: Number(process.env.MIN_SPEED_KMH ?? 5),
+  inactivityMinutes: Number(process.env.INACTIVITY_MINUTES ?? 30),
+  ignitionOffMinutes: Number(process.env.TRIP_IGNITION_OFF_MINUTES ?? 3),
+  depot: null,
+  depotDwellMinutes: Number(process.env.TRIP_DEPOT_DWELL_MINUTES ?? 5),
+  maxGapMinutes: Number(process.env.TRIP_MAX_GAP_MINUTES ?? 20),
+};
+
+if (!TRIP_DETECTION_MODES.includes(DEFAULT_TRIP_DETECTION.mode)) {
+  throw new Error(`TRIP_DETECTION_MODE: invalid mode "${DEFAULT_TRIP_DETECTION.mode}"`);
+}
+
+const TRIP_DETECTION_KEYS = Object.keys(DEFAULT_TRIP_DETECTION) as (keyof TripDetectionConfig)[];
+
+function applyOverride<K extends keyof TripDetectionConfig>(
+  config: TripDetectionConfig,
+  overrides: Partial<TripDetectionConfig>,
+  key: K
+): void {
+  const value = overrides[key];
+  if (value !== undefined && value !== null) config[key] = value;
+}
+
+/**
+ * Fleet defaults merged with a bus's overrides (unset / null fields keep the default)
+ */
+export function resolveTripDetection(overrides?: Partial<TripDetectionConfig> | null): TripDetectionConfig {
+  const config = { ...DEFAULT_TRIP_DETECTION };
+  if (!overrides) return config;
+
+  for (const key of TRIP_DETECTION_KEYS) applyOverride(config, overrides, key);
+  // A depot needs a position; the radius defaults to a typical yard
+  const depot = config.depot;
+  config.depot =
+    depot && Number.isFinite(depot.lat) && Number.isFinite(depot.lng)
+      ? { lat: depot.lat, lng: depot.lng, radiusMeters: depot.radiusMeters || 150 }
+      : null;
+  return config;
+}
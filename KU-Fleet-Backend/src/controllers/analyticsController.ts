@@ -1,9 +1,10 @@
 import { Request, Response } from "express";
 import mongoose from "mongoose";
 import Bus from "../models/Bus.model";
-import TripLog from "../models/TripLog.model";
+import TripLog, { RAN_TRIP_FILTER } from "../models/TripLog.model";
 import Alert from "../models/Alert.model";
 import Feedback from "../models/Feedback.model";
+import SegmentTravelTime from "../models/SegmentTravelTime.model";
 import { cacheHelpers } from "../config/redis";
 
 /** -----------------------------
@@ -20,7 +21,7 @@ export const getFleetOverview = async (req: Request, res: Response) => {
       Bus.countDocuments(),
       Bus.countDocuments({ busStatus: "active" }),
       Bus.distinct("driver.name").then((arr) => arr.length),
-      TripLog.countDocuments(),
+      TripLog.countDocuments(RAN_TRIP_FILTER),
       Alert.countDocuments(),
     ]);
 
@@ -57,7 +58,7 @@ export const getBusAnalytics = async (req: Request, res: Response) => {
 
     const [tripStats, alerts, feedbacks] = await Promise.all([
       TripLog.aggregate([
-        { $match: { bus: new mongoose.Types.ObjectId(busId) } },
+        { $match: { bus: new mongoose.Types.ObjectId(busId), ...RAN_TRIP_FILTER } },
         {
           $group: {
             _id: "$bus",
@@ -102,7 +103,7 @@ export const getDriverAnalytics = async (req: Request, res: Response) => {
     const busIds = buses.map((b) => b._id);
 
     const trips = await TripLog.aggregate([
-      { $match: { bus: { $in: busIds } } },
+      { $match: { bus: { $in: busIds }, ...RAN_TRIP_FILTER } },
       {
         $group: {
           _id: null,
@@ -141,6 +142,7 @@ export const getRouteAnalytics = async (req: Request, res: Response) => {
     if (cached) return res.status(200).json({ success: true, routeStats: cached });
 
     const routeStats = await TripLog.aggregate([
+      { $match: RAN_TRIP_FILTER },
       {
         $lookup: {
           from: "buses",
@@ -227,7 +229,7 @@ export const getFleetTimeseries = async (req: Request, res: Response) => {
     since.setDate(since.getDate() - days);
 
     const trips = await TripLog.aggregate([
-      { $match: { startTime: { $gte: since } } },
+      { $match: { startTime: { $gte: since }, ...RAN_TRIP_FILTER } },
       {
         $group: {
           _id: { $dateToString: { format: "%Y-%m-%d", date: "$startTime" } },
@@ -245,3 +247,41 @@ export const getFleetTimeseries = async (req: Request, res: Response) => {
     res.status(500).json({ message: "Failed to fetch fleet timeseries", error });
   }
 };
+
+/** -----------------------------
+ *  GET /api/analytics/segments?route=&weekday=&hour=
+ *  Travel time of each route leg by weekday and hour (built nightly)
+ *  ----------------------------- */
+export const getSegmentTravelTimes = async (req: Request, res: Response) => {
+  try {
+    const { route, weekday, hour } = req.query as { route?: string; weekday?: string; hour?: string };
+    const filter: Record<string, unknown> = {};
+
+    if (route) {
+      if (!mongoose.isValidObjectId(route)) return res.status(400).json({ message: "Invalid route id" });
+      filter.route = route;
+    }
+    if (weekday !== undefined) {
+      const day = Number(weekday);
+      if (!Number.isInteger(day) || day < 0 || day > 6) return res.status(400).json({ message: "weekday must be 0-6" });
+      filter.weekday = day;
+    }
+    if (hour !== undefined) {
+      const h = Number(hour);
+      if (!Number.isInteger(h) || h < 0 || h > 23) return res.status(400).json({ message: "hour must be 0-23" });
+      filter.hour = h;
+    }
+
+    const segments = await SegmentTravelTime.find(filter)
+      .select("-samples")
+      .populate("route", "routeName")
+      .populate("fromStation", "stationName")
+      .populate("toStation", "stationName")
+      .sort({ route: 1, fromSequence: 1, weekday: 1, hour: 1 })
+      .lean();
+
+    res.status(200).json({ success: true, count: segments.length, segments });
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch segment travel times", error });
+  }
+};
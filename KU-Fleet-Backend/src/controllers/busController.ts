@@ -8,9 +8,13 @@ import Route from "../models/Route.model";
 import User from "../models/User.model";
 import { cacheHelpers, redisClient } from "../config/redis";
 import { bufferCoordinate } from "../services/gpsBuffer";
+import { trackerBindings } from "../services/trackerBinding";
+import { busState } from "../services/busState";
+import { etaService } from "../services/etaService";
 import { getSocketIO, ROOMS, EVENTS } from "../utils/socketHelper";
 import { buildCameraStreamUrl } from "../utils/buildCameraURL";
 import { IBus } from "../interfaces/Bus";
+import { AuthRequest } from "../middleware/AuthMiddleware";
 
 // GET /api/buses — List all buses
 /** ✅ Get all buses */
@@ -105,7 +109,7 @@ export const getBusesByStatus = async (req: Request, res: Response) => {
 // POST /api/buses — Register new bus
 
 
-export const createBus = async (req: Request, res: Response) => {
+export const createBus = async (req: AuthRequest, res: Response) => {
   try {
     const {
       busNumber,
@@ -141,6 +145,13 @@ export const createBus = async (req: Request, res: Response) => {
       photo,
     });
 
+    if (bus.trackerIMEI) {
+      await trackerBindings.rebind(String(bus._id), null, bus.trackerIMEI, {
+        source: "busCreate",
+        ...(req.user ? { userId: String(req.user._id) } : {}),
+      });
+    }
+
     // Emit socket event for bus creation
     const io = getSocketIO();
     if (io) {
@@ -171,11 +182,15 @@ export const createBus = async (req: Request, res: Response) => {
 
 
 /** ✅ Update bus details */
-export const updateBus = async (req: Request, res: Response) => {
+export const updateBus = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     const updates = req.body;
 
+    // Tracker swaps are recorded in the binding history
+    const trackerChange = updates && "trackerIMEI" in updates;
+    const previous = trackerChange ? await Bus.findById(id).select("trackerIMEI").lean() : null;
+
     const bus = await Bus.findByIdAndUpdate(id, updates, {
       new: true,
     })
@@ -183,6 +198,14 @@ export const updateBus = async (req: Request, res: Response) => {
       .populate("driver", "name email");
 
     if (!bus) return res.status(404).json({ message: "Bus not found" });
+    busState.invalidate(String(bus._id));
+
+    if (trackerChange) {
+      await trackerBindings.rebind(String(bus._id), previous?.trackerIMEI || null, bus.trackerIMEI || null, {
+        source: "busUpdate",
+        ...(req.user ? { userId: String(req.user._id) } : {}),
+      });
+    }
 
     // Emit socket event for bus update
     const io = getSocketIO();
@@ -223,6 +246,7 @@ export const deleteBus = async (req: Request, res: Response) => {
       { new: true }
     );
     if (!deactivatedBus) return res.status(404).json({ message: "Bus not found" });
+    busState.invalidate(String(deactivatedBus._id));
 
     // Emit socket events for bus deactivation
     const io = getSocketIO();
@@ -263,6 +287,7 @@ export const assignDriver = async (req: Request, res: Response) => {
     // Assign driver's ObjectId to the bus per schema
     bus.driver = driver._id as unknown as Types.ObjectId;
     await bus.save();
+    busState.invalidate(String(bus._id));
 
     // Emit socket event for driver assignment
     const io = getSocketIO();
@@ -299,6 +324,7 @@ export const unassignDriver = async (req: Request, res: Response) => {
 
     delete bus.driver;
     await bus.save();
+    busState.invalidate(String(bus._id));
 
     res.status(200).json({ message: "Driver unassigned successfully", bus });
   } catch (error) {
@@ -496,3 +522,47 @@ export const getAllBusLocations = async (req: Request, res: Response) => {
     res.status(500).json({ message: "Failed to fetch bus locations", error });
   }
 };
+
+// GET /api/buses/:id/tracker/bindings — Which trackers were fitted to the bus, and when
+export const getTrackerBindings = async (req: Request, res: Response) => {
+  try {
+    const id = String(req.params.id);
+    if (!Types.ObjectId.isValid(id)) return res.status(400).json({ message: "Invalid bus ID" });
+
+    const bus = await Bus.findById(id).select("busNumber trackerIMEI").lean();
+    if (!bus) return res.status(404).json({ message: "Bus not found" });
+
+    const limit = Math.min(Number(req.query.limit) || 50, 200);
+    const bindings = await trackerBindings.forBus(id, limit);
+
+    res.status(200).json({
+      success: true,
+      busId: id,
+      trackerIMEI: bus.trackerIMEI ?? null,
+      count: bindings.length,
+      bindings,
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch tracker bindings", error });
+  }
+};
+
+// GET /api/buses/:id/eta — Predicted arrival at each station ahead of the bus on its trip
+export const getBusEta = async (req: Request, res: Response) => {
+  try {
+    const id = String(req.params.id);
+    if (!Types.ObjectId.isValid(id)) return res.status(400).json({ message: "Invalid bus ID" });
+
+    const bus = await Bus.findById(id).select("busNumber").lean();
+    if (!bus) return res.status(404).json({ message: "Bus not found" });
+
+    const eta = await etaService.forBus(id);
+    if (!eta) {
+      return res.status(200).json({ success: true, busId: id, onTrip: false, stations: [] });
+    }
+
+    res.status(200).json({ success: true, onTrip: true, busNumber: bus.busNumber, ...eta });
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch bus ETA", error });
+  }
+};
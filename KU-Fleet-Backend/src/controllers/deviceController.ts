@@ -0,0 +1,261 @@
+// src/controllers/deviceController.ts
+// Tracker device presence (which IMEIs are connected, last heartbeat, remote address),
+// diagnostics (GPS fixes rejected by the outlier filter) and health telemetry
+
+import { Request, Response } from "express";
+import Bus from "../models/Bus.model";
+import DeviceTelemetry from "../models/DeviceTelemetry.model";
+import { sessionRegistry, TrackerSession } from "../tcp/sessionRegistry";
+import { gpsFilter, GpsFilterStats } from "../services/gpsFilter";
+import { mqttIngest } from "../mqtt/mqttIngest";
+
+// GSM signal 0..4, backup battery level 0..6 (GT06 scale)
+const WEAK_SIGNAL_LEVEL = Number(process.env.DEVICE_WEAK_SIGNAL_LEVEL ?? 1);
+const LOW_BATTERY_LEVEL = Number(process.env.DEVICE_LOW_BATTERY_LEVEL ?? 2);
+const MAX_HEALTH_WINDOW_HOURS = 24 * 30;
+
+type HealthIssue = "weakSignal" | "lowBattery";
+
+const healthIssues = (latest: { gsmSignal?: number | null; voltageLevel?: number | null }): HealthIssue[] => {
+  const issues: HealthIssue[] = [];
+  if (latest.gsmSignal != null && latest.gsmSignal <= WEAK_SIGNAL_LEVEL) issues.push("weakSignal");
+  if (latest.voltageLevel != null && latest.voltageLevel <= LOW_BATTERY_LEVEL) issues.push("lowBattery");
+  return issues;
+};
+
+// 1 / 0 for a boolean sample, null (ignored by $avg) when the tracker didn't report it
+const ratioOf = (field: string) => ({
+  $avg: { $cond: [{ $eq: [field, true] }, 1, { $cond: [{ $eq: [field, false] }, 0, null] }] },
+});
+
+// Latest non-null value of a field: { at, value } pairs compare by time first
+const latestOf = (field: string) => ({
+  $max: { $cond: [{ $ne: [{ $ifNull: [field, null] }, null] }, { at: "$timestamp", value: field }, null] },
+});
+
+const toDeviceView = (
+  imei: string,
+  session: TrackerSession | null,
+  filterStats: GpsFilterStats | null,
+  bus: { _id: unknown; busNumber: string; busNumberPlate: string; status: string } | null
+) => ({
+  imei,
+  online: session?.online ?? false,
+  remoteAddress: session?.remoteAddress ?? null,
+  remotePort: session?.remotePort ?? null,
+  connectedAt: session?.connectedAt ?? null,
+  lastLoginAt: session?.lastLoginAt ?? null,
+  lastHeartbeatAt: session?.lastHeartbeatAt ?? null,
+  lastMessageAt: session?.lastMessageAt ?? null,
+  lastEvent: session?.lastEvent ?? null,
+  disconnectedAt: session?.disconnectedAt ?? null,
+  offlineReason: session?.offlineReason ?? null,
+  diagnostics: {
+    gpsFilter: filterStats,
+  },
+  bus: bus
+    ? { _id: bus._id, busNumber: bus.busNumber, busNumberPlate: bus.busNumberPlate, status: bus.status }
+    : null,
+});
+
+// GET /api/devices — All known trackers (connected + bound to a bus)
+export const getDevices = async (req: Request, res: Response) => {
+  try {
+    const { online } = req.query;
+
+    const buses = await Bus.find({ trackerIMEI: { $exists: true, $ne: null } })
+      .select("busNumber busNumberPlate status trackerIMEI")
+      .lean();
+    const busByImei = new Map(buses.map((b) => [String(b.trackerIMEI), b]));
+
+    const sessions = new Map((await sessionRegistry.lookupAll()).map((s) => [s.imei, s]));
+    const imeis = Array.from(new Set<string>([...busByImei.keys(), ...sessions.keys()]));
+    const filterStats = await gpsFilter.lookupStats(imeis);
+
+    let devices = imeis.map((imei) =>
+      toDeviceView(imei, sessions.get(imei) ?? null, filterStats.get(imei) ?? null, busByImei.get(imei) ?? null)
+    );
+
+    if (online === "true") devices = devices.filter((d) => d.online);
+    if (online === "false") devices = devices.filter((d) => !d.online);
+
+    res.status(200).json({
+      success: true,
+      count: devices.length,
+      onlineCount: devices.filter((d) => d.online).length,
+      devices,
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch devices", error });
+  }
+};
+
+// GET /api/devices/:imei — Single tracker presence
+export const getDeviceByImei = async (req: Request, res: Response) => {
+  try {
+    const imei = String(req.params.imei);
+
+    const session = await sessionRegistry.lookup(imei);
+    const bus = await Bus.findOne({ trackerIMEI: imei })
+      .select("busNumber busNumberPlate status trackerIMEI")
+      .lean();
+
+    if (!session && !bus) return res.status(404).json({ message: "Device not found" });
+
+    const filterStats = (await gpsFilter.lookupStats([imei])).get(imei) ?? null;
+    res.status(200).json({ success: true, device: toDeviceView(imei, session, filterStats, bus) });
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch device", error });
+  }
+};
+
+// GET /api/devices/health — Fleet view of trackers with a weak signal or low backup battery
+// ?hours=24 (look-back for the latest sample) &issue=weakSignal|lowBattery &all=true (include healthy)
+export const getFleetHealth = async (req: Request, res: Response) => {
+  try {
+    const hours = Math.min(Number(req.query.hours) || 24, MAX_HEALTH_WINDOW_HOURS);
+    const { issue, all } = req.query;
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+
+    const latest = await DeviceTelemetry.aggregate<{
+      _id: string;
+      lastSampleAt: Date;
+      gsmSignal: { at: Date; value: number } | null;
+      voltageLevel: { at: Date; value: number } | null;
+      charging: { at: Date; value: boolean } | null;
+      ignition: { at: Date; value: boolean } | null;
+    }>([
+      { $match: { timestamp: { $gte: since } } },
+      {
+        $group: {
+          _id: "$imei",
+          lastSampleAt: { $max: "$timestamp" },
+          gsmSignal: latestOf("$gsmSignal"),
+          voltageLevel: latestOf("$voltageLevel"),
+          charging: latestOf("$charging"),
+          ignition: latestOf("$ignition"),
+        },
+      },
+    ]);
+
+    const buses = await Bus.find({ trackerIMEI: { $in: latest.map((d) => d._id) } })
+      .select("busNumber busNumberPlate status trackerIMEI")
+      .lean();
+    const busByImei = new Map(buses.map((b) => [String(b.trackerIMEI), b]));
+    const sessions = await sessionRegistry.lookupMany(latest.map((d) => d._id));
+
+    let devices = latest.map((d) => {
+      const values = {
+        gsmSignal: d.gsmSignal?.value ?? null,
+        voltageLevel: d.voltageLevel?.value ?? null,
+        charging: d.charging?.value ?? null,
+        ignition: d.ignition?.value ?? null,
+      };
+      const bus = busByImei.get(d._id);
+      return {
+        imei: d._id,
+        online: sessions.get(d._id)?.online ?? false,
+        lastSampleAt: d.lastSampleAt,
+        ...values,
+        issues: healthIssues(values),
+        bus: bus ? { _id: bus._id, busNumber: bus.busNumber, busNumberPlate: bus.busNumberPlate } : null,
+      };
+    });
+
+    if (issue === "weakSignal" || issue === "lowBattery") devices = devices.filter((d) => d.issues.includes(issue));
+    else if (all !== "true") devices = devices.filter((d) => d.issues.length > 0);
+
+    // Worst first: most issues, then weakest battery / signal
+    devices.sort(
+      (a, b) =>
+        b.issues.length - a.issues.length ||
+        (a.voltageLevel ?? 6) - (b.voltageLevel ?? 6) ||
+        (a.gsmSignal ?? 4) - (b.gsmSignal ?? 4)
+    );
+
+    res.status(200).json({
+      success: true,
+      since,
+      thresholds: { weakSignal: WEAK_SIGNAL_LEVEL, lowBattery: LOW_BATTERY_LEVEL },
+      count: devices.length,
+      weakSignalCount: devices.filter((d) => d.issues.includes("weakSignal")).length,
+      lowBatteryCount: devices.filter((d) => d.issues.includes("lowBattery")).length,
+      devices,
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch fleet device health", error });
+  }
+};
+
+// GET /api/devices/:imei/health — Health trend of a single tracker
+// ?hours=24 or ?from=&to= (ISO dates), ?bucketMinutes=60
+export const getDeviceHealth = async (req: Request, res: Response) => {
+  try {
+    const imei = String(req.params.imei);
+    const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+    const hours = Math.min(Number(req.query.hours) || 24, MAX_HEALTH_WINDOW_HOURS);
+    const from = req.query.from ? new Date(String(req.query.from)) : new Date(to.getTime() - hours * 60 * 60 * 1000);
+    const bucketMinutes = Math.max(1, Math.floor(Number(req.query.bucketMinutes) || 60));
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+      return res.status(400).json({ message: "Invalid time window" });
+    }
+
+    const [buckets, latest] = await Promise.all([
+      DeviceTelemetry.aggregate([
+        { $match: { imei, timestamp: { $gte: from, $lte: to } } },
+        {
+          $group: {
+            _id: { $dateTrunc: { date: "$timestamp", unit: "minute", binSize: bucketMinutes } },
+            samples: { $sum: 1 },
+            avgVoltageLevel: { $avg: "$voltageLevel" },
+            minVoltageLevel: { $min: "$voltageLevel" },
+            avgGsmSignal: { $avg: "$gsmSignal" },
+            minGsmSignal: { $min: "$gsmSignal" },
+            ignitionOnRatio: ratioOf("$ignition"),
+            chargingRatio: ratioOf("$charging"),
+            gpsTrackingRatio: ratioOf("$gpsTracking"),
+          },
+        },
+        { $sort: { _id: 1 } },
+        { $set: { at: "$_id" } },
+        { $unset: "_id" },
+      ]),
+      DeviceTelemetry.findOne({ imei }).sort({ timestamp: -1 }).lean(),
+    ]);
+
+    if (!latest && !(await sessionRegistry.lookup(imei))) return res.status(404).json({ message: "No telemetry for device" });
+
+    // Trend = change between the first and last bucket of the window
+    const trendOf = (field: "avgVoltageLevel" | "avgGsmSignal") => {
+      const values = buckets.map((b) => b[field]).filter((v): v is number => typeof v === "number");
+      return values.length >= 2 ? Number((values[values.length - 1]! - values[0]!).toFixed(2)) : null;
+    };
+
+    res.status(200).json({
+      success: true,
+      imei,
+      window: { from, to, bucketMinutes },
+      latest: latest
+        ? {
+            at: latest.timestamp,
+            voltageLevel: latest.voltageLevel ?? null,
+            gsmSignal: latest.gsmSignal ?? null,
+            ignition: latest.ignition ?? null,
+            charging: latest.charging ?? null,
+            gpsTracking: latest.gpsTracking ?? null,
+          }
+        : null,
+      issues: latest ? healthIssues(latest) : [],
+      trend: { voltageLevel: trendOf("avgVoltageLevel"), gsmSignal: trendOf("avgGsmSignal") },
+      buckets,
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch device health", error });
+  }
+};
+
+// GET /api/devices/mqtt — MQTT gateway ingestion status and per-topic error counts
+export const getMqttStatus = async (_req: Request, res: Response) => {
+  res.status(200).json({ success: true, mqtt: await mqttIngest.lookupStatus() });
+};
@@ -2,7 +2,7 @@ import { Request, Response } from "express";
 import { Types } from "mongoose";
 import User from "../models/User.model";
 import Bus from "../models/Bus.model";
-import TripLog from "../models/TripLog.model";
+import TripLog, { RAN_TRIP_FILTER } from "../models/TripLog.model";
 import bcrypt from "bcrypt";
 
 // ✅ GET /api/drivers — List all drivers
@@ -202,7 +202,7 @@ export const getDriverLogs = async (req: Request, res: Response) => {
     const bus = await Bus.findOne({ driver: driver._id });
     if (!bus) return res.status(404).json({ message: "No bus assigned to this driver" });
 
-    const trips = await TripLog.find({ bus: bus._id }).sort({ startTime: -1 });
+    const trips = await TripLog.find({ bus: bus._id, ...RAN_TRIP_FILTER }).sort({ startTime: -1 });
 
     res.status(200).json({
       driver: driver.name,
@@ -0,0 +1,36 @@
+// src/controllers/osmandController.ts
+// Phone tracking (OsmAnd / Traccar Client): each report goes through the same
+// GPS handler as hardware trackers, with the app's device id in place of an IMEI
+
+import { Request, Response } from "express";
+import { wrapAsync, AppError } from "../middleware/errorHandler";
+import { parseOsmAndRequest } from "../services/osmand";
+import { handleParsedMessage } from "../services/gpsHandler";
+import { getBusIdForIMEI } from "../utils/imeiCache";
+import { sessionRegistry } from "../tcp/sessionRegistry";
+
+// Optional shared secret, sent by the app as an extra `token` URL parameter
+const OSMAND_TOKEN = process.env.OSMAND_TOKEN;
+
+// GET|POST /api/osmand?id=..&lat=..&lon=..&timestamp=..&speed=..&batt=..
+export const ingestOsmAnd = wrapAsync(async (req: Request, res: Response) => {
+  const params = { ...req.query, ...(req.is("application/x-www-form-urlencoded") ? req.body : {}) };
+
+  if (OSMAND_TOKEN && params.token !== OSMAND_TOKEN) throw new AppError("Invalid token", 401);
+
+  const msg = parseOsmAndRequest(params, req.is("application/json") ? req.body : undefined);
+  const deviceId = String(msg.imei);
+
+  // Unbound phones get an error so the app keeps its buffered reports
+  const busId = await getBusIdForIMEI(deviceId);
+  if (!busId) throw new AppError("Unknown device", 404);
+
+  sessionRegistry.record(
+    deviceId,
+    { connectionId: `osmand:${deviceId}`, remoteAddress: req.ip },
+    msg.event?.string
+  );
+  await handleParsedMessage(msg);
+
+  res.status(200).end();
+});
@@ -0,0 +1,72 @@
+// src/controllers/pendingDeviceController.ts
+// Provisioning queue for trackers that report in without being bound to a bus:
+// list them, bind one to a bus, or blocklist it
+
+import { Request, Response } from "express";
+import { isValidObjectId } from "mongoose";
+import PendingDevice, { PendingDeviceStatus } from "../models/PendingDevice.model";
+import { wrapAsync, AppError } from "../middleware/errorHandler";
+import { AuthRequest } from "../middleware/AuthMiddleware";
+import { deviceProvisioning } from "../services/deviceProvisioning";
+import { sessionRegistry } from "../tcp/sessionRegistry";
+
+const STATUSES: PendingDeviceStatus[] = ["pending", "approved", "blocklisted"];
+
+// GET /api/devices/pending?status=pending|approved|blocklisted — Provisioning queue, last seen first
+export const getPendingDevices = wrapAsync(async (req: Request, res: Response) => {
+  const status = (req.query.status as PendingDeviceStatus | undefined) ?? "pending";
+  if (!STATUSES.includes(status)) throw new AppError(`status must be one of: ${STATUSES.join(", ")}`, 400);
+
+  const limit = Math.min(Number(req.query.limit) || 100, 500);
+  const devices = await PendingDevice.find({ status })
+    .populate("bus", "busNumber busNumberPlate")
+    .sort({ lastSeenAt: -1 })
+    .limit(limit)
+    .lean();
+  const sessions = await sessionRegistry.lookupMany(devices.map((d) => d.imei));
+
+  res.status(200).json({
+    success: true,
+    count: devices.length,
+    devices: devices.map((d) => ({ ...d, online: sessions.get(d.imei)?.online ?? false })),
+  });
+});
+
+// POST /api/devices/pending/:imei/approve { busId, replace? } — Bind the tracker to a bus
+export const approvePendingDevice = wrapAsync(async (req: AuthRequest, res: Response) => {
+  const imei = String(req.params.imei);
+  const { busId, replace } = req.body ?? {};
+  if (!busId || !isValidObjectId(busId)) throw new AppError("A valid busId is required", 400);
+
+  const { device, bus, previousImei } = await deviceProvisioning.approve(imei, String(busId), {
+    replace: replace === true,
+    ...(req.user ? { userId: String(req.user._id) } : {}),
+  });
+
+  res.status(200).json({
+    success: true,
+    message: `Tracker ${imei} bound to bus ${bus.busNumber}`,
+    replacedImei: previousImei,
+    device,
+  });
+});
+
+// POST /api/devices/pending/:imei/blocklist { reason? } — Drop the tracker's messages and close its connection
+export const blocklistDevice = wrapAsync(async (req: AuthRequest, res: Response) => {
+  const imei = String(req.params.imei);
+  const { reason } = req.body ?? {};
+  if (reason !== undefined && typeof reason !== "string") throw new AppError("reason must be a string", 400);
+
+  const device = await deviceProvisioning.blocklist(imei, {
+    ...(reason ? { reason } : {}),
+    ...(req.user ? { userId: String(req.user._id) } : {}),
+  });
+
+  res.status(200).json({ success: true, message: `Tracker ${imei} blocklisted`, device });
+});
+
+// DELETE /api/devices/pending/:imei/blocklist — Back to the pending queue
+export const unblockDevice = wrapAsync(async (req: Request, res: Response) => {
+  const device = await deviceProvisioning.unblock(String(req.params.imei));
+  res.status(200).json({ success: true, message: `Tracker ${device.imei} unblocked`, device });
+});
@@ -2,8 +2,8 @@ import { Request, Response } from "express";
 import User from "../models/User.model";
 import Bus from "../models/Bus.model";
 import RFIDLog from "../models/RFIDLog.model";
-import TripLog from "../models/TripLog.model";
-import { determineRfidEvent } from "../utils/rfid.utils";
+import { AppError } from "../middleware/errorHandler";
+import { processRfidScan } from "../services/rfidScan";
 
 /**
  * Handle a student RFID scan (boarding/exiting a bus)
@@ -16,45 +16,7 @@ export const handleRfidScan = async (req: Request, res: Response) => {
       return res.status(400).json({ message: "rfidTag and busId are required" });
     }
 
-    const normalizedUID = rfidTag.replace(/\s+/g, "").toUpperCase();
-
-    const bus = await Bus.findById(busId);
-    if (!bus) return res.status(404).json({ message: "Bus not found" });
-
-    const student = await User.findOne({
-      rfidCardUID: normalizedUID,
-      role: "student",
-      status: "active",
-    });
-    if (!student) return res.status(404).json({ message: "Invalid RFID card" });
-
-    // ✅ Simplified: just flip last event on this bus
-    const eventType = await determineRfidEvent(String(student._id), String(bus._id));
-
-    // Save log
-    const log = await RFIDLog.create({
-      rfidTag: normalizedUID,
-      student: student._id,
-      bus: bus._id,
-      eventType,
-    });
-
-    // Update passenger count if active trip exists
-    const activeTrip = await TripLog.findOne({ bus: bus._id, status: "active" });
-    if (activeTrip) {
-      const delta = eventType === "BOARD" ? 1 : -1;
-      await TripLog.findByIdAndUpdate(activeTrip._id, { $inc: { passengerCount: delta } });
-    }
-
-    // Emit real-time event
-    const io = req.app.get("io");
-    io?.emit("rfid:event", {
-      studentId: student._id,
-      studentName: student.name,
-      busId: bus._id,
-      eventType,
-      timestamp: log.createdAt,
-    });
+    const { eventType, student } = await processRfidScan({ rfidTag, busId });
 
     return res.status(200).json({
       message: "RFID processed successfully",
@@ -63,6 +25,7 @@ export const handleRfidScan = async (req: Request, res: Response) => {
     });
 
   } catch (error: any) {
+    if (error instanceof AppError) return res.status(error.statusCode).json({ message: error.message });
     console.error("RFID ERROR:", error);
     return res.status(500).json({ message: "RFID scan failed", error: error.message });
   }
@@ -1,6 +1,7 @@
 import { Request, Response } from "express";
 import Route from "../models/Route.model";
 import Station from "../models/Station.model";
+import { busState } from "../services/busState";
 
 /** ✅ Create Route */
 export const createRoute = async (req: Request, res: Response) => {
@@ -61,6 +62,7 @@ export const deleteRoute = async (req: Request, res: Response) => {
   try {
     const deleted = await Route.findByIdAndDelete(req.params.id);
     if (!deleted) return res.status(404).json({ message: "Route not found" });
+    busState.invalidate("*"); // buses on the route
 
     res.status(200).json({ success: true, message: "Route deleted successfully" });
   } catch (error) {
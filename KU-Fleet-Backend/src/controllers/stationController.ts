@@ -1,5 +1,8 @@
 import { Request, Response } from "express";
+import { Types } from "mongoose";
 import Station from "../models/Station.model";
+import Bus from "../models/Bus.model";
+import { etaService } from "../services/etaService";
 
 /** POST /api/stations */
 export const createStation = async (req: Request, res: Response) => {
@@ -35,3 +38,30 @@ export const getAllStations = async (_req: Request, res: Response) => {
     res.status(500).json({ message: "Failed to fetch stations", error });
   }
 };
+
+/** GET /api/stations/:id/arrivals — Buses on a trip heading to the station, soonest first */
+export const getStationArrivals = async (req: Request, res: Response) => {
+  try {
+    const id = String(req.params.id);
+    if (!Types.ObjectId.isValid(id)) return res.status(400).json({ message: "Invalid station ID" });
+
+    const station = await Station.findById(id).select("stationName").lean();
+    if (!station) return res.status(404).json({ message: "Station not found" });
+
+    const arrivals = await etaService.arrivalsAt(id);
+    const buses = await Bus.find({ _id: { $in: arrivals.map((a) => a.busId) } })
+      .select("busNumber")
+      .lean();
+    const busNumbers = new Map(buses.map((b) => [String(b._id), b.busNumber]));
+
+    res.status(200).json({
+      success: true,
+      stationId: id,
+      stationName: station.stationName,
+      count: arrivals.length,
+      arrivals: arrivals.map((a) => ({ ...a, busNumber: busNumbers.get(a.busId) ?? null })),
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch station arrivals", error });
+  }
+};
@@ -0,0 +1,147 @@
+// src/controllers/timetableController.ts
+// Route timetables, the scheduled trips generated from them, and planned-vs-actual
+// reports for the transport office
+
+import { Request, Response } from "express";
+import { isValidObjectId } from "mongoose";
+import Timetable from "../models/Timetable.model";
+import Route from "../models/Route.model";
+import Bus from "../models/Bus.model";
+import { wrapAsync, AppError } from "../middleware/errorHandler";
+import { TripSchedule, parseDay, addDays } from "../services/tripSchedule";
+
+const MAX_REPORT_DAYS = 93;
+
+const TIMETABLE_FIELDS = ["route", "bus", "driver", "label", "departureTime", "daysOfWeek", "active"] as const;
+
+// Picks the timetable fields from a request body and checks the route / bus / driver ids
+async function timetableUpdates(body: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const updates: Record<string, unknown> = {};
+  for (const field of TIMETABLE_FIELDS) {
+    if (body[field] !== undefined) updates[field] = body[field];
+  }
+
+  for (const field of ["route", "bus", "driver"] as const) {
+    if (updates[field] !== undefined && updates[field] !== null && !isValidObjectId(updates[field])) {
+      throw new AppError(`${field} must be a valid id`, 400);
+    }
+  }
+  if (updates.daysOfWeek !== undefined) {
+    const days = updates.daysOfWeek;
+    if (!Array.isArray(days) || !days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)) {
+      throw new AppError("daysOfWeek must be an array of 0 (Sunday) … 6 (Saturday)", 400);
+    }
+  }
+
+  const [route, bus] = await Promise.all([
+    updates.route ? Route.exists({ _id: updates.route }) : true,
+    updates.bus ? Bus.exists({ _id: updates.bus }) : true,
+  ]);
+  if (!route) throw new AppError("Route not found", 404);
+  if (!bus) throw new AppError("Bus not found", 404);
+
+  return updates;
+}
+
+// ?from=YYYY-MM-DD&to=YYYY-MM-DD (inclusive) or ?date=YYYY-MM-DD, default today
+function reportRange(query: Request["query"]) {
+  const day = (value: unknown) => (typeof value === "string" ? parseDay(value) : parseDay());
+  const from = day(query.from ?? query.date);
+  const to = addDays(query.to !== undefined ? day(query.to) : from, 1);
+
+  if (to <= from) throw new AppError("to must not be before from", 400);
+  if (to.getTime() - from.getTime() > MAX_REPORT_DAYS * 86_400_000) {
+    throw new AppError(`At most ${MAX_REPORT_DAYS} days per report`, 400);
+  }
+
+  const scope: { route?: string; bus?: string } = {};
+  for (const field of ["route", "bus"] as const) {
+    const value = query[field];
+    if (value === undefined) continue;
+    if (!isValidObjectId(value)) throw new AppError(`${field} must be a valid id`, 400);
+    scope[field] = String(value);
+  }
+  return { from, to, ...scope };
+}
+
+// GET /api/timetables?route=&bus=&active= — Timetables in departure order
+export const getTimetables = wrapAsync(async (req: Request, res: Response) => {
+  const filter: Record<string, unknown> = {};
+  if (req.query.route) filter.route = String(req.query.route);
+  if (req.query.bus) filter.bus = String(req.query.bus);
+  if (req.query.active !== undefined) filter.active = req.query.active === "true";
+
+  const timetables = await Timetable.find(filter)
+    .populate("route", "routeName")
+    .populate("bus", "busNumber busNumberPlate")
+    .populate("driver", "name")
+    .sort({ route: 1, departureTime: 1 })
+    .lean();
+
+  res.status(200).json({ success: true, count: timetables.length, timetables });
+});
+
+// POST /api/timetables { route, bus, departureTime, daysOfWeek?, driver?, label?, active? }
+export const createTimetable = wrapAsync(async (req: Request, res: Response) => {
+  const updates = await timetableUpdates(req.body ?? {});
+  if (!updates.route || !updates.bus || !updates.departureTime) {
+    throw new AppError("route, bus and departureTime are required", 400);
+  }
+
+  const timetable = await Timetable.create(updates);
+  await TripSchedule.refreshToday(String(timetable._id), timetable); // a departure later today runs today
+
+  res.status(201).json({ success: true, message: "Timetable created successfully", timetable });
+});
+
+// PUT /api/timetables/:id — Today's runs that haven't left yet follow the change
+export const updateTimetable = wrapAsync(async (req: Request, res: Response) => {
+  const id = String(req.params.id);
+  const updates = await timetableUpdates(req.body ?? {});
+
+  // driver: null goes back to whoever drives the bus
+  const { driver, ...rest } = updates;
+  const timetable = await Timetable.findByIdAndUpdate(
+    id,
+    driver === null ? { $set: rest, $unset: { driver: 1 } } : { $set: updates },
+    { new: true, runValidators: true }
+  );
+  if (!timetable) throw new AppError("Timetable not found", 404);
+  await TripSchedule.refreshToday(id, timetable);
+
+  res.status(200).json({ success: true, message: "Timetable updated successfully", timetable });
+});
+
+// DELETE /api/timetables/:id — Cancels its runs later today; past runs stay in the reports
+export const deleteTimetable = wrapAsync(async (req: Request, res: Response) => {
+  const id = String(req.params.id);
+  const deleted = await Timetable.findByIdAndDelete(id);
+  if (!deleted) throw new AppError("Timetable not found", 404);
+  await TripSchedule.refreshToday(id, null);
+
+  res.status(200).json({ success: true, message: "Timetable deleted successfully" });
+});
+
+// POST /api/timetables/generate { date? } — Scheduled trips for a day (done nightly for today)
+export const generateScheduledTrips = wrapAsync(async (req: Request, res: Response) => {
+  const { date } = req.body ?? {};
+  if (date !== undefined && typeof date !== "string") throw new AppError("date must be YYYY-MM-DD", 400);
+
+  const day = parseDay(date);
+  const result = await TripSchedule.generateForDay(day);
+  res.status(200).json({ success: true, date: day.toDateString(), ...result });
+});
+
+// GET /api/timetables/planned-vs-actual?date=|from=&to=&route=&bus= — Every planned run with its outcome, plus extra runs
+export const getPlannedVsActual = wrapAsync(async (req: Request, res: Response) => {
+  const range = reportRange(req.query);
+  const report = await TripSchedule.plannedVsActual(range);
+  res.status(200).json({ success: true, from: range.from, to: range.to, ...report });
+});
+
+// GET /api/timetables/planned-vs-actual/summary?from=&to=&route=&bus= — Outcome counts per day and route
+export const getPlannedVsActualSummary = wrapAsync(async (req: Request, res: Response) => {
+  const range = reportRange(req.query);
+  const summary = await TripSchedule.summary(range);
+  res.status(200).json({ success: true, from: range.from, to: range.to, ...summary });
+});
@@ -0,0 +1,72 @@
+// src/controllers/trackerCommandController.ts
+// Downlink commands to a bus's GT06 tracker (interval, locate, reboot, fuel cut)
+
+import { Request, Response } from "express";
+import Bus from "../models/Bus.model";
+import TrackerCommand, { TrackerCommandType } from "../models/TrackerCommand.model";
+import { wrapAsync, AppError } from "../middleware/errorHandler";
+import { AuthRequest } from "../middleware/AuthMiddleware";
+import { commandChannel, EnqueueCommandInput } from "../tcp/commandChannel";
+import { sessionRegistry } from "../tcp/sessionRegistry";
+
+const COMMAND_TYPES: TrackerCommandType[] = [
+  "setInterval",
+  "requestLocation",
+  "reboot",
+  "cutFuel",
+  "restoreFuel",
+  "custom",
+];
+
+// POST /api/buses/:id/tracker/commands — Queue a command for the bus tracker
+export const sendTrackerCommand = wrapAsync(async (req: AuthRequest, res: Response) => {
+  const { type, params } = req.body ?? {};
+
+  if (!COMMAND_TYPES.includes(type)) {
+    throw new AppError(`type must be one of: ${COMMAND_TYPES.join(", ")}`, 400);
+  }
+  if (params !== undefined && (typeof params !== "object" || params === null || Array.isArray(params))) {
+    throw new AppError("params must be an object", 400);
+  }
+
+  const bus = await Bus.findById(req.params.id).select("busNumber trackerIMEI").lean();
+  if (!bus) throw new AppError("Bus not found", 404);
+  if (!bus.trackerIMEI) throw new AppError("Bus has no tracker assigned", 409);
+
+  const input: EnqueueCommandInput = {
+    busId: String(bus._id),
+    imei: bus.trackerIMEI,
+    type,
+    params: params ?? {},
+  };
+  if (req.user) input.requestedBy = String(req.user._id);
+
+  const command = await commandChannel.enqueue(input);
+  // The connection may be held by an ingest process: presence is shared over Redis
+  const deviceOnline = (await sessionRegistry.lookup(bus.trackerIMEI))?.online ?? false;
+
+  res.status(202).json({
+    success: true,
+    message: deviceOnline
+      ? "Command queued for delivery"
+      : "Tracker is offline, command will be sent when it reconnects",
+    deviceOnline,
+    command,
+  });
+});
+
+// GET /api/buses/:id/tracker/commands — Command history for the bus tracker
+export const getTrackerCommands = wrapAsync(async (req: Request, res: Response) => {
+  const limit = Math.min(Number(req.query.limit) || 50, 200);
+
+  const filter: Record<string, unknown> = { bus: req.params.id };
+  if (req.query.status) filter.status = String(req.query.status);
+
+  const commands = await TrackerCommand.find(filter)
+    .populate("requestedBy", "name email")
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .lean();
+
+  res.status(200).json({ success: true, count: commands.length, commands });
+});
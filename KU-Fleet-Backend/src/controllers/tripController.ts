@@ -1,7 +1,17 @@
 // src/controllers/tripController.ts
 import { Request, Response } from "express";
-import TripLog from "../models/TripLog.model";
+import { isValidObjectId } from "mongoose";
+import TripLog, { ITripLog, RAN_TRIP_FILTER, TripStatus } from "../models/TripLog.model";
 import Bus from "../models/Bus.model";
+import StopEvent from "../models/StopEvent.model";
+import { wrapAsync, AppError } from "../middleware/errorHandler";
+import { TripLifecycle, ClosedTripStatus } from "../services/tripLifecycle";
+import { TripTrack } from "../services/tripTrack";
+import { TripPlayback, PlaybackOptions } from "../services/tripPlayback";
+import { TripExport, ExportFormat, EXPORT_FORMATS, EXPORT_CONTENT_TYPES } from "../services/tripExport";
+import { parseDay, addDays } from "../services/tripSchedule";
+
+const MAX_EXPORT_DAYS = 31;
 
 /**
  * ✅ Log bus position periodically (e.g., every 10–15 minutes)
@@ -17,38 +27,35 @@ export const logBusPosition = async (req: Request, res: Response) => {
     const bus = await Bus.findById(busId);
     if (!bus) return res.status(404).json({ message: "Bus not found" });
 
-    // Find today's ongoing trip (within 24 hours)
-    const todayStart = new Date();
-    todayStart.setHours(0, 0, 0, 0);
-
-    let trip = await TripLog.findOne({
-      bus: busId,
-      startTime: { $gte: todayStart },
-    });
+    const coords = { lat, lng, speed: speed ?? 0, timestamp: new Date() };
 
-    // Create new daily trip if not exists
-    if (!trip) {
-      trip = new TripLog({
-        bus: busId,
-        startTime: new Date(),
-        coordinates: [],
-        status: "active",
-      });
-      
+    // The bus's open trip, or a new one (the lifecycle keeps it to one per bus)
+    const open = await TripLifecycle.findOpen(busId);
+    let trip: ITripLog;
+    if (open) {
+      await TripTrack.append(open, [coords]);
+      trip = open;
+    } else {
+      ({ trip } = await TripLifecycle.start({
+        busId,
+        driver: bus.driver ? String(bus.driver) : null,
+        route: bus.route ? String(bus.route) : null,
+        startTime: coords.timestamp,
+        coords,
+        reason: "manual",
+      }));
     }
 
-    trip.coordinates.push({ lat, lng, speed, timestamp: new Date() });
-
     // Update last known bus location for quick lookup
-    bus.lastKnownLocation = { lat, lng, speed, timestamp: new Date() };
+    bus.lastKnownLocation = coords;
     await bus.save();
-    await trip.save();
+    const totals = await TripLog.findById(trip._id).select("pointCount").lean();
 
     res.status(200).json({
       success: true,
       message: "Bus position logged successfully",
       tripId: trip._id,
-      totalPoints: trip.coordinates.length,
+      totalPoints: totals?.pointCount ?? 0,
     });
   } catch (error) {
     res.status(500).json({ message: "Failed to log bus position", error });
@@ -61,7 +68,7 @@ export const logBusPosition = async (req: Request, res: Response) => {
 export const getTripLogsByBus = async (req: Request, res: Response) => {
   try {
     const { busId } = req.params;
-    const logs = await TripLog.find({ bus: busId })
+    const logs = await TripLog.find({ bus: busId, ...RAN_TRIP_FILTER })
       .sort({ startTime: -1 })
       .limit(10); // recent trips
 
@@ -79,9 +86,9 @@ export const getDailyTripSummary = async (_req: Request, res: Response) => {
     const todayStart = new Date();
     todayStart.setHours(0, 0, 0, 0);
 
-    const trips = await TripLog.find({ startTime: { $gte: todayStart } })
+    const trips = await TripLog.find({ startTime: { $gte: todayStart }, ...RAN_TRIP_FILTER })
       .populate("bus", "busNumber route")
-      .select("bus startTime endTime coordinates");
+      .select("bus startTime endTime distance duration avgSpeed maxSpeed status");
 
     res.status(200).json({
       success: true,
@@ -102,13 +109,139 @@ export const cleanupOldTrips = async (_req: Request, res: Response) => {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - 2); // keep last 2 days only
 
-    const deleted = await TripLog.deleteMany({ startTime: { $lt: cutoffDate } });
+    const deletedCount = await TripTrack.deleteTrips({ startTime: { $lt: cutoffDate } });
     res.status(200).json({
       success: true,
       message: `Old trip logs deleted`,
-      deletedCount: deleted.deletedCount,
+      deletedCount,
     });
   } catch (error) {
     res.status(500).json({ message: "Failed to cleanup trip logs", error });
   }
 };
+
+const MANUAL_TRIP_STATUSES: TripStatus[] = ["in_progress", "at_stop", "completed", "cancelled", "abandoned"];
+
+/**
+ * ✅ Move a trip to another status by hand (admin), e.g. cancel it or end it
+ * PATCH /api/tripLogs/:id/status { status }
+ */
+export const updateTripStatus = wrapAsync(async (req: Request, res: Response) => {
+  const { status } = req.body ?? {};
+  if (!MANUAL_TRIP_STATUSES.includes(status)) {
+    throw new AppError(`status must be one of: ${MANUAL_TRIP_STATUSES.join(", ")}`, 400);
+  }
+
+  const tripId = String(req.params.id);
+  const trip =
+    status === "in_progress" || status === "at_stop"
+      ? await TripLifecycle.transition(tripId, status)
+      : await TripLifecycle.close(tripId, status as ClosedTripStatus, { reason: "manual" });
+
+  res.status(200).json({ success: true, trip });
+});
+
+/**
+ * ✅ Station stops of a trip in order: arrival, departure and dwell per station
+ * GET /api/tripLogs/:id/stops
+ */
+export const getTripStops = wrapAsync(async (req: Request, res: Response) => {
+  const tripId = String(req.params.id);
+  const trip = await TripLog.findById(tripId).select("status").lean();
+  if (!trip) throw new AppError("Trip not found", 404);
+
+  const stops = await StopEvent.find({ trip: tripId })
+    .populate("station", "stationName position")
+    .select("station sequence arrivedAt departedAt dwellSeconds")
+    .sort({ arrivedAt: 1 })
+    .lean();
+
+  res.status(200).json({ success: true, tripId, status: trip.status, count: stops.length, stops });
+});
+
+/**
+ * ✅ Replay a trip: time-ordered, downsampled track with stops, alerts and RFID scans
+ * GET /api/tripLogs/:id/playback?intervalSec=&maxPoints=&from=&to=
+ */
+export const getTripPlayback = wrapAsync(async (req: Request, res: Response) => {
+  const options: PlaybackOptions = {};
+
+  for (const key of ["from", "to"] as const) {
+    if (req.query[key] === undefined) continue;
+    const date = new Date(String(req.query[key]));
+    if (Number.isNaN(date.getTime())) throw new AppError(`Invalid ${key} date`, 400);
+    options[key] = date;
+  }
+  for (const key of ["intervalSec", "maxPoints"] as const) {
+    if (req.query[key] === undefined) continue;
+    const value = Number(req.query[key]);
+    if (!Number.isInteger(value) || value < (key === "maxPoints" ? 2 : 0)) {
+      throw new AppError(`${key} must be a ${key === "maxPoints" ? "number of at least 2" : "non-negative integer"}`, 400);
+    }
+    options[key] = value;
+  }
+
+  const playback = await TripPlayback.build(String(req.params.id), options);
+  res.status(200).json({ success: true, ...playback });
+});
+
+function exportFormat(value: unknown): ExportFormat {
+  const format = value === undefined ? "gpx" : String(value).toLowerCase();
+  if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+    throw new AppError(`format must be one of: ${EXPORT_FORMATS.join(", ")}`, 400);
+  }
+  return format as ExportFormat;
+}
+
+// Headers are sent with the first chunk: a failure after that can only cut the download
+async function sendExport(res: Response, format: ExportFormat, filter: Record<string, unknown>, title: string, filename: string) {
+  res.setHeader("Content-Type", EXPORT_CONTENT_TYPES[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${filename.replace(/[^\w.-]+/g, "-")}.${format}"`);
+  try {
+    await TripExport.stream(res, format, filter, title);
+  } catch (err) {
+    if (!res.headersSent) throw err;
+    console.error("❌ Trip export failed:", err);
+    res.destroy(err as Error);
+  }
+}
+
+/**
+ * ✅ Export one trip's track and stops
+ * GET /api/tripLogs/:id/export?format=gpx|kml|geojson|csv
+ */
+export const exportTrip = wrapAsync(async (req: Request, res: Response) => {
+  const format = exportFormat(req.query.format);
+  const tripId = String(req.params.id);
+  const trip = await TripLog.findById(tripId).select("startTime").lean();
+  if (!trip) throw new AppError("Trip not found", 404);
+
+  await sendExport(res, format, { _id: trip._id }, `Trip ${tripId}`, `trip-${tripId}`);
+});
+
+/**
+ * ✅ Export a bus's trips over a date range (inclusive, up to 31 days)
+ * GET /api/tripLogs/export?bus=&from=YYYY-MM-DD&to=YYYY-MM-DD&format=gpx|kml|geojson|csv
+ */
+export const exportTrips = wrapAsync(async (req: Request, res: Response) => {
+  const format = exportFormat(req.query.format);
+  const { bus: busId } = req.query;
+  if (!isValidObjectId(busId)) throw new AppError("bus must be a valid id", 400);
+  if (typeof req.query.from !== "string") throw new AppError("from is required (YYYY-MM-DD)", 400);
+
+  const fromDay = req.query.from;
+  const toDay = typeof req.query.to === "string" ? req.query.to : fromDay;
+  const from = parseDay(fromDay);
+  const to = addDays(parseDay(toDay), 1);
+  if (to <= from) throw new AppError("to must not be before from", 400);
+  if (to.getTime() - from.getTime() > MAX_EXPORT_DAYS * 86_400_000) {
+    throw new AppError(`At most ${MAX_EXPORT_DAYS} days per export`, 400);
+  }
+
+  const bus = await Bus.findById(String(busId)).select("busNumber").lean();
+  if (!bus) throw new AppError("Bus not found", 404);
+
+  const filter = { bus: bus._id, startTime: { $gte: from, $lt: to }, ...RAN_TRIP_FILTER };
+  const range = fromDay === toDay ? fromDay : `${fromDay}_${toDay}`;
+  await sendExport(res, format, filter, `Bus ${bus.busNumber} · ${range.replace("_", " – ")}`, `bus-${bus.busNumber}-${range}`);
+});
@@ -1,10 +1,37 @@
 import { Document, Types } from "mongoose";
 
+export type AlertType =
+  | "panic"
+  | "overspeed"
+  | "routeDeviation"
+  | "powerCut"
+  | "vibration"
+  | "lowBattery"
+  | "geofenceIn"
+  | "geofenceOut"
+  | "displacement"
+  | "system"
+  | "other";
+
+export type AlertPriority = "low" | "medium" | "high";
+
+// Tracker status decoded from the packet that raised the alert
+export interface IAlertTerminalStatus {
+  ignition?: boolean;
+  charging?: boolean;
+  gpsTracking?: boolean;
+  voltageLevel?: number; // 0 (no power) .. 6 (very high)
+  gsmSignal?: number; // 0 (no signal) .. 4 (strong)
+}
+
 export interface IAlert extends Document {
   bus: Types.ObjectId;
-  type: "panic" | "overspeed" | "routeDeviation" | "system" | "other";
+  type: AlertType;
   message?: string;
-  priority: "low" | "medium" | "high";
+  priority: AlertPriority;
+  alarm?: string; // tracker alarm that raised it (sos, powerCut, vibration, ...)
+  terminalStatus?: IAlertTerminalStatus;
+  location?: { lat: number; lng: number };
   resolved: boolean;
   timestamp: Date;
 }
@@ -1,4 +1,5 @@
 import { Document, Types } from "mongoose";
+import { TripDetectionConfig } from "../config/tripDetection";
 export interface IBusCamera {
   deviceId?: string;     // K18 deviceId / IMEI      // H5 token
   channels?: number[];   // default [1, 2]
@@ -27,4 +28,5 @@ export interface IBus extends Document {
     publicId: string;
   };
   camera?: IBusCamera;
+  tripDetection?: Partial<TripDetectionConfig>; // overrides of the fleet trip detection defaults
 }
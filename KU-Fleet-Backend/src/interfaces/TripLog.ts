@@ -11,7 +11,6 @@ export interface ITripLog extends Document {
   bus: Types.ObjectId;
   startTime: Date;
   endTime?: Date;
-  coordinates: ITripCoordinate[];
   distance?: number;
   totalDistance?: number;
   avgSpeed?: number;
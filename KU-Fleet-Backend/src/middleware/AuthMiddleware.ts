@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import User from "../models/User.model";
+import { IUser } from "../interfaces/User";
 
 interface DecodedToken {
   id: string;
@@ -8,7 +9,12 @@ interface DecodedToken {
   exp: number;
 }
 
-export const protect = async (req: Request, res: Response, next: NextFunction) => {
+// A request that passed `protect`: carries the signed-in user
+export interface AuthRequest extends Request {
+  user?: IUser;
+}
+
+export const protect = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const authHeader = req.headers.authorization;
     if (!authHeader || !authHeader.startsWith("Bearer "))
@@ -24,15 +30,15 @@ export const protect = async (req: Request, res: Response, next: NextFunction) =
     const user = await User.findById(decoded.id).select("-password");
     if (!user) return res.status(401).json({ message: "User not found" });
 
-    (req as any).user = user;
+    req.user = user;
     next();
   } catch (error) {
     res.status(401).json({ message: "Invalid token" });
   }
 };
 
-export const adminOnly = (req: Request, res: Response, next: NextFunction) => {
-  const user = (req as any).user;
+export const adminOnly = (req: AuthRequest, res: Response, next: NextFunction) => {
+  const user = req.user;
   if (user?.role !== "admin") return res.status(403).json({ message: "Admin access only" });
   next();
 };
@@ -6,11 +6,36 @@ const alertSchema = new Schema<IAlert>(
     bus: { type: Schema.Types.ObjectId, ref: "Bus", required: true },
     type: { 
       type: String, 
-      enum: ["panic", "overspeed", "routeDeviation", "system", "other"], 
+      enum: [
+        "panic",
+        "overspeed",
+        "routeDeviation",
+        "powerCut",
+        "vibration",
+        "lowBattery",
+        "geofenceIn",
+        "geofenceOut",
+        "displacement",
+        "system",
+        "other",
+      ],
       default: "other" 
     },
     message: String,
     priority: { type: String, enum: ["low", "medium", "high"], default: "medium" },
+    // Tracker alarms: raw alarm + decoded terminal status at the time of the alarm
+    alarm: String,
+    terminalStatus: {
+      ignition: Boolean,
+      charging: Boolean,
+      gpsTracking: Boolean,
+      voltageLevel: Number,
+      gsmSignal: Number,
+    },
+    location: {
+      lat: Number,
+      lng: Number,
+    },
     resolved: { type: Boolean, default: false }, 
     timestamp: { type: Date, default: Date.now },
   },
@@ -33,7 +33,21 @@ const busSchema = new Schema<IBus>(
     camera: {
       deviceId: { type: String },          // fixed hardware id
       channels: { type: [Number], default: [1] }
-    }
+    },
+    // Per-bus trip boundary detection (unset fields use the env defaults)
+    tripDetection: {
+      mode: { type: String, enum: ["speed", "ignition", "auto"] },
+      minSpeedKmh: Number,
+      inactivityMinutes: Number,
+      ignitionOffMinutes: Number,
+      depot: {
+        lat: Number,
+        lng: Number,
+        radiusMeters: Number,
+      },
+      depotDwellMinutes: Number,
+      maxGapMinutes: Number,
+    },
     
 
   },
@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+const TELEMETRY_RETENTION_DAYS = Number(process.env.DEVICE_TELEMETRY_RETENTION_DAYS ?? 30);
+
+export interface IDeviceTelemetry extends Document {
+  imei: string;
+  bus?: Types.ObjectId;
+  timestamp: Date;
+  voltageLevel?: number; // 0..6 (GT06 backup battery level)
+  gsmSignal?: number; // 0..4
+  ignition?: boolean;
+  charging?: boolean; // external power connected
+  gpsTracking?: boolean;
+  event?: string; // message that carried the sample ('status', 'alarm', ...)
+}
+
+const deviceTelemetrySchema = new Schema<IDeviceTelemetry>(
+  {
+    imei: { type: String, required: true },
+    bus: { type: Schema.Types.ObjectId, ref: "Bus" },
+    timestamp: { type: Date, required: true },
+    voltageLevel: { type: Number, min: 0, max: 6 },
+    gsmSignal: { type: Number, min: 0, max: 4 },
+    ignition: Boolean,
+    charging: Boolean,
+    gpsTracking: Boolean,
+    event: String,
+  },
+  {
+    // Time-series collection: samples bucketed per IMEI, expired by MongoDB itself
+    timeseries: { timeField: "timestamp", metaField: "imei", granularity: "minutes" },
+    expireAfterSeconds: TELEMETRY_RETENTION_DAYS * 24 * 60 * 60,
+    versionKey: false,
+  }
+);
+
+// Health trend per device, latest sample per device (fleet view)
+deviceTelemetrySchema.index({ imei: 1, timestamp: -1 });
+
+export default mongoose.model<IDeviceTelemetry>("DeviceTelemetry", deviceTelemetrySchema);
@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export type PendingDeviceStatus = "pending" | "approved" | "blocklisted";
+
+export interface IPendingDevice extends Document {
+  imei: string;
+  status: PendingDeviceStatus;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  messageCount: number;
+  lastEvent?: string;
+  remoteAddress?: string;
+  lastPosition?: {
+    lat: number;
+    lng: number;
+    speed: number;
+    timestamp: Date;
+  };
+  bus?: Types.ObjectId; // set on approval
+  approvedBy?: Types.ObjectId;
+  approvedAt?: Date;
+  blocklistedBy?: Types.ObjectId;
+  blocklistedAt?: Date;
+  reason?: string; // why it was blocklisted
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const pendingDeviceSchema = new Schema<IPendingDevice>(
+  {
+    imei: { type: String, required: true, unique: true },
+    status: {
+      type: String,
+      enum: ["pending", "approved", "blocklisted"],
+      default: "pending",
+    },
+    firstSeenAt: { type: Date, required: true },
+    lastSeenAt: { type: Date, required: true },
+    messageCount: { type: Number, default: 0 },
+    lastEvent: String,
+    remoteAddress: String,
+    lastPosition: {
+      lat: Number,
+      lng: Number,
+      speed: Number,
+      timestamp: Date,
+    },
+    bus: { type: Schema.Types.ObjectId, ref: "Bus" },
+    approvedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    approvedAt: Date,
+    blocklistedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    blocklistedAt: Date,
+    reason: String,
+  },
+  { timestamps: true }
+);
+
+// Provisioning queue, most recently seen first
+pendingDeviceSchema.index({ status: 1, lastSeenAt: -1 });
+
+export default mongoose.model<IPendingDevice>("PendingDevice", pendingDeviceSchema);
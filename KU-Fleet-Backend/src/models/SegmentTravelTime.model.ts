@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+// One station-to-station leg driven on a completed trip
+export interface ISegmentSample {
+  trip: Types.ObjectId;
+  departedAt: Date;
+  seconds: number;
+}
+
+// Travel time of a route leg (station → next station) by weekday and hour of departure,
+// built nightly from completed trips (workers/segmentTravelTime.service.ts)
+export interface ISegmentTravelTime extends Document {
+  route: Types.ObjectId;
+  fromStation: Types.ObjectId;
+  toStation: Types.ObjectId;
+  fromSequence: number; // position of fromStation on the route
+  weekday: number; // 0 = Sunday … 6 = Saturday, server local time
+  hour: number; // 0–23
+  samples: ISegmentSample[]; // newest first, capped
+  sampleCount: number;
+  medianSeconds: number;
+  p90Seconds: number;
+  lastSampleAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const segmentTravelTimeSchema = new Schema<ISegmentTravelTime>(
+  {
+    route: { type: Schema.Types.ObjectId, ref: "Route", required: true },
+    fromStation: { type: Schema.Types.ObjectId, ref: "Station", required: true },
+    toStation: { type: Schema.Types.ObjectId, ref: "Station", required: true },
+    fromSequence: { type: Number, required: true },
+    weekday: { type: Number, min: 0, max: 6, required: true },
+    hour: { type: Number, min: 0, max: 23, required: true },
+    samples: [
+      {
+        _id: false,
+        trip: { type: Schema.Types.ObjectId, ref: "TripLog" },
+        departedAt: Date,
+        seconds: Number,
+      },
+    ],
+    sampleCount: { type: Number, default: 0 },
+    medianSeconds: { type: Number, required: true },
+    p90Seconds: { type: Number, required: true },
+    lastSampleAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+// One bucket per leg, weekday and hour
+segmentTravelTimeSchema.index(
+  { route: 1, fromStation: 1, toStation: 1, weekday: 1, hour: 1 },
+  { unique: true }
+);
+
+// Buckets without recent samples are pruned
+segmentTravelTimeSchema.index({ lastSampleAt: 1 });
+
+export default mongoose.model<ISegmentTravelTime>("SegmentTravelTime", segmentTravelTimeSchema);
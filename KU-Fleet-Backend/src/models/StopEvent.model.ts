@@ -0,0 +1,37 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+// A bus's stop at a station of its route during a trip (services/stationDetector.ts)
+export interface IStopEvent extends Document {
+  trip: Types.ObjectId;
+  bus: Types.ObjectId;
+  route?: Types.ObjectId;
+  station: Types.ObjectId;
+  sequence: number; // position of the station on the route
+  arrivedAt: Date;
+  departedAt?: Date; // unset: still there, or the trip ended there
+  dwellSeconds?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const stopEventSchema = new Schema<IStopEvent>(
+  {
+    trip: { type: Schema.Types.ObjectId, ref: "TripLog", required: true },
+    bus: { type: Schema.Types.ObjectId, ref: "Bus", required: true },
+    route: { type: Schema.Types.ObjectId, ref: "Route" },
+    station: { type: Schema.Types.ObjectId, ref: "Station", required: true },
+    sequence: { type: Number, required: true },
+    arrivedAt: { type: Date, required: true },
+    departedAt: Date,
+    dwellSeconds: Number,
+  },
+  { timestamps: true }
+);
+
+// A trip's stops in order
+stopEventSchema.index({ trip: 1, arrivedAt: 1 });
+
+// Recent arrivals at a station
+stopEventSchema.index({ station: 1, arrivedAt: -1 });
+
+export default mongoose.model<IStopEvent>("StopEvent", stopEventSchema);
@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+// One planned departure on a route: "08:00 Gulshan run, Mon–Fri, bus 12"
+export interface ITimetable extends Document {
+  route: Types.ObjectId;
+  bus: Types.ObjectId;
+  driver?: Types.ObjectId; // unset: whoever drives the bus that day
+  label?: string;
+  departureTime: string; // "HH:mm", server local time
+  daysOfWeek: number[]; // 0 = Sunday … 6 = Saturday
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const DEPARTURE_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const timetableSchema = new Schema<ITimetable>(
+  {
+    route: { type: Schema.Types.ObjectId, ref: "Route", required: true },
+    bus: { type: Schema.Types.ObjectId, ref: "Bus", required: true },
+    driver: { type: Schema.Types.ObjectId, ref: "User" },
+    label: { type: String, trim: true },
+    departureTime: { type: String, required: true, match: DEPARTURE_TIME_PATTERN },
+    daysOfWeek: {
+      type: [{ type: Number, min: 0, max: 6 }],
+      default: [1, 2, 3, 4, 5],
+      validate: {
+        validator: (days: number[]) => days.length > 0,
+        message: "daysOfWeek needs at least one day",
+      },
+    },
+    active: { type: Boolean, default: true },
+  },
+  { timestamps: true }
+);
+
+// A route's timetable in departure order
+timetableSchema.index({ route: 1, departureTime: 1 });
+timetableSchema.index({ bus: 1 });
+timetableSchema.index({ active: 1 });
+
+export default mongoose.model<ITimetable>("Timetable", timetableSchema);
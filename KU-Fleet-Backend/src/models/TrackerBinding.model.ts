@@ -0,0 +1,41 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+// Where a tracker (re)binding came from
+export type TrackerBindingSource = "busCreate" | "busUpdate" | "provisioning";
+
+export interface ITrackerBinding extends Document {
+  bus: Types.ObjectId;
+  imei: string;
+  boundAt?: Date; // unset: bound before binding history was recorded
+  unboundAt?: Date; // unset: still bound
+  boundBy?: Types.ObjectId;
+  unboundBy?: Types.ObjectId;
+  source: TrackerBindingSource;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const trackerBindingSchema = new Schema<ITrackerBinding>(
+  {
+    bus: { type: Schema.Types.ObjectId, ref: "Bus", required: true },
+    imei: { type: String, required: true },
+    boundAt: Date,
+    unboundAt: Date,
+    boundBy: { type: Schema.Types.ObjectId, ref: "User" },
+    unboundBy: { type: Schema.Types.ObjectId, ref: "User" },
+    source: {
+      type: String,
+      enum: ["busCreate", "busUpdate", "provisioning"],
+      required: true,
+    },
+  },
+  { timestamps: true }
+);
+
+// Binding history per bus, newest first
+trackerBindingSchema.index({ bus: 1, boundAt: -1 });
+
+// Which bus a tracker belonged to at a given time
+trackerBindingSchema.index({ imei: 1, boundAt: -1 });
+
+export default mongoose.model<ITrackerBinding>("TrackerBinding", trackerBindingSchema);
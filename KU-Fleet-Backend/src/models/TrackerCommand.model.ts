@@ -0,0 +1,68 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export type TrackerCommandType =
+  | "setInterval"
+  | "requestLocation"
+  | "reboot"
+  | "cutFuel"
+  | "restoreFuel"
+  | "custom";
+
+export type TrackerCommandStatus =
+  | "queued"
+  | "sent"
+  | "acknowledged"
+  | "timeout"
+  | "failed"
+  | "expired";
+
+export interface ITrackerCommand extends Document {
+  bus: Types.ObjectId;
+  imei: string;
+  type: TrackerCommandType;
+  params?: Record<string, unknown>;
+  text: string; // raw ASCII command sent to the tracker, e.g. "WHERE#"
+  serverFlag: number; // echoed back by the tracker in its 0x15 reply
+  status: TrackerCommandStatus;
+  response?: string;
+  error?: string;
+  requestedBy?: Types.ObjectId;
+  sentAt?: Date;
+  respondedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const trackerCommandSchema = new Schema<ITrackerCommand>(
+  {
+    bus: { type: Schema.Types.ObjectId, ref: "Bus", required: true },
+    imei: { type: String, required: true },
+    type: {
+      type: String,
+      enum: ["setInterval", "requestLocation", "reboot", "cutFuel", "restoreFuel", "custom"],
+      required: true,
+    },
+    params: { type: Schema.Types.Mixed },
+    text: { type: String, required: true },
+    serverFlag: { type: Number, required: true },
+    status: {
+      type: String,
+      enum: ["queued", "sent", "acknowledged", "timeout", "failed", "expired"],
+      default: "queued",
+    },
+    response: String,
+    error: String,
+    requestedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    sentAt: Date,
+    respondedAt: Date,
+  },
+  { timestamps: true }
+);
+
+// Command history per bus, newest first
+trackerCommandSchema.index({ bus: 1, createdAt: -1 });
+
+// Pending commands per device (flushed when the tracker reconnects)
+trackerCommandSchema.index({ imei: 1, status: 1, createdAt: 1 });
+
+export default mongoose.model<ITrackerCommand>("TrackerCommand", trackerCommandSchema);
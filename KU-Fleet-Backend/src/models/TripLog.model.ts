@@ -1,24 +1,62 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
 
+// Why the trip boundary detector opened / closed a trip (services/tripBoundary.ts)
+export type TripStartReason = "movement" | "ignitionOn" | "depotExit" | "manual";
+export type TripEndReason = "inactivity" | "ignitionOff" | "depotDwell" | "gap" | "manual" | "stale";
+
+// Trip lifecycle (services/tripLifecycle.ts owns the transitions)
+export type TripStatus =
+  | "scheduled"
+  | "departed"
+  | "at_stop"
+  | "in_progress"
+  | "completed"
+  | "cancelled"
+  | "abandoned";
+
+export const TRIP_STATUSES: TripStatus[] = [
+  "scheduled",
+  "departed",
+  "at_stop",
+  "in_progress",
+  "completed",
+  "cancelled",
+  "abandoned",
+];
+
+// A bus has at most one trip in these
+export const OPEN_TRIP_STATUSES: TripStatus[] = ["departed", "at_stop", "in_progress"];
+
+// Trips that actually ran: leaves out timetable runs still scheduled or cancelled before
+// departure (a departed run has a startReason)
+export const RAN_TRIP_FILTER = {
+  $or: [{ timetable: { $exists: false } }, { startReason: { $exists: true } }],
+};
+
 export interface ITripLog extends Document {
   bus: Types.ObjectId;
   driver?: Types.ObjectId;
   route?: Types.ObjectId;
+  trackerIMEI?: string; // tracker that recorded the trip (buses get trackers swapped)
+  timetable?: Types.ObjectId; // timetable run this trip was planned as
+  scheduledStart?: Date; // planned departure; startTime is the actual one once departed
   startTime: Date;
   endTime?: Date;
-  coordinates: {
-    lat: number;
-    lng: number;
-    speed?: number;
-    timestamp?: Date;
-  }[];
+  // Fixes are in TripSegment documents (services/tripTrack.ts); these are the totals
   distance?: number;
   duration?: number;       // NEW
   passengerCount: number;
   avgSpeed?: number;
   maxSpeed?: number;
+  pointCount?: number; // fixes in the track, kept up to date while the trip runs
+  lastFixAt?: Date; // newest fix in the track
   stopsCount?: number;
-  status: "in_progress" | "completed" | "cancelled";
+  status: TripStatus;
+  open?: boolean; // set while status is open, backs the one-open-trip-per-bus index
+  startReason?: TripStartReason;
+  endReason?: TripEndReason;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 const tripLogSchema = new Schema<ITripLog>(
@@ -26,27 +64,27 @@ const tripLogSchema = new Schema<ITripLog>(
     bus: { type: Schema.Types.ObjectId, ref: "Bus", required: true },
     driver: { type: Schema.Types.ObjectId, ref: "User" },
     route: { type: Schema.Types.ObjectId, ref: "Route" },
+    trackerIMEI: { type: String },
+    timetable: { type: Schema.Types.ObjectId, ref: "Timetable" },
+    scheduledStart: { type: Date },
     startTime: { type: Date, required: true },
     endTime: { type: Date },
-    coordinates: [
-      {
-        lat: Number,
-        lng: Number,
-        speed: Number,
-        timestamp: { type: Date, default: Date.now },
-      },
-    ],
     distance: { type: Number, default: 0 },
     duration: { type: Number, default: 0 }, // NEW
     avgSpeed: { type: Number, default: 0 },
     maxSpeed: { type: Number, default: 0 },
+    pointCount: { type: Number, default: 0 },
+    lastFixAt: { type: Date },
     stopsCount: { type: Number, default: 0 },
     passengerCount: { type: Number, default: 0 },
     status: {
       type: String,
-      enum: ["in_progress", "completed", "cancelled"],
+      enum: TRIP_STATUSES,
       default: "in_progress",
     },
+    open: { type: Boolean },
+    startReason: { type: String, enum: ["movement", "ignitionOn", "depotExit", "manual"] },
+    endReason: { type: String, enum: ["inactivity", "ignitionOff", "depotDwell", "gap", "manual", "stale"] },
   },
   { timestamps: true }
 );
@@ -57,4 +95,14 @@ tripLogSchema.index({ driver: 1 });
 tripLogSchema.index({ route: 1 });
 tripLogSchema.index({ status: 1 });
 
+// One run per timetable departure (daily generation is idempotent), planned-vs-actual by day
+tripLogSchema.index(
+  { timetable: 1, scheduledStart: 1 },
+  { unique: true, partialFilterExpression: { timetable: { $exists: true } }, name: "timetable_run" }
+);
+tripLogSchema.index({ scheduledStart: 1 });
+
+// At most one open trip per bus: a second concurrent create fails with a duplicate key
+tripLogSchema.index({ bus: 1 }, { unique: true, partialFilterExpression: { open: true }, name: "bus_open_trip" });
+
 export default mongoose.model<ITripLog>("TripLog", tripLogSchema);
@@ -1,21 +1,53 @@
-import mongoose, { Schema } from "mongoose";
+import mongoose, { Schema, Document, Types } from "mongoose";
 
-const sampledPointSchema = new Schema({
+export interface ITripSegmentPoint {
+  lat: number;
+  lng: number;
+  speed?: number;
+  timestamp: Date;
+}
+
+// A trip's fixes within one time bucket (services/tripTrack.ts); TripLog keeps the totals
+export interface ITripSegment extends Document {
+  trip: Types.ObjectId;
+  bus: Types.ObjectId;
+  route?: Types.ObjectId;
+  bucket: Date; // start of the bucket the fixes fall in
+  startTime: Date; // first fix
+  endTime: Date; // last fix
+  points: ITripSegmentPoint[]; // time order
+  pointCount: number;
+  distanceMeters: number; // between the points of this segment
+  avgSpeed: number; // km/h
+  maxSpeed: number; // km/h
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sampledPointSchema = new Schema<ITripSegmentPoint>({
   lat: { type: Number, required: true },
   lng: { type: Number, required: true },
   speed: { type: Number },
   timestamp: { type: Date, required: true },
 }, { _id: false });
 
-const tripSegmentSchema = new Schema({
-  trip: { type: Schema.Types.ObjectId, ref: "TripLog", required: true, index: true },
-  bus: { type: Schema.Types.ObjectId, ref: "Bus", required: true, index: true },
+const tripSegmentSchema = new Schema<ITripSegment>({
+  trip: { type: Schema.Types.ObjectId, ref: "TripLog", required: true },
+  bus: { type: Schema.Types.ObjectId, ref: "Bus", required: true },
   route: { type: Schema.Types.ObjectId, ref: "Route" },
+  bucket: { type: Date, required: true },
   startTime: { type: Date, required: true },
   endTime: { type: Date, required: true },
-  points: { type: [sampledPointSchema], required: true }, // typically 1 point or a few, but we keep an array for flexibility
+  points: { type: [sampledPointSchema], default: [] },
+  pointCount: { type: Number, default: 0 },
   distanceMeters: { type: Number, default: 0 }, // computed between points in this segment
   avgSpeed: { type: Number, default: 0 },
+  maxSpeed: { type: Number, default: 0 },
 }, { timestamps: true });
 
-export default mongoose.model("TripSegment", tripSegmentSchema);
+// One segment per trip and bucket; a trip's segments in time order
+tripSegmentSchema.index({ trip: 1, bucket: 1 }, { unique: true });
+// A bus's segments in time order, whichever trip they belong to (exports)
+tripSegmentSchema.index({ bus: 1, bucket: 1, startTime: 1 });
+
+export default mongoose.model<ITripSegment>("TripSegment", tripSegmentSchema);
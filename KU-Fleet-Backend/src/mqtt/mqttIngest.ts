@@ -0,0 +1,353 @@
+// src/mqtt/mqttIngest.ts
+import { connect, MqttClient } from "mqtt";
+import { handleParsedMessage, ParsedMessage, TrackerAlarm } from "../services/gpsHandler";
+import { processRfidScan } from "../services/rfidScan";
+import { TRACKER_ALARM_RULES } from "../config/trackerAlarms";
+import { AppError } from "../middleware/errorHandler";
+import { redisClient } from "../config/redis";
+import { getBusIdForIMEI } from "../utils/imeiCache";
+import { sessionRegistry } from "../tcp/sessionRegistry";
+
+/**
+ * MqttIngest
+ * Optional MQTT subscriber for IoT gateways (RFID readers, CAN-bus gateway).
+ * Enabled by MQTT_URL; topics are <MQTT_TOPIC_PREFIX>/<deviceId>/<kind>:
+ *
+ *   location   { lat, lng, speed?, timestamp?, ignition?, alarm? }  (or an array of them)
+ *              → GPS handler, like a tracker fix
+ *   rfid       { rfidTag, busId?, timestamp? }
+ *              → RFID scan; busId defaults to the bus the device id is bound to
+ *   telemetry  { voltageLevel?, gsmSignal?, ignition?, charging?, gpsTracking? }
+ *              → device health telemetry (and ignition for trip detection)
+ *
+ * speed is km/h, timestamp an ISO string or epoch ms. The device id is bound to a
+ * bus through Bus.trackerIMEI, the same as a hardware tracker.
+ *
+ * Each ingest process publishes its status to Redis every STATUS_PUBLISH_INTERVAL_MS;
+ * lookupStatus() adds up the statuses of every process for the API.
+ */
+
+const MQTT_URL = process.env.MQTT_URL;
+const TOPIC_PREFIX = (process.env.MQTT_TOPIC_PREFIX ?? "kufleet").replace(/\/+$/, "");
+const MQTT_QOS = Number(process.env.MQTT_QOS ?? 1) as 0 | 1 | 2;
+const STATUS_KEY_PREFIX = "mqtt:ingest:status:";
+const STATUS_PUBLISH_INTERVAL_MS = 30_000;
+const STATUS_TTL_SEC = (STATUS_PUBLISH_INTERVAL_MS / 1000) * 3;
+
+export type MqttTopicKind = "location" | "rfid" | "telemetry";
+const TOPIC_KINDS: MqttTopicKind[] = ["location", "rfid", "telemetry"];
+
+export interface MqttTopicStats {
+  received: number;
+  processed: number;
+  errors: number;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+  lastMessageAt: Date | null;
+}
+
+export interface MqttIngestStatus {
+  enabled: boolean;
+  connected: boolean;
+  broker: string | null;
+  topics: Record<MqttTopicKind, string>;
+  stats: Record<MqttTopicKind, MqttTopicStats>;
+}
+
+// Rejected payloads are counted as topic errors, not logged per message
+class MqttPayloadError extends Error {}
+
+const emptyTopicStats = (): MqttTopicStats => ({
+  received: 0,
+  processed: 0,
+  errors: 0,
+  lastError: null,
+  lastErrorAt: null,
+  lastMessageAt: null,
+});
+
+// ───────── PAYLOAD PARSING ─────────
+function toDate(value: unknown): Date | undefined {
+  if (value === undefined || value === null) return undefined;
+  const date = new Date(typeof value === "string" && /^\d+$/.test(value) ? Number(value) : (value as any));
+  if (Number.isNaN(date.getTime())) throw new MqttPayloadError(`invalid timestamp ${JSON.stringify(value)}`);
+  return date;
+}
+
+function optional<T>(payload: Record<string, unknown>, field: string, type: "number" | "boolean"): T | undefined {
+  const value = payload[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== type) throw new MqttPayloadError(`${field} must be a ${type}`);
+  return value as T;
+}
+
+function asObject(payload: unknown): Record<string, unknown> {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    throw new MqttPayloadError("payload must be a JSON object");
+  }
+  return payload as Record<string, unknown>;
+}
+
+export function parseLocationPayload(deviceId: string, payload: unknown): ParsedMessage {
+  const p = asObject(payload);
+  const lat = optional<number>(p, "lat", "number");
+  const lng = optional<number>(p, "lng", "number");
+  if (lat === undefined || lng === undefined) throw new MqttPayloadError("lat and lng are required");
+
+  const msg: ParsedMessage = {
+    imei: deviceId,
+    event: { number: 0, string: "location" },
+    lat,
+    lon: lng,
+    speed: optional<number>(p, "speed", "number") ?? 0,
+    fixTime: toDate(p.timestamp) ?? new Date(),
+  };
+
+  const ignition = optional<boolean>(p, "ignition", "boolean");
+  if (ignition !== undefined) msg.terminalInfo = { ignition };
+
+  if (p.alarm !== undefined && p.alarm !== null) {
+    if (typeof p.alarm !== "string" || !(p.alarm in TRACKER_ALARM_RULES)) {
+      throw new MqttPayloadError(`unknown alarm "${p.alarm}"`);
+    }
+    msg.alarm = p.alarm as TrackerAlarm;
+  }
+  return msg;
+}
+
+export function parseTelemetryPayload(deviceId: string, payload: unknown): ParsedMessage {
+  const p = asObject(payload);
+  const msg: ParsedMessage = { imei: deviceId, event: { number: 0, string: "status" }, terminalInfo: {} };
+
+  const voltageLevel = optional<number>(p, "voltageLevel", "number");
+  const gsmSignal = optional<number>(p, "gsmSignal", "number");
+  if (voltageLevel !== undefined) msg.voltageLevel = voltageLevel;
+  if (gsmSignal !== undefined) msg.gsmSignal = gsmSignal;
+
+  for (const field of ["ignition", "charging", "gpsTracking"] as const) {
+    const value = optional<boolean>(p, field, "boolean");
+    if (value !== undefined) msg.terminalInfo![field] = value;
+  }
+  return msg;
+}
+
+export function parseRfidPayload(payload: unknown): { rfidTag: string; busId?: string; timestamp?: Date } {
+  const p = asObject(payload);
+  if (typeof p.rfidTag !== "string" || !p.rfidTag.trim()) throw new MqttPayloadError("rfidTag is required");
+  if (p.busId !== undefined && typeof p.busId !== "string") throw new MqttPayloadError("busId must be a string");
+
+  const scan: { rfidTag: string; busId?: string; timestamp?: Date } = { rfidTag: p.rfidTag };
+  if (p.busId) scan.busId = p.busId;
+  const timestamp = toDate(p.timestamp);
+  if (timestamp) scan.timestamp = timestamp;
+  return scan;
+}
+
+function parseStatus(value: string): MqttIngestStatus {
+  const status = JSON.parse(value) as MqttIngestStatus;
+  for (const stats of Object.values(status.stats)) {
+    if (stats.lastErrorAt) stats.lastErrorAt = new Date(stats.lastErrorAt);
+    if (stats.lastMessageAt) stats.lastMessageAt = new Date(stats.lastMessageAt);
+  }
+  return status;
+}
+
+const latest = (a: Date | null, b: Date | null) => (a && b ? (a > b ? a : b) : a ?? b);
+
+function addTopicStats(a: MqttTopicStats, b: MqttTopicStats): MqttTopicStats {
+  const bErrorIsLater = Boolean(b.lastErrorAt && (!a.lastErrorAt || b.lastErrorAt > a.lastErrorAt));
+  return {
+    received: a.received + b.received,
+    processed: a.processed + b.processed,
+    errors: a.errors + b.errors,
+    lastError: bErrorIsLater ? b.lastError : a.lastError,
+    lastErrorAt: latest(a.lastErrorAt, b.lastErrorAt),
+    lastMessageAt: latest(a.lastMessageAt, b.lastMessageAt),
+  };
+}
+
+class MqttIngest {
+  private client: MqttClient | null;
+  private clientId: string | null;
+  private publishInterval: NodeJS.Timeout | null;
+  private stats: Record<MqttTopicKind, MqttTopicStats>;
+  private queues: Map<string, Promise<void>>; // per device, keeps its messages in order
+
+  constructor() {
+    this.client = null;
+    this.clientId = null;
+    this.publishInterval = null;
+    this.queues = new Map();
+    this.stats = { location: emptyTopicStats(), rfid: emptyTopicStats(), telemetry: emptyTopicStats() };
+  }
+
+  get enabled(): boolean {
+    return Boolean(MQTT_URL);
+  }
+
+  /**
+   * Connect and subscribe (no-op when MQTT_URL is unset). The client reconnects on its own.
+   */
+  start(): void {
+    if (!MQTT_URL || this.client) return;
+
+    const clientId = process.env.MQTT_CLIENT_ID ?? `ku-fleet-${process.pid}`;
+    const options: Parameters<typeof connect>[1] = {
+      clientId,
+      reconnectPeriod: 5_000,
+    };
+    if (process.env.MQTT_USERNAME) options.username = process.env.MQTT_USERNAME;
+    if (process.env.MQTT_PASSWORD) options.password = process.env.MQTT_PASSWORD;
+
+    const client = connect(MQTT_URL, options);
+    this.client = client;
+    this.clientId = clientId;
+
+    void this.publish();
+    this.publishInterval = setInterval(() => void this.publish(), STATUS_PUBLISH_INTERVAL_MS);
+    this.publishInterval.unref();
+
+    client.on("connect", () => {
+      const topics = Object.values(this.topics());
+      client.subscribe(topics, { qos: MQTT_QOS }, (err) => {
+        if (err) console.error("❌ MQTT subscribe failed:", err);
+        else console.log(`📡 MQTT subscribed to ${topics.join(", ")}`);
+      });
+    });
+    client.on("error", (err) => console.error("❌ MQTT error:", err.message));
+    client.on("offline", () => console.warn("⚠️ MQTT broker offline, reconnecting"));
+    client.on("message", (topic, payload) => this.enqueue(topic, payload));
+  }
+
+  getStatus(): MqttIngestStatus {
+    return {
+      enabled: this.enabled,
+      connected: this.client?.connected ?? false,
+      broker: MQTT_URL ? MQTT_URL.replace(/\/\/[^@/]*@/, "//") : null, // no credentials
+      topics: this.topics(),
+      stats: this.stats,
+    };
+  }
+
+  /**
+   * Status of MQTT ingestion across the ingest processes: the stats of every process
+   * added up, connected when any of them is. This process's own status when none
+   * has published one (MQTT disabled).
+   */
+  async lookupStatus(): Promise<MqttIngestStatus> {
+    const statuses = this.client ? [this.getStatus()] : [];
+    try {
+      let cursor = "0";
+      const keys: string[] = [];
+      do {
+        const [next, found] = await redisClient.scan(cursor, "MATCH", `${STATUS_KEY_PREFIX}*`, "COUNT", 100);
+        cursor = next;
+        keys.push(...found.filter((key) => key !== STATUS_KEY_PREFIX + this.clientId));
+      } while (cursor !== "0");
+
+      if (keys.length) {
+        for (const value of await redisClient.mget(...keys)) {
+          if (value) statuses.push(parseStatus(value));
+        }
+      }
+    } catch (err) {
+      console.warn("⚠️ MQTT status lookup failed:", err);
+    }
+
+    const [first, ...others] = statuses;
+    if (!first) return this.getStatus();
+    return others.reduce(
+      (total, status) => ({
+        ...total,
+        connected: total.connected || status.connected,
+        stats: {
+          location: addTopicStats(total.stats.location, status.stats.location),
+          rfid: addTopicStats(total.stats.rfid, status.stats.rfid),
+          telemetry: addTopicStats(total.stats.telemetry, status.stats.telemetry),
+        },
+      }),
+      first
+    );
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.publishInterval) clearInterval(this.publishInterval);
+    this.publishInterval = null;
+    if (!this.client) return;
+    await this.client.endAsync();
+    this.client = null;
+    await redisClient.del(STATUS_KEY_PREFIX + this.clientId).catch(() => undefined);
+  }
+
+  private async publish(): Promise<void> {
+    try {
+      await redisClient.set(STATUS_KEY_PREFIX + this.clientId, JSON.stringify(this.getStatus()), "EX", STATUS_TTL_SEC);
+    } catch (err) {
+      console.warn("⚠️ MQTT status publish failed:", err);
+    }
+  }
+
+  private topics(): Record<MqttTopicKind, string> {
+    return {
+      location: `${TOPIC_PREFIX}/+/location`,
+      rfid: `${TOPIC_PREFIX}/+/rfid`,
+      telemetry: `${TOPIC_PREFIX}/+/telemetry`,
+    };
+  }
+
+  private enqueue(topic: string, payload: Buffer): void {
+    const device = topic.slice(0, topic.lastIndexOf("/"));
+    const next = (this.queues.get(device) ?? Promise.resolve()).then(() => this.handleMessage(topic, payload));
+    this.queues.set(device, next);
+    void next.finally(() => {
+      if (this.queues.get(device) === next) this.queues.delete(device);
+    });
+  }
+
+  private async handleMessage(topic: string, payload: Buffer): Promise<void> {
+    // <prefix>/<deviceId>/<kind>
+    const parts = topic.slice(TOPIC_PREFIX.length + 1).split("/");
+    const kind = parts[1] as MqttTopicKind;
+    const deviceId = parts[0];
+    if (parts.length !== 2 || !deviceId || !TOPIC_KINDS.includes(kind)) return;
+
+    const stats = this.stats[kind];
+    stats.received++;
+    stats.lastMessageAt = new Date();
+
+    try {
+      let json: unknown;
+      try {
+        json = JSON.parse(payload.toString("utf8"));
+      } catch {
+        throw new MqttPayloadError("payload is not valid JSON");
+      }
+
+      if (kind === "rfid") {
+        const scan = parseRfidPayload(json);
+        const busId = scan.busId ?? (await getBusIdForIMEI(deviceId));
+        if (!busId) throw new MqttPayloadError(`device ${deviceId} is not bound to a bus`);
+        await processRfidScan({ ...scan, busId });
+      } else {
+        const messages = kind === "location" && Array.isArray(json)
+          ? json.map((fix) => parseLocationPayload(deviceId, fix))
+          : [kind === "location" ? parseLocationPayload(deviceId, json) : parseTelemetryPayload(deviceId, json)];
+
+        for (const msg of messages) {
+          sessionRegistry.record(deviceId, { connectionId: `mqtt:${deviceId}` }, msg.event?.string);
+          await handleParsedMessage(msg);
+        }
+      }
+
+      stats.processed++;
+    } catch (err) {
+      stats.errors++;
+      stats.lastError = `${deviceId}: ${(err as Error).message}`;
+      stats.lastErrorAt = new Date();
+      // Bad payloads and unknown cards / buses are the gateway's problem, not ours
+      if (!(err instanceof MqttPayloadError || err instanceof AppError)) console.error(`❌ MQTT ${kind} handling failed (${topic}):`, err);
+    }
+  }
+}
+
+export const mqttIngest = new MqttIngest();
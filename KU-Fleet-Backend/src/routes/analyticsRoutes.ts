@@ -1,5 +1,5 @@
 import express from "express";
-import { getAlertTrends, getBusAnalytics, getDriverAnalytics, getFeedbackAnalytics, getFleetOverview, getFleetTimeseries, getRouteAnalytics } from "../controllers/analyticsController";
+import { getAlertTrends, getBusAnalytics, getDriverAnalytics, getFeedbackAnalytics, getFleetOverview, getFleetTimeseries, getRouteAnalytics, getSegmentTravelTimes } from "../controllers/analyticsController";
 
 const router = express.Router();
 
@@ -10,5 +10,6 @@ router.get("/routes", getRouteAnalytics);
 router.get("/alerts", getAlertTrends);
 router.get("/feedback", getFeedbackAnalytics);
 router.get("/timeseries", getFleetTimeseries);
+router.get("/segments", getSegmentTravelTimes);
 
 export default router;
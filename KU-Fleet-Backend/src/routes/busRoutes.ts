@@ -12,7 +12,10 @@ import {
   getBusLocation,
   updateBusLocation,
   getAllBusLocations,
+  getTrackerBindings,
+  getBusEta,
 } from "../controllers/busController";
+import { sendTrackerCommand, getTrackerCommands } from "../controllers/trackerCommandController";
 import { adminOnly, protect } from "../middleware/AuthMiddleware";
 
 const router = express.Router();
@@ -34,5 +37,13 @@ router.post("/unassign-driver", protect, adminOnly, unassignDriver);
 router.get("/locations/all", protect, getAllBusLocations);
 router.get("/:id/location", protect, getBusLocation);
 router.put("/:id/location", protect, updateBusLocation);
+router.get("/:id/eta", protect, getBusEta);
+
+// Tracker downlink commands
+router.post("/:id/tracker/commands", protect, adminOnly, sendTrackerCommand);
+router.get("/:id/tracker/commands", protect, adminOnly, getTrackerCommands);
+
+// Tracker binding history
+router.get("/:id/tracker/bindings", protect, adminOnly, getTrackerBindings);
 
 export default router;
@@ -0,0 +1,27 @@
+import express from "express";
+import { getDevices, getDeviceByImei, getDeviceHealth, getFleetHealth, getMqttStatus } from "../controllers/deviceController";
+import {
+  getPendingDevices,
+  approvePendingDevice,
+  blocklistDevice,
+  unblockDevice,
+} from "../controllers/pendingDeviceController";
+import { adminOnly, protect } from "../middleware/AuthMiddleware";
+
+const router = express.Router();
+
+// Tracker presence (admin only)
+router.get("/", protect, adminOnly, getDevices);
+router.get("/health", protect, adminOnly, getFleetHealth);
+router.get("/mqtt", protect, adminOnly, getMqttStatus);
+
+// Provisioning queue for unknown trackers
+router.get("/pending", protect, adminOnly, getPendingDevices);
+router.post("/pending/:imei/approve", protect, adminOnly, approvePendingDevice);
+router.post("/pending/:imei/blocklist", protect, adminOnly, blocklistDevice);
+router.delete("/pending/:imei/blocklist", protect, adminOnly, unblockDevice);
+
+router.get("/:imei", protect, adminOnly, getDeviceByImei);
+router.get("/:imei/health", protect, adminOnly, getDeviceHealth);
+
+export default router;
@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { ingestOsmAnd } from "../controllers/osmandController";
+
+const router = Router();
+
+// OsmAnd / Traccar Client reports (public, device id must be bound to a bus)
+router.get("/", ingestOsmAnd);
+router.post("/", ingestOsmAnd);
+
+export default router;
@@ -1,5 +1,5 @@
 import express from "express";
-import { createStation, getAllStations } from "../controllers/stationController";
+import { createStation, getAllStations, getStationArrivals } from "../controllers/stationController";
 import { adminOnly, protect } from "../middleware/AuthMiddleware";
 
 
@@ -10,5 +10,6 @@ router.post("/", protect, adminOnly, createStation);
 
 // Everyone (student, driver, admin) can view
 router.get("/",getAllStations);
+router.get("/:id/arrivals", getStationArrivals);
 
 export default router;
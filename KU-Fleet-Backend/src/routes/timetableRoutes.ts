@@ -0,0 +1,27 @@
+// src/routes/timetableRoutes.ts
+import express from "express";
+import {
+  getTimetables,
+  createTimetable,
+  updateTimetable,
+  deleteTimetable,
+  generateScheduledTrips,
+  getPlannedVsActual,
+  getPlannedVsActualSummary,
+} from "../controllers/timetableController";
+import { adminOnly, protect } from "../middleware/AuthMiddleware";
+
+const router = express.Router();
+
+// Planned vs actual runs (transport office)
+router.get("/planned-vs-actual", protect, adminOnly, getPlannedVsActual);
+router.get("/planned-vs-actual/summary", protect, adminOnly, getPlannedVsActualSummary);
+router.post("/generate", protect, adminOnly, generateScheduledTrips);
+
+// Timetables per route
+router.get("/", protect, getTimetables);
+router.post("/", protect, adminOnly, createTimetable);
+router.put("/:id", protect, adminOnly, updateTimetable);
+router.delete("/:id", protect, adminOnly, deleteTimetable);
+
+export default router;
@@ -5,13 +5,24 @@ import {
   getTripLogsByBus,
   getDailyTripSummary,
   cleanupOldTrips,
+  updateTripStatus,
+  getTripStops,
+  getTripPlayback,
+  exportTrip,
+  exportTrips,
 } from "../controllers/tripController";
+import { adminOnly, protect } from "../middleware/AuthMiddleware";
 
 const router = express.Router();
 
 router.post("/log", logBusPosition);                // called by hardware every 10–15 mins
 router.get("/bus/:busId", getTripLogsByBus);        // analytics per bus
 router.get("/summary/daily", getDailyTripSummary);  // admin summary
+router.get("/export", protect, adminOnly, exportTrips); // a bus's trips over days as GPX / KML / GeoJSON / CSV
 router.delete("/cleanup", cleanupOldTrips);         // remove old data
+router.get("/:id/stops", getTripStops);            // station arrivals / departures
+router.get("/:id/playback", protect, adminOnly, getTripPlayback); // replay a trip on the map
+router.get("/:id/export", protect, adminOnly, exportTrip);         // one trip as GPX / KML / GeoJSON / CSV
+router.patch("/:id/status", protect, adminOnly, updateTripStatus); // cancel / end a trip by hand
 
 export default router;
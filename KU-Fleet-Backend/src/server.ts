@@ -1,22 +1,32 @@
 // src/core/server.ts
 import http from "http";
-import { Server as SocketIOServer } from "socket.io";
 import dotenv from "dotenv";
 import { connectDB } from "./config/db";
-// Workers are imported in app.ts - no need to import here
-import { app } from "./app";
+import { SERVER_ROLE, runsApi, runsIngest } from "./config/serverRole";
+import { createSocketServer } from "./config/socketIO";
 import { startTcpServer } from "./tcp/tcpServer";
-import { setSocketIO, ROOMS, EVENTS } from "./utils/socketHelper";
+import { parsePortProtocols } from "./tcp/protocols";
+import { commandChannel } from "./tcp/commandChannel";
+import { mqttIngest } from "./mqtt/mqttIngest";
+import { deviceProvisioning } from "./services/deviceProvisioning";
+import { subscribeImeiInvalidations } from "./utils/imeiCache";
+import { busState } from "./services/busState";
+import { trackerBindings } from "./services/trackerBinding";
+import { TripLifecycle } from "./services/tripLifecycle";
+import { setSocketIO } from "./utils/socketHelper";
 import { getValidMtxToken } from "./utils/getValidMtxToken";
 
 dotenv.config();
 
 const HTTP_PORT = Number(process.env.PORT) || 3000;
 const TCP_PORT = Number(process.env.TCP_PORT || 5050);
+// e.g. "5050:auto,5051:h02,5052:teltonika" – falls back to TCP_PORT with auto-detection
+const TCP_PORTS = parsePortProtocols(process.env.TCP_PROTOCOL_PORTS);
+
+async function startApi() {
+  // Routes, workers and cron jobs only load in API processes
+  const { app } = await import("./app");
 
-async function start() {
-  await connectDB();
-  
   // 🔐 Initialize MTX token immediately on startup
   try {
     await getValidMtxToken();
@@ -38,54 +48,68 @@ async function start() {
   // Create HTTP server from Express app
   const server = http.createServer(app);
 
-  // Initialize Socket.IO
-  const io = new SocketIOServer(server, {
-    cors: { origin: "*" }, // restrict in production 
-  });
+  // Initialize Socket.IO (Redis adapter: emits from other processes reach our clients)
+  const io = createSocketServer(server);
 
   // Set Socket.IO in centralized helper
   setSocketIO(io);
-  
+
   // Also expose via app for backward compatibility
   (app as any).set("io", io);
 
-  // Basic room join handlers (admins/students + per-bus)
-  io.on("connection", (socket) => {
-    console.log("🧠 Socket connected:", socket.id);
-
-    socket.on("joinRoom", (data: string | { role?: string; busId?: string; imei?: string }) => {
-      // Support both string (legacy) and object format
-      if (typeof data === "string") {
-        const role = data;
-        if (role === "admin" || role === "admins") socket.join(ROOMS.ADMINS);
-        if (role === "student" || role === "students") socket.join(ROOMS.STUDENTS);
-        if (role.startsWith("bus:")) socket.join(role);
-        if (role.startsWith("imei:")) socket.join(role);
-        console.log(`👥 ${socket.id} joined ${role}`);
-      } else {
-        // Object format for better type safety
-        if (data.role === "admin" || data.role === "admins") socket.join(ROOMS.ADMINS);
-        if (data.role === "student" || data.role === "students") socket.join(ROOMS.STUDENTS);
-        if (data.busId) socket.join(ROOMS.bus(data.busId));
-        if (data.imei) socket.join(ROOMS.imei(data.imei));
-        console.log(`👥 ${socket.id} joined rooms:`, data);
-      }
-    });
-
-    socket.on("disconnect", () => {
-      console.log("❌ Socket disconnected:", socket.id);
-    });
-  });
-
   // Start HTTP server
   server.listen(HTTP_PORT, () => {
     console.log(`🚀 HTTP + Socket.IO running on port ${HTTP_PORT}`);
   });
+}
+
+async function startIngest() {
+  // Ingest-only processes have no clients of their own, they emit through the adapter
+  if (!runsApi) setSocketIO(createSocketServer());
+
+  // Commands queued by API processes for trackers connected here
+  await commandChannel.subscribe();
+
+  // Start tracker TCP ports
+  const tcpPorts = TCP_PORTS.length ? TCP_PORTS : [{ port: TCP_PORT, protocol: "auto" as const }];
+  for (const { port, protocol } of tcpPorts) {
+    await startTcpServer(port, protocol);
+    console.log(`✅ TCP Server started on port ${port} (${protocol})`);
+  }
+
+  // Optional MQTT gateway ingestion (MQTT_URL)
+  mqttIngest.start();
+}
+
+async function start() {
+  console.log(`🧩 Server role: ${SERVER_ROLE}`);
+  await connectDB();
 
-  // Start TCP server which will use app.get('io') to emit messages
-  await startTcpServer(TCP_PORT);
+  // Blocklisted trackers are refused from the first packet
+  await deviceProvisioning.start();
+
+  // Tracker rebinds on other instances drop our cached IMEI → bus entries, binding
+  // history and GPS filter state
+  await subscribeImeiInvalidations();
+  await trackerBindings.subscribe();
+
+  // Open trips from before the one-open-trip-per-bus index
+  try {
+    await TripLifecycle.reconcileOpenTrips();
+  } catch (e) {
+    console.error("❌ Open trip reconciliation failed", e);
+  }
+
+  // Open trips, routes and trip detection config in memory before the first packet
+  try {
+    await busState.hydrate();
+  } catch (e) {
+    console.error("❌ Bus state hydration failed, loading buses on demand", e);
+  }
+  await busState.subscribe();
 
-  console.log(`✅ TCP Server started on port ${TCP_PORT}`);
+  if (runsApi) await startApi();
+  if (runsIngest) await startIngest();
 }
 
 start().catch((err) => {
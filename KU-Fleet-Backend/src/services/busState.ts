@@ -0,0 +1,204 @@
+// src/services/busState.ts
+import { randomUUID } from "crypto";
+import { Redis } from "ioredis";
+import Bus from "../models/Bus.model";
+import TripLog, { OPEN_TRIP_STATUSES } from "../models/TripLog.model";
+import { redisClient } from "../config/redis";
+import { resolveTripDetection, TripDetectionConfig } from "../config/tripDetection";
+import { BusCoordinates } from "./gpsHandler";
+
+/**
+ * BusStateStore
+ * Per-bus runtime state kept in memory so a GPS packet doesn't cost a TripLog and a
+ * Bus query: the open trip, driver, route and trip detection config, plus the last
+ * accepted fix and last movement.
+ *
+ * Hydrated on startup, updated in place on trip start / end, and marked stale when
+ * the bus or its route changes (reloaded from MongoDB on the next packet). Changes
+ * are published on Redis so other instances reload their copy too; entries are also
+ * reloaded after BUS_STATE_TTL_SEC in case a message was missed.
+ */
+
+const BUS_STATE_TTL_SEC = Number(process.env.BUS_STATE_TTL_SEC ?? 600);
+const INVALIDATION_CHANNEL = "bus:state:invalidate";
+const INSTANCE_ID = randomUUID(); // ignore our own invalidations
+
+export interface BusRuntimeState {
+  busId: string;
+  activeTripId: string | null;
+  driver: string | null;
+  route: string | null;
+  tripDetection: TripDetectionConfig;
+  lastFix: BusCoordinates | null;
+  lastMovementAt: number | null;
+  loadedAt: number;
+}
+
+export interface BusStateStats {
+  buses: number;
+  hits: number;
+  loads: number;
+  invalidations: number;
+}
+
+type BusDoc = { _id: unknown; driver?: unknown; route?: unknown; tripDetection?: Partial<TripDetectionConfig> | null };
+
+class BusStateStore {
+  private buses: Map<string, BusRuntimeState>;
+  private loading: Map<string, Promise<BusRuntimeState | null>>;
+  private subscriber: Redis | null;
+  private stats: Omit<BusStateStats, "buses">;
+
+  constructor() {
+    this.buses = new Map();
+    this.loading = new Map();
+    this.subscriber = null;
+    this.stats = { hits: 0, loads: 0, invalidations: 0 };
+  }
+
+  /**
+   * Load every bus and its open trip in two queries
+   */
+  async hydrate(): Promise<void> {
+    const [buses, openTrips] = await Promise.all([
+      Bus.find().select("driver route tripDetection").lean(),
+      TripLog.find({ status: { $in: OPEN_TRIP_STATUSES } }).select("bus startTime").sort({ startTime: 1 }).lean(),
+    ]);
+
+    // Newest open trip wins, same as the per-bus lookup
+    const tripByBus = new Map(openTrips.map((t) => [String(t.bus), String(t._id)]));
+    for (const bus of buses) this.store(bus, tripByBus.get(String(bus._id)) ?? null);
+
+    console.log(`🚌 Bus state hydrated: ${buses.length} buses, ${tripByBus.size} open trips`);
+  }
+
+  /**
+   * Reload our copy when another instance changes a bus
+   */
+  async subscribe(): Promise<void> {
+    if (this.subscriber) return;
+    this.subscriber = redisClient.duplicate();
+    this.subscriber.on("message", (channel: string, message: string) => {
+      if (channel !== INVALIDATION_CHANNEL) return;
+      const [origin, busId] = message.split(":");
+      if (origin === INSTANCE_ID || !busId) return;
+      this.markStale(busId);
+    });
+    this.subscriber.on("error", (err) => console.error("❌ Bus state subscriber error:", err));
+    await this.subscriber.subscribe(INVALIDATION_CHANNEL);
+  }
+
+  /**
+   * State of a bus, loaded from MongoDB when missing or stale; null for unknown buses
+   */
+  async get(busId: string): Promise<BusRuntimeState | null> {
+    const state = this.buses.get(busId);
+    if (state && Date.now() - state.loadedAt < BUS_STATE_TTL_SEC * 1000) {
+      this.stats.hits++;
+      return state;
+    }
+
+    // One load per bus however many packets are waiting on it
+    let pending = this.loading.get(busId);
+    if (!pending) {
+      pending = this.load(busId).finally(() => this.loading.delete(busId));
+      this.loading.set(busId, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Latest accepted fix; `moving` per the bus's trip detection speed threshold
+   */
+  observeFix(busId: string, coords: BusCoordinates): void {
+    const state = this.buses.get(busId);
+    if (!state) return;
+    state.lastFix = coords;
+    if (coords.speed >= state.tripDetection.minSpeedKmh) state.lastMovementAt = coords.timestamp.getTime();
+  }
+
+  tripStarted(busId: string, tripId: string): void {
+    const state = this.buses.get(busId);
+    if (state) state.activeTripId = tripId;
+    this.publish(busId);
+  }
+
+  /**
+   * Trip closed (by the trip worker or manually). `tripId` guards against a stale
+   * end clearing a trip opened since.
+   */
+  tripEnded(busId: string, tripId?: string): void {
+    const state = this.buses.get(busId);
+    if (state && (!tripId || state.activeTripId === tripId)) state.activeTripId = null;
+    this.publish(busId);
+  }
+
+  /**
+   * The bus document changed (route, driver, trip detection, ...). `busId` "*" reloads every bus,
+   * e.g. after a route change.
+   */
+  invalidate(busId: string): void {
+    this.stats.invalidations++;
+    this.markStale(busId);
+    this.publish(busId);
+  }
+
+  getStats(): BusStateStats {
+    return { buses: this.buses.size, ...this.stats };
+  }
+
+  async shutdown(): Promise<void> {
+    if (!this.subscriber) return;
+    await this.subscriber.quit();
+    this.subscriber = null;
+  }
+
+  private async load(busId: string): Promise<BusRuntimeState | null> {
+    this.stats.loads++;
+    const [bus, openTrip] = await Promise.all([
+      Bus.findById(busId).select("driver route tripDetection").lean(),
+      TripLog.findOne({ bus: busId, status: { $in: OPEN_TRIP_STATUSES } }).select("_id").sort({ startTime: -1 }).lean(),
+    ]);
+    if (!bus) {
+      this.buses.delete(busId);
+      return null;
+    }
+
+    return this.store(bus, openTrip ? String(openTrip._id) : null);
+  }
+
+  // Reloaded on the next packet; the last fix and movement only come from packets, so they stay
+  private markStale(busId: string): void {
+    if (busId === "*") {
+      for (const state of this.buses.values()) state.loadedAt = 0;
+    } else {
+      const state = this.buses.get(busId);
+      if (state) state.loadedAt = 0;
+    }
+  }
+
+  private store(bus: BusDoc, activeTripId: string | null): BusRuntimeState {
+    const busId = String(bus._id);
+    const previous = this.buses.get(busId);
+    const state: BusRuntimeState = {
+      busId,
+      activeTripId,
+      driver: bus.driver ? String(bus.driver) : null,
+      route: bus.route ? String(bus.route) : null,
+      tripDetection: resolveTripDetection(bus.tripDetection ?? undefined),
+      lastFix: previous?.lastFix ?? null,
+      lastMovementAt: previous?.lastMovementAt ?? null,
+      loadedAt: Date.now(),
+    };
+    this.buses.set(busId, state);
+    return state;
+  }
+
+  private publish(busId: string): void {
+    redisClient
+      .publish(INVALIDATION_CHANNEL, `${INSTANCE_ID}:${busId}`)
+      .catch((err) => console.warn("⚠️ Bus state invalidation publish failed:", err));
+  }
+}
+
+export const busState = new BusStateStore();
@@ -0,0 +1,210 @@
+// src/services/deviceProvisioning.ts
+import EventEmitter from "events";
+import Bus from "../models/Bus.model";
+import PendingDevice, { IPendingDevice } from "../models/PendingDevice.model";
+import { AppError } from "../middleware/errorHandler";
+import { emitToRoom, ROOMS, EVENTS } from "../utils/socketHelper";
+import { trackerBindings } from "./trackerBinding";
+import { BusCoordinates } from "./gpsHandler";
+
+/**
+ * DeviceProvisioning
+ * Unknown IMEIs (not bound to any bus) land in the PendingDevice queue with
+ * first / last seen time and last position, so an admin can tell which tracker
+ * is which and bind it to a bus, or blocklist it.
+ *
+ * Blocklisted IMEIs are kept in memory: their messages are dropped and their
+ * TCP connections closed (tcpServer listens for "blocklisted").
+ */
+
+// Unknown trackers keep talking; write their sighting at most this often
+const SIGHTING_WRITE_INTERVAL_MS = 30_000;
+const BLOCKLIST_REFRESH_MS = 60_000;
+
+export interface UnknownSighting {
+  coords: BusCoordinates | null;
+  event?: string | undefined;
+  remoteAddress?: string | null | undefined;
+}
+
+interface PendingSighting {
+  count: number;
+  lastSeenAt: Date;
+  coords: BusCoordinates | null;
+  event?: string | undefined;
+  remoteAddress?: string | null | undefined;
+}
+
+class DeviceProvisioning extends EventEmitter {
+  private blocked: Set<string>;
+  private lastWriteAt: Map<string, number>;
+  private pending: Map<string, PendingSighting>;
+  private refreshInterval: NodeJS.Timeout | null;
+
+  constructor() {
+    super();
+    this.blocked = new Set();
+    this.lastWriteAt = new Map();
+    this.pending = new Map();
+    this.refreshInterval = null;
+  }
+
+  /**
+   * Load the blocklist and keep it fresh (changes made by other instances)
+   */
+  async start(): Promise<void> {
+    await this.loadBlocklist();
+    this.refreshInterval = setInterval(() => {
+      this.loadBlocklist().catch((err) => console.error("❌ Blocklist refresh failed:", err));
+    }, BLOCKLIST_REFRESH_MS);
+    this.refreshInterval.unref();
+  }
+
+  isBlocklisted(imei: string): boolean {
+    return this.blocked.has(imei);
+  }
+
+  /**
+   * A message from an IMEI that isn't bound to a bus
+   */
+  async recordUnknown(imei: string, sighting: UnknownSighting): Promise<void> {
+    const entry = this.pending.get(imei) ?? { count: 0, lastSeenAt: new Date(), coords: null };
+    entry.count++;
+    entry.lastSeenAt = new Date();
+    if (sighting.coords) entry.coords = sighting.coords;
+    if (sighting.event) entry.event = sighting.event;
+    if (sighting.remoteAddress) entry.remoteAddress = sighting.remoteAddress;
+    this.pending.set(imei, entry);
+
+    const lastWrite = this.lastWriteAt.get(imei);
+    if (lastWrite !== undefined && Date.now() - lastWrite < SIGHTING_WRITE_INTERVAL_MS) return;
+    this.lastWriteAt.set(imei, Date.now());
+    this.pending.delete(imei);
+
+    try {
+      const set: Record<string, unknown> = { lastSeenAt: entry.lastSeenAt };
+      if (entry.coords) set.lastPosition = entry.coords;
+      if (entry.event) set.lastEvent = entry.event;
+      if (entry.remoteAddress) set.remoteAddress = entry.remoteAddress;
+
+      const before = await PendingDevice.findOneAndUpdate(
+        { imei },
+        {
+          $set: set,
+          $inc: { messageCount: entry.count },
+          $setOnInsert: { imei, status: "pending", firstSeenAt: entry.lastSeenAt },
+        },
+        { upsert: true, new: false }
+      ).lean();
+
+      // Approved earlier but unbound since – back in the queue
+      if (before?.status === "approved") await PendingDevice.updateOne({ imei }, { $set: { status: "pending" } });
+
+      if (!before) {
+        console.log(`🆕 Unknown tracker ${imei} added to the provisioning queue`);
+        emitToRoom(ROOMS.ADMINS, EVENTS.DEVICE_PENDING, {
+          imei,
+          firstSeenAt: entry.lastSeenAt,
+          lastPosition: entry.coords,
+          remoteAddress: entry.remoteAddress ?? null,
+        });
+      }
+    } catch (err) {
+      console.error("❌ Pending device write failed:", err);
+    }
+  }
+
+  /**
+   * Bind a tracker to a bus. A bus that already has a tracker needs `replace`.
+   */
+  async approve(imei: string, busId: string, opts: { replace?: boolean; userId?: string } = {}) {
+    const bus = await Bus.findById(busId).select("busNumber trackerIMEI");
+    if (!bus) throw new AppError("Bus not found", 404);
+
+    const boundTo = await Bus.findOne({ trackerIMEI: imei, _id: { $ne: bus._id } }).select("busNumber").lean();
+    if (boundTo) throw new AppError(`Tracker ${imei} is already bound to bus ${boundTo.busNumber}`, 409);
+    if (bus.trackerIMEI && bus.trackerIMEI !== imei && !opts.replace) {
+      throw new AppError(`Bus ${bus.busNumber} already has tracker ${bus.trackerIMEI} (pass replace: true)`, 409);
+    }
+    if (this.isBlocklisted(imei)) throw new AppError(`Tracker ${imei} is blocklisted`, 409);
+
+    const currentImei = bus.trackerIMEI ?? null;
+    const previousImei = currentImei && currentImei !== imei ? currentImei : null;
+    bus.trackerIMEI = imei;
+    await bus.save();
+
+    const device = await PendingDevice.findOneAndUpdate(
+      { imei },
+      {
+        $set: {
+          status: "approved",
+          bus: bus._id,
+          approvedAt: new Date(),
+          ...(opts.userId ? { approvedBy: opts.userId } : {}),
+        },
+        $setOnInsert: { imei, firstSeenAt: new Date(), lastSeenAt: new Date() },
+      },
+      { upsert: true, new: true }
+    );
+
+    await trackerBindings.rebind(String(bus._id), currentImei, imei, { source: "provisioning", userId: opts.userId });
+
+    console.log(`✅ Tracker ${imei} bound to bus ${bus.busNumber}`, { replaced: previousImei });
+    return { device, bus, previousImei };
+  }
+
+  /**
+   * Drop everything from an IMEI and close its connection. Bound trackers must be unbound first.
+   */
+  async blocklist(imei: string, opts: { reason?: string; userId?: string } = {}): Promise<IPendingDevice> {
+    const bus = await Bus.findOne({ trackerIMEI: imei }).select("busNumber").lean();
+    if (bus) throw new AppError(`Tracker ${imei} is bound to bus ${bus.busNumber}, unbind it first`, 409);
+
+    const device = await PendingDevice.findOneAndUpdate(
+      { imei },
+      {
+        $set: {
+          status: "blocklisted",
+          blocklistedAt: new Date(),
+          ...(opts.reason ? { reason: opts.reason } : {}),
+          ...(opts.userId ? { blocklistedBy: opts.userId } : {}),
+        },
+        $setOnInsert: { imei, firstSeenAt: new Date(), lastSeenAt: new Date() },
+      },
+      { upsert: true, new: true }
+    );
+
+    this.blocked.add(imei);
+    this.emit("blocklisted", imei);
+    console.log(`⛔ Tracker ${imei} blocklisted`, { reason: opts.reason ?? null });
+    return device;
+  }
+
+  async unblock(imei: string): Promise<IPendingDevice> {
+    const device = await PendingDevice.findOneAndUpdate(
+      { imei, status: "blocklisted" },
+      { $set: { status: "pending" }, $unset: { blocklistedAt: 1, blocklistedBy: 1, reason: 1 } },
+      { new: true }
+    );
+    if (!device) throw new AppError("Tracker is not blocklisted", 404);
+
+    this.blocked.delete(imei);
+    return device;
+  }
+
+  shutdown(): void {
+    if (this.refreshInterval) clearInterval(this.refreshInterval);
+  }
+
+  private async loadBlocklist(): Promise<void> {
+    const blocked = await PendingDevice.find({ status: "blocklisted" }).select("imei").lean();
+    const next = new Set(blocked.map((d) => d.imei));
+
+    for (const imei of next) {
+      if (!this.blocked.has(imei)) this.emit("blocklisted", imei);
+    }
+    this.blocked = next;
+  }
+}
+
+export const deviceProvisioning = new DeviceProvisioning();
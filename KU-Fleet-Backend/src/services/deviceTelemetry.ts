@@ -0,0 +1,120 @@
+// src/services/deviceTelemetry.ts
+import DeviceTelemetry from "../models/DeviceTelemetry.model";
+import { ParsedMessage } from "./gpsHandler";
+
+/**
+ * DeviceTelemetryRecorder
+ * Keeps the tracker health carried by status / alarm packets (battery level, GSM
+ * signal, ignition, external power, GPS tracking) as a per-IMEI time series.
+ *
+ * A sample is stored when any value changed or DEVICE_TELEMETRY_INTERVAL_SEC has
+ * passed since the last stored sample, so chatty trackers (Teltonika sends IO with
+ * every record) don't write on every packet. Writes are batched.
+ */
+
+const TELEMETRY_INTERVAL_SEC = Number(process.env.DEVICE_TELEMETRY_INTERVAL_SEC ?? 300);
+const FLUSH_INTERVAL_MS = 10_000;
+const MAX_PENDING = 500;
+
+export interface TelemetrySample {
+  imei: string;
+  bus?: string;
+  timestamp: Date;
+  voltageLevel?: number;
+  gsmSignal?: number;
+  ignition?: boolean;
+  charging?: boolean;
+  gpsTracking?: boolean;
+  event?: string;
+}
+
+const SAMPLE_FIELDS = ["voltageLevel", "gsmSignal", "ignition", "charging", "gpsTracking"] as const;
+
+/**
+ * Health values carried by a parsed message, null when it carries none (e.g. GT06 0x12 location).
+ * Stamped `at` (the packet's fix time for stored packets), else now.
+ */
+export function telemetryFromMessage(
+  msg: ParsedMessage,
+  imei: string,
+  busId: string | null,
+  at?: Date
+): TelemetrySample | null {
+  const sample: TelemetrySample = { imei, timestamp: at ?? new Date() };
+  if (busId) sample.bus = busId;
+  if (msg.event?.string) sample.event = msg.event.string;
+
+  if (msg.voltageLevel !== undefined) sample.voltageLevel = msg.voltageLevel;
+  if (msg.gsmSignal !== undefined) sample.gsmSignal = msg.gsmSignal;
+  if (msg.terminalInfo?.ignition !== undefined) sample.ignition = msg.terminalInfo.ignition;
+  if (msg.terminalInfo?.charging !== undefined) sample.charging = msg.terminalInfo.charging;
+  if (msg.terminalInfo?.gpsTracking !== undefined) sample.gpsTracking = msg.terminalInfo.gpsTracking;
+
+  return SAMPLE_FIELDS.some((field) => sample[field] !== undefined) ? sample : null;
+}
+
+class DeviceTelemetryRecorder {
+  private pending: TelemetrySample[];
+  private lastStored: Map<string, TelemetrySample>;
+  private lastHistorical: Map<string, TelemetrySample>; // stored packets, kept apart from the live state
+  private flushInterval: NodeJS.Timeout;
+
+  constructor() {
+    this.pending = [];
+    this.lastStored = new Map();
+    this.lastHistorical = new Map();
+
+    this.flushInterval = setInterval(() => {
+      void this.flush();
+    }, FLUSH_INTERVAL_MS);
+    this.flushInterval.unref();
+  }
+
+  /**
+   * Record the health values of a message (no-op when it carries none or nothing changed).
+   * `at` is the fix time of a stored packet flushed after a coverage gap: it is sampled on
+   * its own so it doesn't overwrite the tracker's latest values.
+   */
+  record(msg: ParsedMessage, imei: string, busId: string | null, at?: Date): void {
+    const sample = telemetryFromMessage(msg, imei, busId, at);
+    if (!sample) return;
+
+    const stored = at ? this.lastHistorical : this.lastStored;
+    const last = stored.get(imei);
+    const changed = !last || SAMPLE_FIELDS.some((field) => sample[field] !== undefined && sample[field] !== last[field]);
+    const due = !last || sample.timestamp.getTime() - last.timestamp.getTime() >= TELEMETRY_INTERVAL_SEC * 1000;
+    if (!changed && !due) return;
+
+    // Remember the merged state so a partial sample (e.g. alarm without GSM) isn't seen as a change
+    stored.set(imei, { ...last, ...sample });
+    this.pending.push(sample);
+
+    if (this.pending.length >= MAX_PENDING) void this.flush();
+  }
+
+  /**
+   * Latest stored values for a tracker on this instance
+   */
+  getLatest(imei: string): TelemetrySample | null {
+    return this.lastStored.get(imei) ?? null;
+  }
+
+  async flush(): Promise<void> {
+    if (!this.pending.length) return;
+    const batch = this.pending;
+    this.pending = [];
+
+    try {
+      await DeviceTelemetry.insertMany(batch, { ordered: false });
+    } catch (err) {
+      console.error("❌ Device telemetry write failed:", err);
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    clearInterval(this.flushInterval);
+    await this.flush();
+  }
+}
+
+export const deviceTelemetry = new DeviceTelemetryRecorder();
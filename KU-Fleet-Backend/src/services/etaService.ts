@@ -0,0 +1,228 @@
+// src/services/etaService.ts
+import Route from "../models/Route.model";
+import StopEvent from "../models/StopEvent.model";
+import SegmentTravelTime from "../models/SegmentTravelTime.model";
+import TripLog, { OPEN_TRIP_STATUSES } from "../models/TripLog.model";
+import { redisClient, cacheHelpers } from "../config/redis";
+import { haversineMeters } from "../utils/geo";
+import { emitToRoom, ROOMS, EVENTS } from "../utils/socketHelper";
+import { busState } from "./busState";
+import { stationDetector, RouteStation } from "./stationDetector";
+import { BusCoordinates } from "./gpsHandler";
+
+/**
+ * EtaService
+ * Predicted arrival at each station still ahead of a bus on its trip's route.
+ *
+ * Leg by leg from the bus's position: the median travel time of that leg on that
+ * weekday and hour (segment travel times, built nightly) when there is enough
+ * history, otherwise distance / speed (the bus's own speed for the leg it's on when
+ * moving, ETA_DEFAULT_SPEED_KMH after that), plus ETA_DWELL_SECONDS per stop on the way.
+ *
+ * Recomputed at most every ETA_UPDATE_INTERVAL_SEC per bus from live fixes, pushed to
+ * the bus room as eta-update and kept in Redis so every API process can serve it.
+ */
+
+const ETA_UPDATE_INTERVAL_SEC = Number(process.env.ETA_UPDATE_INTERVAL_SEC ?? 15);
+const ETA_DEFAULT_SPEED_KMH = Number(process.env.ETA_DEFAULT_SPEED_KMH ?? 20);
+const ETA_DWELL_SECONDS = Number(process.env.ETA_DWELL_SECONDS ?? 30);
+
+const ETA_TTL_SEC = 120;
+const HISTORY_TTL_MS = 60 * 60_000;
+const HISTORY_MIN_SAMPLES = 3;
+const MOVING_SPEED_KMH = 5;
+const ROAD_FACTOR = 1.3; // roads are longer than the straight line between stations
+
+export type EtaSource = "history" | "speed";
+
+export interface StationEta {
+  stationId: string;
+  stationName: string;
+  sequence: number;
+  distanceMeters: number;
+  etaSeconds: number;
+  eta: Date;
+  source: EtaSource;
+}
+
+export interface BusEta {
+  busId: string;
+  tripId: string;
+  routeId: string;
+  computedAt: Date;
+  position: { lat: number; lng: number; speed: number; timestamp: Date };
+  atStation: { stationId: string; stationName: string } | null;
+  stations: StationEta[];
+}
+
+const etaKey = (busId: string) => `eta:bus:${busId}`;
+const legKey = (fromStationId: string, toStationId: string, weekday: number, hour: number) =>
+  `${fromStationId}>${toStationId}@${weekday}:${hour}`;
+
+class EtaService {
+  private lastComputedAt: Map<string, number>;
+  private history: Map<string, { legs: Map<string, number>; loadedAt: number }>;
+
+  constructor() {
+    this.lastComputedAt = new Map();
+    this.history = new Map();
+  }
+
+  /**
+   * Live fix of a bus on trip `tripId`: recompute, push and store its ETAs (throttled)
+   */
+  async onFix(busId: string, tripId: string, coords: BusCoordinates): Promise<void> {
+    const now = Date.now();
+    if (now - (this.lastComputedAt.get(busId) ?? 0) < ETA_UPDATE_INTERVAL_SEC * 1000) return;
+    this.lastComputedAt.set(busId, now);
+
+    try {
+      const eta = await this.compute(busId, tripId, coords);
+      if (!eta) return;
+      await redisClient.setex(etaKey(busId), ETA_TTL_SEC, JSON.stringify(eta));
+      emitToRoom(ROOMS.bus(busId), EVENTS.ETA_UPDATE, eta);
+    } catch (err) {
+      console.error("❌ ETA update failed:", err);
+    }
+  }
+
+  /**
+   * ETAs of a bus on a trip: the latest pushed ones, or computed from its cached location.
+   * Null when the bus has no open trip, route or recent position.
+   */
+  async forBus(busId: string): Promise<BusEta | null> {
+    const state = await busState.get(busId);
+    if (!state?.activeTripId) return null;
+
+    const cached = await redisClient.get(etaKey(busId));
+    if (cached) {
+      const eta = JSON.parse(cached) as BusEta;
+      if (eta.tripId === state.activeTripId) return eta;
+    }
+
+    const location = await cacheHelpers.getBusLocation(busId);
+    if (typeof location?.lat !== "number" || typeof location?.lng !== "number") return null;
+    return this.compute(busId, state.activeTripId, {
+      lat: location.lat,
+      lng: location.lng,
+      speed: Number(location.speed ?? 0),
+      timestamp: new Date(location.timestamp ?? Date.now()),
+    });
+  }
+
+  /**
+   * Buses on a trip heading to a station, soonest first
+   */
+  async arrivalsAt(stationId: string): Promise<(StationEta & { busId: string; tripId: string; routeId: string })[]> {
+    const routes = await Route.find({ stations: stationId }).select("_id").lean();
+    if (!routes.length) return [];
+
+    const trips = await TripLog.find({
+      route: { $in: routes.map((r) => r._id) },
+      status: { $in: OPEN_TRIP_STATUSES },
+    })
+      .select("bus")
+      .lean();
+
+    const etas = await Promise.all(trips.map((trip) => this.forBus(String(trip.bus))));
+    return etas
+      .flatMap((eta) => {
+        const station = eta?.stations.find((s) => s.stationId === stationId);
+        return eta && station ? [{ ...station, busId: eta.busId, tripId: eta.tripId, routeId: eta.routeId }] : [];
+      })
+      .sort((a, b) => a.etaSeconds - b.etaSeconds);
+  }
+
+  private async compute(busId: string, tripId: string, coords: BusCoordinates): Promise<BusEta | null> {
+    const trip = await TripLog.findById(tripId).select("route").lean();
+    if (!trip?.route) return null;
+    const routeId = String(trip.route);
+
+    const [stations, lastStop, legs] = await Promise.all([
+      stationDetector.stationsOf(routeId),
+      StopEvent.findOne({ trip: tripId }).sort({ arrivedAt: -1 }).select("sequence departedAt").lean(),
+      this.legTimes(routeId),
+    ]);
+
+    // Stations after the last one the bus stopped at (all of them before the first stop)
+    const lastSequence = lastStop?.sequence ?? -1;
+    const atStation = lastStop && !lastStop.departedAt ? stations.find((s) => s.sequence === lastSequence) ?? null : null;
+    const ahead = stations.filter((s) => s.sequence > lastSequence);
+
+    const computedAt = new Date();
+    const result: StationEta[] = [];
+    let from: RouteStation | null = stations.find((s) => s.sequence === lastSequence) ?? null;
+    let position = { lat: coords.lat, lng: coords.lng };
+    let elapsed = 0;
+    let distance = 0;
+
+    for (const [i, station] of ahead.entries()) {
+      const legMeters = haversineMeters(position.lat, position.lng, station.lat, station.lng) * ROAD_FACTOR;
+      const departAt = new Date(computedAt.getTime() + elapsed * 1000);
+      const historical = from
+        ? legs.get(legKey(from.stationId, station.stationId, departAt.getDay(), departAt.getHours()))
+        : undefined;
+
+      let legSeconds: number;
+      let source: EtaSource;
+      if (historical !== undefined && from) {
+        // Part of the leg may be behind the bus already
+        const fullMeters = haversineMeters(from.lat, from.lng, station.lat, station.lng) * ROAD_FACTOR;
+        legSeconds = historical * (fullMeters > 0 ? Math.min(1, legMeters / fullMeters) : 1);
+        source = "history";
+      } else {
+        const speedKmh = i === 0 && coords.speed >= MOVING_SPEED_KMH ? coords.speed : ETA_DEFAULT_SPEED_KMH;
+        legSeconds = legMeters / (speedKmh / 3.6);
+        source = "speed";
+      }
+
+      elapsed += legSeconds;
+      distance += legMeters;
+      result.push({
+        stationId: station.stationId,
+        stationName: station.stationName,
+        sequence: station.sequence,
+        distanceMeters: Math.round(distance),
+        etaSeconds: Math.round(elapsed),
+        eta: new Date(computedAt.getTime() + elapsed * 1000),
+        source,
+      });
+
+      elapsed += ETA_DWELL_SECONDS;
+      from = station;
+      position = { lat: station.lat, lng: station.lng };
+    }
+
+    return {
+      busId,
+      tripId,
+      routeId,
+      computedAt,
+      position: { lat: coords.lat, lng: coords.lng, speed: coords.speed, timestamp: coords.timestamp },
+      atStation: atStation ? { stationId: atStation.stationId, stationName: atStation.stationName } : null,
+      stations: result,
+    };
+  }
+
+  // Median travel time per leg, weekday and hour from the segment model (rebuilt nightly)
+  private async legTimes(routeId: string): Promise<Map<string, number>> {
+    const cached = this.history.get(routeId);
+    if (cached && Date.now() - cached.loadedAt < HISTORY_TTL_MS) return cached.legs;
+
+    const segments = await SegmentTravelTime.find({ route: routeId, sampleCount: { $gte: HISTORY_MIN_SAMPLES } })
+      .select("fromStation toStation weekday hour medianSeconds")
+      .lean();
+
+    const legs = new Map<string, number>();
+    for (const segment of segments) {
+      legs.set(
+        legKey(String(segment.fromStation), String(segment.toStation), segment.weekday, segment.hour),
+        segment.medianSeconds
+      );
+    }
+    this.history.set(routeId, { legs, loadedAt: Date.now() });
+    return legs;
+  }
+}
+
+export const etaService = new EtaService();
@@ -0,0 +1,73 @@
+// src/services/gpsBackfill.ts
+import { tripQueue } from "../workers/queue";
+import { BusCoordinates } from "./gpsHandler";
+
+/**
+ * BackfillBuffer
+ * Collects historical fixes (older than the bus's latest fix) and hands them to
+ * the trip worker in batches, which inserts them in order into the matching TripLog.
+ * Trackers flush their stored fixes in bursts, so one job per burst instead of per fix.
+ */
+
+const BACKFILL_BATCH_SIZE = Number(process.env.BACKFILL_BATCH_SIZE ?? 100);
+const BACKFILL_FLUSH_MS = Number(process.env.BACKFILL_FLUSH_MS ?? 2000);
+
+class BackfillBuffer {
+  private pending: Map<string, BusCoordinates[]>;
+  private timers: Map<string, NodeJS.Timeout>;
+
+  constructor() {
+    this.pending = new Map();
+    this.timers = new Map();
+  }
+
+  add(busId: string, coords: BusCoordinates): void {
+    const fixes = this.pending.get(busId) ?? [];
+    fixes.push(coords);
+    this.pending.set(busId, fixes);
+
+    if (fixes.length >= BACKFILL_BATCH_SIZE) {
+      void this.flush(busId);
+      return;
+    }
+
+    // Flush once the burst is over
+    clearTimeout(this.timers.get(busId));
+    const timer = setTimeout(() => void this.flush(busId), BACKFILL_FLUSH_MS);
+    timer.unref();
+    this.timers.set(busId, timer);
+  }
+
+  async flush(busId: string): Promise<void> {
+    clearTimeout(this.timers.get(busId));
+    this.timers.delete(busId);
+
+    const fixes = this.pending.get(busId);
+    this.pending.delete(busId);
+    if (!fixes?.length) return;
+
+    try {
+      await tripQueue.add("backfillFixes", {
+        busId,
+        fixes: fixes.map((f) => ({
+          lat: f.lat,
+          lng: f.lng,
+          speed: f.speed,
+          timestamp: f.timestamp.toISOString(),
+        })),
+      });
+    } catch (err) {
+      console.error("❌ Backfill enqueue failed:", err);
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    await Promise.all(Array.from(this.pending.keys()).map((busId) => this.flush(busId)));
+  }
+}
+
+export const gpsBackfill = new BackfillBuffer();
+
+export const queueBackfillFix = (busId: string, coords: BusCoordinates): void => {
+  gpsBackfill.add(busId, coords);
+};
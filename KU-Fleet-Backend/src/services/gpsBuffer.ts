@@ -2,10 +2,12 @@
 import EventEmitter from "events";
 import { redisClient } from "../config/redis";
 import { BusCoordinates } from "./gpsHandler";
+import { busState } from "./busState";
+import { TripTrack } from "./tripTrack";
 
 /**
  * GPSBuffer
- * Batches GPS points in memory before pushing to Redis.
+ * Batches GPS points in memory before pushing to Redis and to the open trip's track.
  */
 
 class GPSBuffer extends EventEmitter {
@@ -39,7 +41,7 @@ class GPSBuffer extends EventEmitter {
   }
 
   /**
-   * Flush buffered coordinates for a bus into Redis
+   * Flush buffered coordinates for a bus into Redis and its open trip's track
    */
   async flush(busId: string): Promise<void> {
     const points = this.buffer.get(busId);
@@ -67,6 +69,14 @@ class GPSBuffer extends EventEmitter {
       this.buffer.set(busId, []);
     } catch (err) {
       console.error("❌ GPS Buffer flush error:", err);
+      return;
+    }
+
+    try {
+      const state = await busState.get(busId);
+      if (state?.activeTripId) await TripTrack.append(state.activeTripId, points);
+    } catch (err) {
+      console.error("❌ GPS Buffer track write error:", err);
     }
   }
 
@@ -0,0 +1,267 @@
+// src/services/gpsFilter.ts
+import { redisClient } from "../config/redis";
+import { haversineMeters } from "../utils/geo";
+import { BusCoordinates } from "./gpsHandler";
+
+/**
+ * GpsFilter
+ * Per-tracker sanity checks (and optional Kalman smoothing) applied to every fix
+ * before it reaches sockets, the location cache, the GPS buffer or trip logic.
+ *
+ * A fix is rejected when it is a 0,0 / out-of-range fix, repeats the previous
+ * fix timestamp, reports an impossible speed, or implies an impossible speed
+ * from the last accepted fix (teleport jumps from multipath near buildings).
+ *
+ * The filter runs in the process ingesting the tracker; its stats are published to
+ * Redis every STATS_PUBLISH_INTERVAL_MS for the API processes.
+ */
+
+const MAX_IMPLIED_SPEED_KMH = Number(process.env.GPS_MAX_IMPLIED_SPEED_KMH ?? 150);
+const MAX_REPORTED_SPEED_KMH = Number(process.env.GPS_MAX_REPORTED_SPEED_KMH ?? 160);
+// A tracker that keeps "jumping" has most likely really moved (e.g. towed while off)
+const RESET_AFTER_REJECTS = Number(process.env.GPS_FILTER_RESET_AFTER ?? 5);
+const KALMAN_ENABLED = process.env.GPS_KALMAN_ENABLED === "true";
+const KALMAN_ACCURACY_M = Number(process.env.GPS_KALMAN_ACCURACY_M ?? 10);
+const KALMAN_PROCESS_NOISE_MPS = Number(process.env.GPS_KALMAN_PROCESS_NOISE_MPS ?? 3);
+
+const STATS_KEY_PREFIX = "gps:filter:stats:";
+const STATS_PUBLISH_INTERVAL_MS = 30_000;
+const STATS_TTL_SEC = 24 * 60 * 60;
+
+// Normal GPS wander between two fixes, never counted as movement
+const JITTER_METERS = 25;
+
+export type GpsRejectReason =
+  | "zero_fix"
+  | "out_of_range"
+  | "duplicate_timestamp"
+  | "impossible_speed"
+  | "implied_speed";
+
+export interface GpsFilterStats {
+  accepted: number;
+  rejected: number;
+  rejectedByReason: Record<GpsRejectReason, number>;
+  lastRejectReason: GpsRejectReason | null;
+  lastRejectedAt: Date | null;
+  smoothing: boolean;
+}
+
+export type GpsFilterResult =
+  | { accepted: true; coords: BusCoordinates }
+  | { accepted: false; reason: GpsRejectReason; impliedSpeedKmh?: number };
+
+interface TrackerState {
+  last: BusCoordinates | null; // last accepted raw fix
+  consecutiveJumps: number;
+  kalman: { lat: number; lng: number; variance: number; at: number } | null;
+  stats: GpsFilterStats;
+}
+
+const emptyStats = (): GpsFilterStats => ({
+  accepted: 0,
+  rejected: 0,
+  rejectedByReason: {
+    zero_fix: 0,
+    out_of_range: 0,
+    duplicate_timestamp: 0,
+    impossible_speed: 0,
+    implied_speed: 0,
+  },
+  lastRejectReason: null,
+  lastRejectedAt: null,
+  smoothing: KALMAN_ENABLED,
+});
+
+class GpsFilter {
+  private trackers: Map<string, TrackerState>;
+  private changed: Set<string>; // stats not published yet
+  private publishInterval: NodeJS.Timeout;
+
+  constructor() {
+    this.trackers = new Map();
+    this.changed = new Set();
+
+    this.publishInterval = setInterval(() => void this.publish(), STATS_PUBLISH_INTERVAL_MS);
+    this.publishInterval.unref();
+  }
+
+  /**
+   * Check a fix from `imei`. Accepted fixes come back smoothed when Kalman is enabled.
+   */
+  check(imei: string, coords: BusCoordinates): GpsFilterResult {
+    const state = this.state(imei);
+    const result = this.evaluate(state, coords);
+
+    if (!result.accepted) {
+      this.countReject(imei, state, result.reason);
+      return result;
+    }
+
+    state.stats.accepted++;
+    this.changed.add(imei);
+    state.last = coords;
+    state.consecutiveJumps = 0;
+    return { accepted: true, coords: KALMAN_ENABLED ? this.smooth(state, coords) : coords };
+  }
+
+  /**
+   * Stateless checks only, for historical (backfilled) fixes that must not be
+   * compared against – or become – the live reference fix
+   */
+  checkHistorical(imei: string, coords: BusCoordinates): GpsFilterResult {
+    const state = this.state(imei);
+    const reason = this.invalidReason(coords);
+
+    if (reason) {
+      this.countReject(imei, state, reason);
+      return { accepted: false, reason };
+    }
+
+    state.stats.accepted++;
+    this.changed.add(imei);
+    return { accepted: true, coords };
+  }
+
+  /**
+   * Stats of these trackers wherever they are ingested: this process's when it has
+   * seen the tracker, else the ones published to Redis by another process
+   */
+  async lookupStats(imeis: string[]): Promise<Map<string, GpsFilterStats>> {
+    const found = new Map<string, GpsFilterStats>();
+    const remote = imeis.filter((imei) => !this.trackers.has(imei));
+
+    if (remote.length) {
+      try {
+        const values = await redisClient.mget(...remote.map((imei) => STATS_KEY_PREFIX + imei));
+        values.forEach((value, i) => {
+          if (value) found.set(remote[i]!, parseStats(value));
+        });
+      } catch (err) {
+        console.warn("⚠️ GPS filter stats lookup failed:", err);
+      }
+    }
+
+    for (const imei of imeis) {
+      const local = this.trackers.get(imei);
+      if (local) found.set(imei, local.stats);
+    }
+    return found;
+  }
+
+  /**
+   * Forget the reference fix and stats (e.g. tracker re-bound to another bus)
+   */
+  reset(imei: string): void {
+    this.trackers.delete(imei);
+    this.changed.add(imei);
+  }
+
+  private state(imei: string): TrackerState {
+    let state = this.trackers.get(imei);
+    if (!state) {
+      state = { last: null, consecutiveJumps: 0, kalman: null, stats: emptyStats() };
+      this.trackers.set(imei, state);
+    }
+    return state;
+  }
+
+  private countReject(imei: string, state: TrackerState, reason: GpsRejectReason): void {
+    this.changed.add(imei);
+    state.stats.rejected++;
+    state.stats.rejectedByReason[reason]++;
+    state.stats.lastRejectReason = reason;
+    state.stats.lastRejectedAt = new Date();
+  }
+
+  // Write the stats changed since the last run; a reset tracker's are removed
+  private async publish(): Promise<void> {
+    if (!this.changed.size) return;
+    const pipeline = redisClient.pipeline();
+    for (const imei of this.changed) {
+      const stats = this.trackers.get(imei)?.stats;
+      if (stats) pipeline.set(STATS_KEY_PREFIX + imei, JSON.stringify(stats), "EX", STATS_TTL_SEC);
+      else pipeline.del(STATS_KEY_PREFIX + imei);
+    }
+    this.changed.clear();
+    try {
+      await pipeline.exec();
+    } catch (err) {
+      console.warn("⚠️ GPS filter stats publish failed:", err);
+    }
+  }
+
+  private invalidReason({ lat, lng, speed }: BusCoordinates): GpsRejectReason | null {
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      return "out_of_range";
+    }
+    if (Math.abs(lat) < 1e-4 && Math.abs(lng) < 1e-4) return "zero_fix";
+    if (speed > MAX_REPORTED_SPEED_KMH) return "impossible_speed";
+    return null;
+  }
+
+  private evaluate(state: TrackerState, coords: BusCoordinates): GpsFilterResult {
+    const { lat, lng } = coords;
+
+    const invalid = this.invalidReason(coords);
+    if (invalid) return { accepted: false, reason: invalid };
+
+    const last = state.last;
+    if (!last) return { accepted: true, coords };
+
+    const dtSec = Math.abs(coords.timestamp.getTime() - last.timestamp.getTime()) / 1000;
+    if (dtSec === 0) {
+      return { accepted: false, reason: "duplicate_timestamp" };
+    }
+
+    const meters = Math.max(0, haversineMeters(last.lat, last.lng, lat, lng) - JITTER_METERS);
+    const impliedSpeedKmh = (meters / dtSec) * 3.6;
+
+    if (impliedSpeedKmh > MAX_IMPLIED_SPEED_KMH) {
+      state.consecutiveJumps++;
+      if (state.consecutiveJumps < RESET_AFTER_REJECTS) {
+        return { accepted: false, reason: "implied_speed", impliedSpeedKmh: Math.round(impliedSpeedKmh) };
+      }
+      // Re-anchor on the new position instead of rejecting forever
+      state.kalman = null;
+    }
+
+    return { accepted: true, coords };
+  }
+
+  // ───────── KALMAN SMOOTHING ─────────
+  // Constant-position model, variance grows with time at KALMAN_PROCESS_NOISE_MPS
+  private smooth(state: TrackerState, coords: BusCoordinates): BusCoordinates {
+    const at = coords.timestamp.getTime();
+    const measurementVariance = KALMAN_ACCURACY_M ** 2;
+
+    if (!state.kalman) {
+      state.kalman = { lat: coords.lat, lng: coords.lng, variance: measurementVariance, at };
+      return coords;
+    }
+
+    const k = state.kalman;
+    const dtSec = Math.max(0, (at - k.at) / 1000);
+    k.variance += dtSec * KALMAN_PROCESS_NOISE_MPS ** 2;
+
+    const gain = k.variance / (k.variance + measurementVariance);
+    k.lat += gain * (coords.lat - k.lat);
+    k.lng += gain * (coords.lng - k.lng);
+    k.variance *= 1 - gain;
+    k.at = Math.max(k.at, at);
+
+    return { ...coords, lat: round6(k.lat), lng: round6(k.lng) };
+  }
+}
+
+function parseStats(value: string): GpsFilterStats {
+  const stats = JSON.parse(value) as GpsFilterStats;
+  if (stats.lastRejectedAt) stats.lastRejectedAt = new Date(stats.lastRejectedAt);
+  return stats;
+}
+
+function round6(v: number): number {
+  return Math.round(v * 1_000_000) / 1_000_000;
+}
+
+export const gpsFilter = new GpsFilter();
@@ -1,28 +1,61 @@
 // src/services/gpsHandler.ts
-import Bus from "../models/Bus.model";
-import TripLog from "../models/TripLog.model";
 import Alert from "../models/Alert.model";
-import { IRoute } from "../interfaces/Route";
 import { tripQueue } from "../workers/queue";
 import { redisClient, cacheHelpers } from "../config/redis";
 import { getBusIdForIMEI } from "../utils/imeiCache";
 import { getSocketIO, ROOMS, EVENTS } from "../utils/socketHelper";
 import { bufferCoordinate, forceFlushBus } from "./gpsBuffer";
+import { gpsFilter } from "./gpsFilter";
+import { queueBackfillFix } from "./gpsBackfill";
+import { deviceTelemetry } from "./deviceTelemetry";
+import { tripBoundary } from "./tripBoundary";
+import { deviceProvisioning } from "./deviceProvisioning";
+import { trackerBindings } from "./trackerBinding";
+import { busState } from "./busState";
+import { TripLifecycle } from "./tripLifecycle";
+import { stationDetector } from "./stationDetector";
+import { etaService } from "./etaService";
+import { sessionRegistry } from "../tcp/sessionRegistry";
+import { AlertService } from "../workers/alert.service";
+import { TRACKER_ALARM_RULES } from "../config/trackerAlarms";
+import { LEGACY_ALARM_TYPES } from "../tcp/gt06Status";
+import { IAlertTerminalStatus } from "../interfaces/Alert";
 
-const STATION_PROXIMITY_METERS = Number(process.env.STATION_PROXIMITY_METERS ?? 60);
-const MIN_SPEED_KMH = Number(process.env.MIN_SPEED_KMH ?? 5);
 const REDIS_LOCATION_THROTTLE_SEC = Number(process.env.REDIS_LOCATION_THROTTLE_SEC ?? 10);
 const ALERT_DEDUPE_SECONDS = Number(process.env.ALERT_DEDUPE_SECONDS ?? 120);
-const INACTIVITY_END_MIN = Number(process.env.INACTIVITY_MINUTES ?? 30);
 const SPEED_LIMIT_KMH = Number(process.env.SPEED_LIMIT_KMH ?? 80);
 
 // In-memory helpers
 const lastRedisWriteAt = new Map<string, number>();
-const lastMovementAt = new Map<string, number>();
 const lastLocationCache = new Map<string, BusCoordinates>();
+const lastFixAt = new Map<string, number>(); // imei → newest live fix time (ms)
 
-interface TerminalInfo {
+// Trackers with a clock ahead of ours must not make every later fix look historical
+const FUTURE_FIX_TOLERANCE_MS = 60_000;
+
+export interface TerminalInfo {
+  status?: boolean;
+  ignition?: boolean;
+  charging?: boolean;
   alarmType?: string;
+  gpsTracking?: boolean;
+  relayState?: boolean;
+}
+
+// Alarms normalised across tracker protocols
+export type TrackerAlarm =
+  | "sos"
+  | "powerCut"
+  | "vibration"
+  | "lowBattery"
+  | "geofenceIn"
+  | "geofenceOut"
+  | "displacement"
+  | "overspeed";
+
+export interface MessageEvent {
+  number: number;
+  string: string; // 'login', 'location', 'status', 'alarm', ...
 }
 
 export interface GPSData {
@@ -34,12 +67,16 @@ export interface GPSData {
 
 export interface ParsedMessage {
   imei: string | number;
+  event?: MessageEvent;
   terminalInfo?: TerminalInfo;
   gps?: GPSData;
   lat?: number;
   lon?: number;
   speed?: number;
   fixTime?: string | Date;
+  alarm?: TrackerAlarm | null;
+  voltageLevel?: number; // 0..6
+  gsmSignal?: number; // 0..4
 }
 
 export interface BusCoordinates {
@@ -56,6 +93,27 @@ function hasValidCoords(msg: ParsedMessage): boolean {
   );
 }
 
+/**
+ * Newest live fix time for a tracker; falls back to the cached bus location after a restart
+ */
+async function latestFixTime(imei: string, busId: string | null): Promise<number | null> {
+  const known = lastFixAt.get(imei);
+  if (known !== undefined) return known;
+  if (!busId) return null;
+
+  try {
+    const cached = await cacheHelpers.getBusLocation(busId);
+    const at = cached?.timestamp ? new Date(cached.timestamp).getTime() : NaN;
+    if (Number.isFinite(at)) {
+      lastFixAt.set(imei, at);
+      return at;
+    }
+  } catch {
+    // silent cache failure
+  }
+  return null;
+}
+
 /**
  * Atomic Redis NX + EX using MULTI
  */
@@ -69,8 +127,55 @@ async function acquireLock(key: string, ttlSeconds: number): Promise<boolean> {
   return res?.[0]?.[1] === 1;
 }
 
+/**
+ * Turn a tracker alarm into a typed Alert (see config/trackerAlarms.ts),
+ * carrying the terminal status so dispatch can tell a panic from a loose wire.
+ * `at` dates the alert of a stored packet to its fix time.
+ */
+async function raiseTrackerAlarm(
+  msg: ParsedMessage,
+  imei: string,
+  busId: string,
+  coords: BusCoordinates | null,
+  at?: Date
+): Promise<void> {
+  const alarm = msg.alarm ?? LEGACY_ALARM_TYPES[msg.terminalInfo?.alarmType ?? ""];
+  if (!alarm) return;
+
+  const rule = TRACKER_ALARM_RULES[alarm];
+  if (!rule.enabled) return;
+
+  try {
+    const ok = await acquireLock(`alert:terminal:${imei}:${alarm}`, rule.dedupeSec);
+    if (!ok) return;
+
+    const terminalStatus: IAlertTerminalStatus = {};
+    if (msg.terminalInfo?.ignition !== undefined) terminalStatus.ignition = msg.terminalInfo.ignition;
+    if (msg.terminalInfo?.charging !== undefined) terminalStatus.charging = msg.terminalInfo.charging;
+    if (msg.terminalInfo?.gpsTracking !== undefined) terminalStatus.gpsTracking = msg.terminalInfo.gpsTracking;
+    if (msg.voltageLevel !== undefined) terminalStatus.voltageLevel = msg.voltageLevel;
+    if (msg.gsmSignal !== undefined) terminalStatus.gsmSignal = msg.gsmSignal;
+
+    await AlertService.createAlert({
+      busId,
+      type: rule.type,
+      priority: rule.priority,
+      message: rule.message,
+      alarm,
+      terminalStatus,
+      location: coords ? { lat: coords.lat, lng: coords.lng } : null,
+      ...(at ? { timestamp: at } : {}),
+    });
+    console.log(`🚨 Tracker alarm ${alarm} → ${rule.type} alert for bus ${busId}${at ? ` (stored, ${at.toISOString()})` : ""}`);
+  } catch (err) {
+    console.error("❌ Tracker alarm alert failed:", err);
+  }
+}
+
 export async function handleParsedMessage(msg: ParsedMessage): Promise<void> {
   const imei = String(msg.imei);
+  if (deviceProvisioning.isBlocklisted(imei)) return;
+
   const busId = await getBusIdForIMEI(imei);
   const io = getSocketIO();
 
@@ -87,8 +192,34 @@ export async function handleParsedMessage(msg: ParsedMessage): Promise<void> {
         ? new Date(msg.fixTime)
         : new Date(),
     };
+
+    // ───────── HISTORICAL FIXES → BACKFILL ─────────
+    // Stored fixes flushed after a coverage gap: never live state or sockets
+    const latest = await latestFixTime(imei, busId);
+    if (latest !== null && coords.timestamp.getTime() < latest) {
+      await handleHistoricalFix(msg, imei, busId, coords);
+      return;
+    }
+
+    // ───────── OUTLIER FILTER / SMOOTHING ─────────
+    const filtered = gpsFilter.check(imei, coords);
+    if (filtered.accepted) {
+      coords = filtered.coords;
+      lastFixAt.set(imei, Math.min(coords.timestamp.getTime(), Date.now() + FUTURE_FIX_TOLERANCE_MS));
+    } else {
+      console.warn(`🧹 GPS fix rejected for ${imei}: ${filtered.reason}`, {
+        lat: coords.lat,
+        lng: coords.lng,
+        speed: coords.speed,
+        impliedSpeedKmh: filtered.impliedSpeedKmh,
+      });
+      coords = null;
+    }
   }
 
+  // ───────── DEVICE HEALTH TELEMETRY ─────────
+  deviceTelemetry.record(msg, imei, busId);
+
   // ───────── SOCKET EMITS ─────────
   if (io) {
     io.to(ROOMS.ADMINS).emit(EVENTS.GPS_DATA, { imei, busId, gps: coords });
@@ -99,7 +230,26 @@ export async function handleParsedMessage(msg: ParsedMessage): Promise<void> {
     if (busId) io.to(ROOMS.bus(busId)).emit(EVENTS.GPS_DATA, coords);
   }
 
-  if (!coords || !busId) return;
+  // ───────── TERMINAL ALARMS ─────────
+  if (busId) await raiseTrackerAlarm(msg, imei, busId, coords);
+
+  // ───────── UNKNOWN TRACKER → PROVISIONING QUEUE ─────────
+  if (!busId) {
+    await deviceProvisioning.recordUnknown(imei, {
+      coords,
+      event: msg.event?.string,
+      remoteAddress: sessionRegistry.get(imei)?.remoteAddress,
+    });
+    return;
+  }
+
+  if (msg.terminalInfo?.ignition !== undefined) tripBoundary.observeIgnition(busId, msg.terminalInfo.ignition);
+
+  if (!coords) {
+    // Status packets without a fix can still close a trip (ignition off, depot dwell)
+    if (msg.terminalInfo) await handleTripBoundary(busId, imei, null);
+    return;
+  }
 
   // ───────── REDIS LOCATION CACHE ─────────
   try {
@@ -142,82 +292,88 @@ export async function handleParsedMessage(msg: ParsedMessage): Promise<void> {
   }
 
   // ───────── TRIP LOGIC ─────────
-  try {
-    const activeTrip = await TripLog.findOne({
-      bus: busId,
-      endTime: null,
-    });
-
-    const bus = await Bus.findById(busId)
-      .populate<{ route: IRoute }>("route")
-      .lean();
+  await handleTripBoundary(busId, imei, coords);
+}
 
-    const route = bus?.route ?? null;
+/**
+ * A stored packet flushed after a coverage gap. The fix goes into the right TripLog, and the
+ * packet's alarm and health values are recorded at its fix time; the tracker may have been
+ * on another bus back then (binding history).
+ */
+async function handleHistoricalFix(
+  msg: ParsedMessage,
+  imei: string,
+  busId: string | null,
+  coords: BusCoordinates
+): Promise<void> {
+  const ownerBusId = await trackerBindings.busAt(imei, coords.timestamp, busId);
+  deviceTelemetry.record(msg, imei, ownerBusId, coords.timestamp);
+
+  const checked = gpsFilter.checkHistorical(imei, coords);
+  if (!ownerBusId) return;
+  if (checked.accepted) queueBackfillFix(ownerBusId, coords);
+  await raiseTrackerAlarm(msg, imei, ownerBusId, checked.accepted ? coords : null, coords.timestamp);
+}
 
-    // START TRIP
-    if (!activeTrip && coords.speed >= MIN_SPEED_KMH) {
-      const trip = await TripLog.create({
-        bus: busId,
-        driver: bus?.driver,
-        route: route?._id,
-        startTime: coords.timestamp,
-        coordinates: [coords],
-        status: "in_progress",
-      });
+/**
+ * Start / end trips as decided by the trip boundary detector (services/tripBoundary.ts),
+ * recording the reason on the TripLog
+ */
+async function handleTripBoundary(busId: string, imei: string, coords: BusCoordinates | null): Promise<void> {
+  try {
+    // Open trip, driver, route and config from memory (services/busState.ts), not MongoDB
+    const state = await busState.get(busId);
+    if (!state) return;
+    if (coords) busState.observeFix(busId, coords);
 
-      bufferCoordinate(busId, coords);
-      lastMovementAt.set(imei, Date.now());
+    const decision = tripBoundary.evaluate(busId, state.tripDetection, coords, Boolean(state.activeTripId));
 
-      io?.to(ROOMS.ADMINS).emit(EVENTS.TRIP_STARTED, {
-        tripId: String(trip._id),
+    // START TRIP (a concurrent packet may have opened it already)
+    if (decision.action === "start" && coords) {
+      const { trip, created } = await TripLifecycle.start({
         busId,
+        driver: state.driver,
+        route: state.route,
+        trackerIMEI: imei,
+        startTime: coords.timestamp,
+        coords,
+        reason: decision.reason,
       });
 
+      bufferCoordinate(busId, coords);
+      if (created) tripBoundary.tripStarted(busId);
+      await stationDetector.observe(busId, String(trip._id), coords); // may start at a station
+      await etaService.onFix(busId, String(trip._id), coords);
       return;
     }
 
-    if (!activeTrip) return;
-
-    bufferCoordinate(busId, coords);
-
-    // MOVEMENT TRACKING
-    if (coords.speed >= MIN_SPEED_KMH) {
-      lastMovementAt.set(imei, Date.now());
-      return;
-    }
-
-    // END TRIP BY INACTIVITY
-    const lastMove = lastMovementAt.get(imei) ?? Date.now();
-    const inactiveMs = Date.now() - lastMove;
-
-    if (inactiveMs >= INACTIVITY_END_MIN * 60 * 1000) {
+    // END TRIP
+    if (decision.action === "end") {
       const lockKey = `trip:end:${busId}`;
       const acquired = await acquireLock(lockKey, ALERT_DEDUPE_SECONDS);
       if (!acquired) return;
 
+      const lastFix = decision.lastFix;
       await forceFlushBus(busId);
       await tripQueue.add("endTrip", {
         busId,
-        endCoords: coords,
+        ...(lastFix
+          ? { endCoords: { lat: lastFix.lat, lng: lastFix.lng, speed: lastFix.speed }, timestamp: lastFix.timestamp }
+          : {}),
+        reason: decision.reason,
       });
+      tripBoundary.tripEnded(busId);
+      console.log(`🏁 Ending trip for bus ${busId}: ${decision.reason}`);
+      return;
     }
-  } catch (err) {
-    console.error("Trip handling error:", err);
-  }
-
-  // ───────── TERMINAL ALERTS ─────────
-  if (msg.terminalInfo?.alarmType && msg.terminalInfo.alarmType !== "normal") {
-    const key = `alert:terminal:${imei}:${msg.terminalInfo.alarmType}`;
-    const ok = await acquireLock(key, ALERT_DEDUPE_SECONDS);
 
-    if (ok) {
-      await Alert.create({
-        bus: busId,
-        type: "system",
-        message: `Alarm ${msg.terminalInfo.alarmType}`,
-        priority: "high",
-        timestamp: new Date(),
-      });
+    // Live fix of an open trip: path, station arrivals / departures, ETAs
+    if (state.activeTripId && coords) {
+      bufferCoordinate(busId, coords);
+      await stationDetector.observe(busId, state.activeTripId, coords);
+      await etaService.onFix(busId, state.activeTripId, coords);
     }
+  } catch (err) {
+    console.error("Trip handling error:", err);
   }
 }
@@ -0,0 +1,119 @@
+// src/services/osmand.ts
+import { AppError } from "../middleware/errorHandler";
+import { ParsedMessage } from "./gpsHandler";
+
+/**
+ * OsmAnd / Traccar Client HTTP protocol → ParsedMessage
+ *
+ * Query (or form) format, GET or POST:
+ *   ?id=<device id>&lat=..&lon=..&timestamp=..&speed=..&bearing=..&altitude=..&batt=..&charge=..
+ *   - speed is in knots, timestamp is unix seconds / ms or a date string
+ *   - `location=lat,lon` is accepted instead of lat / lon, `deviceid` instead of id
+ *   - `valid=false` marks a report without a usable fix
+ *
+ * Newer Traccar Client versions POST JSON instead:
+ *   { device_id, location: { timestamp, coords: { latitude, longitude, speed (m/s) },
+ *     battery: { level (0..1), is_charging } } }
+ */
+
+const KNOTS_TO_KMH = 1.852;
+const MPS_TO_KMH = 3.6;
+
+type Params = Record<string, unknown>;
+
+const str = (v: unknown): string | undefined => (Array.isArray(v) ? str(v[0]) : v == null ? undefined : String(v));
+
+const num = (v: unknown): number | undefined => {
+  const s = str(v);
+  if (s === undefined || s.trim() === "") return undefined;
+  const n = Number(s);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const bool = (v: unknown): boolean | undefined => {
+  const s = str(v)?.toLowerCase();
+  return s === undefined ? undefined : s === "true" || s === "1";
+};
+
+function parseTimestamp(v: unknown): Date {
+  const s = str(v);
+  if (!s) return new Date();
+
+  if (/^\d+(\.\d+)?$/.test(s)) {
+    const n = Number(s);
+    return new Date(n > 1e12 ? n : n * 1000); // ms or seconds
+  }
+
+  // "yyyy-MM-dd HH:mm:ss" without a zone is UTC
+  const iso = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(s) ? `${s.replace(" ", "T")}Z` : s;
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) throw new AppError(`Invalid timestamp "${s}"`, 400);
+  return date;
+}
+
+// Phone battery percent → GT06 backup battery level (0..6) used by device health
+const batteryLevel = (percent: number): number => Math.max(0, Math.min(6, Math.round((percent / 100) * 6)));
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+/**
+ * Parse an OsmAnd request (query / form params merged with the body) into a ParsedMessage
+ */
+export function parseOsmAndRequest(params: Params, body?: unknown): ParsedMessage {
+  if (body && typeof body === "object" && "location" in body) return parseTraccarJson(body as Params);
+
+  const id = str(params.id ?? params.deviceid)?.trim();
+  if (!id) throw new AppError("Missing device id", 400);
+
+  let lat = num(params.lat);
+  let lon = num(params.lon);
+  const location = str(params.location);
+  if ((lat === undefined || lon === undefined) && location) {
+    [lat, lon] = location.split(",").map((part) => num(part));
+  }
+
+  const msg: ParsedMessage = { imei: id, event: { number: 0, string: "location" } };
+
+  if (lat !== undefined && lon !== undefined && bool(params.valid) !== false) {
+    msg.lat = lat;
+    msg.lon = lon;
+    msg.speed = round1((num(params.speed) ?? 0) * KNOTS_TO_KMH);
+    msg.fixTime = parseTimestamp(params.timestamp);
+  }
+
+  const batt = num(params.batt);
+  if (batt !== undefined) msg.voltageLevel = batteryLevel(batt);
+
+  const charge = bool(params.charge);
+  if (charge !== undefined) msg.terminalInfo = { charging: charge };
+
+  return msg;
+}
+
+function parseTraccarJson(body: Params): ParsedMessage {
+  const id = str(body.device_id ?? body.id)?.trim();
+  if (!id) throw new AppError("Missing device_id", 400);
+
+  const location = (body.location ?? {}) as Params;
+  const coords = (location.coords ?? {}) as Params;
+  const battery = (location.battery ?? {}) as Params;
+
+  const msg: ParsedMessage = { imei: id, event: { number: 0, string: "location" } };
+
+  const lat = num(coords.latitude);
+  const lon = num(coords.longitude);
+  if (lat !== undefined && lon !== undefined) {
+    msg.lat = lat;
+    msg.lon = lon;
+    msg.speed = round1(Math.max(0, num(coords.speed) ?? 0) * MPS_TO_KMH);
+    msg.fixTime = parseTimestamp(location.timestamp);
+  }
+
+  const level = num(battery.level);
+  if (level !== undefined && level >= 0) msg.voltageLevel = batteryLevel(level * 100);
+
+  const charging = bool(battery.is_charging);
+  if (charging !== undefined) msg.terminalInfo = { charging };
+
+  return msg;
+}
@@ -0,0 +1,67 @@
+// src/services/rfidScan.ts
+import User from "../models/User.model";
+import Bus from "../models/Bus.model";
+import RFIDLog from "../models/RFIDLog.model";
+import TripLog from "../models/TripLog.model";
+import { AppError } from "../middleware/errorHandler";
+import { determineRfidEvent } from "../utils/rfid.utils";
+import { TripLifecycle } from "./tripLifecycle";
+import { getSocketIO } from "../utils/socketHelper";
+
+/**
+ * Student RFID scan (boarding / exiting a bus), shared by the HTTP scan
+ * endpoint and the MQTT reader gateway
+ */
+
+export interface RfidScanInput {
+  rfidTag: string;
+  busId: string;
+  timestamp?: Date;
+}
+
+export async function processRfidScan({ rfidTag, busId, timestamp }: RfidScanInput) {
+  const normalizedUID = rfidTag.replace(/\s+/g, "").toUpperCase();
+
+  const bus = await Bus.findById(busId);
+  if (!bus) throw new AppError("Bus not found", 404);
+
+  const student = await User.findOne({
+    rfidCardUID: normalizedUID,
+    role: "student",
+    status: "active",
+  });
+  if (!student) throw new AppError("Invalid RFID card", 404);
+
+  // ✅ Simplified: just flip last event on this bus
+  const eventType = await determineRfidEvent(String(student._id), String(bus._id));
+
+  // Linked to the open trip, whose passenger count is reconciled from these when it ends
+  const activeTrip = await TripLifecycle.findOpen(String(bus._id)).select("_id").lean();
+
+  // Save log
+  const log = await RFIDLog.create({
+    rfidTag: normalizedUID,
+    student: student._id,
+    bus: bus._id,
+    eventType,
+    ...(activeTrip ? { trip: activeTrip._id } : {}),
+    ...(timestamp ? { timestamp } : {}),
+  });
+
+  // Update passenger count if active trip exists
+  if (activeTrip) {
+    const delta = eventType === "BOARD" ? 1 : -1;
+    await TripLog.findByIdAndUpdate(activeTrip._id, { $inc: { passengerCount: delta } });
+  }
+
+  // Emit real-time event
+  getSocketIO()?.emit("rfid:event", {
+    studentId: student._id,
+    studentName: student.name,
+    busId: bus._id,
+    eventType,
+    timestamp: log.createdAt,
+  });
+
+  return { eventType, student, log };
+}
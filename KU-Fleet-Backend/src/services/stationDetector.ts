@@ -0,0 +1,234 @@
+// src/services/stationDetector.ts
+import { Types } from "mongoose";
+import Route from "../models/Route.model";
+import StopEvent from "../models/StopEvent.model";
+import TripLog from "../models/TripLog.model";
+import { IStation } from "../models/Station.model";
+import { AppError } from "../middleware/errorHandler";
+import { haversineMeters } from "../utils/geo";
+import { emitToRoom, ROOMS, EVENTS } from "../utils/socketHelper";
+import { TripLifecycle } from "./tripLifecycle";
+import { BusCoordinates } from "./gpsHandler";
+
+/**
+ * StationDetector
+ * Arrivals at and departures from the stations of a trip's route, from live fixes.
+ *
+ * A bus arrives when a fix is within STATION_PROXIMITY_METERS of a station and departs
+ * once a fix is more than 1.5× that away, so GPS jitter at the edge of the radius
+ * doesn't split one stop into several. Each stop is a StopEvent on the trip (arrival,
+ * departure, dwell), the trip goes at_stop → in_progress, and the bus and student
+ * rooms get bus-arrived / bus-departed.
+ *
+ * A stop still open when the trip ends (e.g. at the terminus) keeps no departure.
+ */
+
+const STATION_PROXIMITY_METERS = Number(process.env.STATION_PROXIMITY_METERS ?? 60);
+const STATION_EXIT_METERS = STATION_PROXIMITY_METERS * 1.5;
+const ROUTE_STATIONS_TTL_MS = 5 * 60_000;
+
+export interface RouteStation {
+  stationId: string;
+  stationName: string;
+  sequence: number; // position on the route
+  lat: number;
+  lng: number;
+}
+
+interface CurrentStop {
+  eventId: string;
+  station: RouteStation;
+  arrivedAt: Date;
+}
+
+interface BusStopState {
+  tripId: string;
+  routeId: string | null;
+  stop: CurrentStop | null;
+}
+
+// A stop found along a recorded track (see stationVisits)
+export interface StationVisit {
+  station: RouteStation;
+  arrivedAt: Date;
+  departedAt: Date | null;
+}
+
+type PopulatedStation = Pick<IStation, "stationName" | "position"> & { _id: Types.ObjectId };
+
+// Nearest station within range (stations can be close together)
+function nearestStation(coords: { lat: number; lng: number }, stations: RouteStation[]): RouteStation | null {
+  let nearest: { station: RouteStation; distance: number } | null = null;
+  for (const station of stations) {
+    const distance = haversineMeters(coords.lat, coords.lng, station.lat, station.lng);
+    if (distance <= STATION_PROXIMITY_METERS && (!nearest || distance < nearest.distance)) {
+      nearest = { station, distance };
+    }
+  }
+  return nearest?.station ?? null;
+}
+
+/**
+ * The stops of a recorded track (fixes in time order) at the given stations, by the same
+ * rules as live detection
+ */
+export function stationVisits(
+  points: { lat: number; lng: number; timestamp: Date }[],
+  stations: RouteStation[]
+): StationVisit[] {
+  const visits: StationVisit[] = [];
+  let current: StationVisit | null = null;
+
+  for (const point of points) {
+    if (current) {
+      const { station } = current;
+      if (haversineMeters(point.lat, point.lng, station.lat, station.lng) <= STATION_EXIT_METERS) continue;
+      current.departedAt = point.timestamp;
+      current = null;
+    }
+
+    const station = nearestStation(point, stations);
+    if (station) {
+      current = { station, arrivedAt: point.timestamp, departedAt: null };
+      visits.push(current);
+    }
+  }
+  return visits;
+}
+
+class StationDetector {
+  private buses: Map<string, BusStopState>;
+  private routes: Map<string, { stations: RouteStation[]; loadedAt: number }>;
+  private queues: Map<string, Promise<void>>;
+
+  constructor() {
+    this.buses = new Map();
+    this.routes = new Map();
+    this.queues = new Map();
+  }
+
+  /**
+   * Live fix of a bus on trip `tripId`. Fixes of one bus are handled in order.
+   */
+  observe(busId: string, tripId: string, coords: BusCoordinates): Promise<void> {
+    const previous = this.queues.get(busId) ?? Promise.resolve();
+    const next = previous
+      .then(() => this.process(busId, tripId, coords))
+      .catch((err) => console.error("❌ Station detection failed:", err))
+      .finally(() => {
+        if (this.queues.get(busId) === next) this.queues.delete(busId);
+      });
+    this.queues.set(busId, next);
+    return next;
+  }
+
+  /**
+   * Stations of a route in order, cached for a few minutes
+   */
+  async stationsOf(routeId: string): Promise<RouteStation[]> {
+    const cached = this.routes.get(routeId);
+    if (cached && Date.now() - cached.loadedAt < ROUTE_STATIONS_TTL_MS) return cached.stations;
+
+    const route = await Route.findById(routeId)
+      .select("stations")
+      .populate<{ stations: (PopulatedStation | null)[] }>("stations", "stationName position")
+      .lean();
+
+    const stations: RouteStation[] = [];
+    (route?.stations ?? []).forEach((station, sequence) => {
+      const [lng, lat] = station?.position?.coordinates ?? [];
+      if (!station || lat === undefined || lng === undefined) return; // deleted station
+      stations.push({ stationId: String(station._id), stationName: station.stationName, sequence, lat, lng });
+    });
+
+    this.routes.set(routeId, { stations, loadedAt: Date.now() });
+    return stations;
+  }
+
+  /**
+   * The station the bus is stopped at, if any
+   */
+  currentStop(busId: string): { tripId: string; station: RouteStation; arrivedAt: Date } | null {
+    const state = this.buses.get(busId);
+    return state?.stop ? { tripId: state.tripId, station: state.stop.station, arrivedAt: state.stop.arrivedAt } : null;
+  }
+
+  private async process(busId: string, tripId: string, coords: BusCoordinates): Promise<void> {
+    let state = this.buses.get(busId);
+    if (!state || state.tripId !== tripId) {
+      // New trip: its own route (a timetable run may be on another route than the bus's)
+      const trip = await TripLog.findById(tripId).select("route").lean();
+      state = { tripId, routeId: trip?.route ? String(trip.route) : null, stop: null };
+      this.buses.set(busId, state);
+    }
+    if (!state.routeId) return;
+
+    if (state.stop) {
+      const { station } = state.stop;
+      if (haversineMeters(coords.lat, coords.lng, station.lat, station.lng) <= STATION_EXIT_METERS) return;
+      await this.depart(busId, state, coords.timestamp);
+    }
+
+    const station = nearestStation(coords, await this.stationsOf(state.routeId));
+    if (station) await this.arrive(busId, state, station, coords.timestamp);
+  }
+
+  private async arrive(busId: string, state: BusStopState, station: RouteStation, arrivedAt: Date): Promise<void> {
+    const event = await StopEvent.create({
+      trip: state.tripId,
+      bus: busId,
+      route: state.routeId,
+      station: station.stationId,
+      sequence: station.sequence,
+      arrivedAt,
+    });
+    state.stop = { eventId: String(event._id), station, arrivedAt };
+
+    await TripLog.updateOne({ _id: state.tripId }, { $inc: { stopsCount: 1 } });
+    await this.setTripStatus(state.tripId, "at_stop");
+
+    this.announce(busId, EVENTS.BUS_ARRIVED, {
+      busId,
+      tripId: state.tripId,
+      stationId: station.stationId,
+      stationName: station.stationName,
+      sequence: station.sequence,
+      arrivedAt,
+    });
+  }
+
+  private async depart(busId: string, state: BusStopState, departedAt: Date): Promise<void> {
+    const { eventId, station, arrivedAt } = state.stop!;
+    const dwellSeconds = Math.max(0, Math.round((departedAt.getTime() - arrivedAt.getTime()) / 1000));
+    state.stop = null;
+
+    await StopEvent.updateOne({ _id: eventId }, { $set: { departedAt, dwellSeconds } });
+    await this.setTripStatus(state.tripId, "in_progress");
+
+    this.announce(busId, EVENTS.BUS_DEPARTED, {
+      busId,
+      tripId: state.tripId,
+      stationId: station.stationId,
+      stationName: station.stationName,
+      sequence: station.sequence,
+      arrivedAt,
+      departedAt,
+      dwellSeconds,
+    });
+  }
+
+  private async setTripStatus(tripId: string, status: "at_stop" | "in_progress"): Promise<void> {
+    try {
+      await TripLifecycle.transition(tripId, status);
+    } catch (err) {
+      if (!(err instanceof AppError)) throw err; // closed meanwhile, or already there
+    }
+  }
+
+  private announce(busId: string, event: string, data: Record<string, unknown>): void {
+    emitToRoom(ROOMS.bus(busId), event, data);
+    emitToRoom(ROOMS.STUDENTS, event, data);
+  }
+}
+
+export const stationDetector = new StationDetector();
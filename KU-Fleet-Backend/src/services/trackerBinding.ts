@@ -0,0 +1,146 @@
+// src/services/trackerBinding.ts
+import { randomUUID } from "crypto";
+import { Redis } from "ioredis";
+import TrackerBinding, { ITrackerBinding, TrackerBindingSource } from "../models/TrackerBinding.model";
+import { redisClient } from "../config/redis";
+import { invalidateIMEI } from "../utils/imeiCache";
+import { gpsFilter } from "./gpsFilter";
+
+/**
+ * TrackerBindings
+ * History of which tracker was fitted to which bus, and when. Every change of
+ * Bus.trackerIMEI goes through rebind(): it closes the old binding, opens the new
+ * one and drops both IMEIs from the IMEI → bus cache on every instance. The other
+ * instances are also told on Redis to drop their binding history and GPS filter
+ * state of both trackers.
+ *
+ * Fixes a tracker flushes after a gap may predate a swap; busAt() tells which bus
+ * they belong to so they are backfilled into that bus's trips, not the new one's.
+ */
+
+// Backfill bursts ask for the same IMEI hundreds of times
+const HISTORY_CACHE_MS = 60_000;
+const REBIND_CHANNEL = "tracker:rebind";
+const INSTANCE_ID = randomUUID(); // ignore our own rebinds
+
+type BindingPeriod = Pick<ITrackerBinding, "bus" | "boundAt" | "unboundAt">;
+
+export interface RebindOptions {
+  source: TrackerBindingSource;
+  userId?: string | undefined;
+}
+
+class TrackerBindings {
+  private history: Map<string, { periods: BindingPeriod[]; loadedAt: number }>;
+  private subscriber: Redis | null;
+
+  constructor() {
+    this.history = new Map();
+    this.subscriber = null;
+  }
+
+  /**
+   * Forget the trackers rebound on other instances
+   */
+  async subscribe(): Promise<void> {
+    if (this.subscriber) return;
+    this.subscriber = redisClient.duplicate();
+    this.subscriber.on("message", (channel: string, message: string) => {
+      if (channel !== REBIND_CHANNEL) return;
+      const [origin, imei] = message.split(":");
+      if (origin === INSTANCE_ID || !imei) return;
+      this.forget(imei);
+    });
+    this.subscriber.on("error", (err) => console.error("❌ Tracker rebind subscriber error:", err));
+    await this.subscriber.subscribe(REBIND_CHANNEL);
+  }
+
+  /**
+   * Record that a bus's tracker changed from previousImei to nextImei (either may be null)
+   */
+  async rebind(busId: string, previousImei: string | null, nextImei: string | null, opts: RebindOptions): Promise<void> {
+    if (previousImei === nextImei) return;
+    const now = new Date();
+
+    if (previousImei) {
+      const closed = await TrackerBinding.updateOne(
+        { bus: busId, imei: previousImei, unboundAt: null },
+        { $set: { unboundAt: now, ...(opts.userId ? { unboundBy: opts.userId } : {}) } }
+      );
+      // Bound before history was recorded: keep the end of it at least
+      if (!closed.matchedCount) {
+        await TrackerBinding.create({
+          bus: busId,
+          imei: previousImei,
+          unboundAt: now,
+          source: opts.source,
+          ...(opts.userId ? { unboundBy: opts.userId } : {}),
+        });
+      }
+    }
+
+    if (nextImei) {
+      await TrackerBinding.create({
+        bus: busId,
+        imei: nextImei,
+        boundAt: now,
+        source: opts.source,
+        ...(opts.userId ? { boundBy: opts.userId } : {}),
+      });
+    }
+
+    for (const imei of [previousImei, nextImei]) {
+      if (!imei) continue;
+      this.forget(imei);
+      await invalidateIMEI(imei);
+      await redisClient
+        .publish(REBIND_CHANNEL, `${INSTANCE_ID}:${imei}`)
+        .catch((err) => console.warn("⚠️ Tracker rebind publish failed:", err));
+    }
+  }
+
+  /**
+   * The bus a tracker was fitted to at `time`. Trackers without any history
+   * have been on their current bus (`currentBusId`) all along.
+   */
+  async busAt(imei: string, time: Date, currentBusId: string | null): Promise<string | null> {
+    const periods = await this.periods(imei);
+    if (!periods.length) return currentBusId;
+
+    const t = time.getTime();
+    const match = periods.find(
+      (p) => (!p.boundAt || p.boundAt.getTime() <= t) && (!p.unboundAt || t < p.unboundAt.getTime())
+    );
+    return match ? String(match.bus) : null;
+  }
+
+  async forBus(busId: string, limit = 50) {
+    return TrackerBinding.find({ bus: busId })
+      .sort({ boundAt: -1, createdAt: -1 })
+      .limit(limit)
+      .populate("boundBy", "name email")
+      .populate("unboundBy", "name email")
+      .lean();
+  }
+
+  // The tracker's fixes are compared against, and attributed to, its new bus from now on
+  private forget(imei: string): void {
+    this.history.delete(imei);
+    gpsFilter.reset(imei);
+  }
+
+  private async periods(imei: string): Promise<BindingPeriod[]> {
+    const cached = this.history.get(imei);
+    if (cached && Date.now() - cached.loadedAt < HISTORY_CACHE_MS) return cached.periods;
+
+    // Newest first, so a dated binding wins over an undated one
+    const periods = await TrackerBinding.find({ imei })
+      .select("bus boundAt unboundAt")
+      .sort({ boundAt: -1 })
+      .lean();
+    this.history.set(imei, { periods, loadedAt: Date.now() });
+    return periods;
+  }
+}
+
+export const trackerBindings = new TrackerBindings();
@@ -0,0 +1,150 @@
+// src/services/tripBoundary.ts
+import { TripDetectionConfig } from "../config/tripDetection";
+import { TripEndReason, TripStartReason } from "../models/TripLog.model";
+import { haversineMeters } from "../utils/geo";
+import { BusCoordinates } from "./gpsHandler";
+
+/**
+ * TripBoundaryDetector
+ * Decides when a bus's trip starts and ends from ignition, speed, dwell at the
+ * depot and gaps between fixes, per bus config (config/tripDetection.ts).
+ *
+ * Start: moving (>= minSpeedKmh), outside the depot, and – when ignition is used – ignition on.
+ * End, first match wins:
+ *   gap          no fix for maxGapMinutes → ended at the last fix before the gap
+ *   ignitionOff  ignition off for ignitionOffMinutes
+ *   depotDwell   stationary inside the depot for depotDwellMinutes
+ *   inactivity   below minSpeedKmh for inactivityMinutes (only when ignition isn't used,
+ *                so traffic jams and station waits with the engine on don't split trips)
+ */
+
+export type TripBoundaryDecision =
+  | { action: "none" }
+  | { action: "start"; reason: TripStartReason }
+  | { action: "end"; reason: TripEndReason; lastFix: BusCoordinates | null };
+
+interface BusBoundaryState {
+  ignition: boolean | null; // null until the tracker reports it
+  ignitionChangedAt: number;
+  lastFix: BusCoordinates | null;
+  lastMovementAt: number | null;
+  inDepot: boolean;
+  depotStoppedSince: number | null;
+}
+
+const NONE: TripBoundaryDecision = { action: "none" };
+
+class TripBoundaryDetector {
+  private buses: Map<string, BusBoundaryState>;
+
+  constructor() {
+    this.buses = new Map();
+  }
+
+  /**
+   * Ignition state from any tracker message (status packets carry it without a fix)
+   */
+  observeIgnition(busId: string, ignition: boolean, now = Date.now()): void {
+    const state = this.state(busId);
+    if (state.ignition !== ignition) {
+      state.ignition = ignition;
+      state.ignitionChangedAt = now;
+    }
+  }
+
+  /**
+   * Evaluate a message for `busId`. `coords` is null for messages without an accepted fix,
+   * which can still end a trip (ignition off, dwell, inactivity) but never start one.
+   */
+  evaluate(
+    busId: string,
+    config: TripDetectionConfig,
+    coords: BusCoordinates | null,
+    tripOpen: boolean,
+    now = Date.now()
+  ): TripBoundaryDecision {
+    const state = this.state(busId);
+    const useIgnition = config.mode === "ignition" || (config.mode === "auto" && state.ignition !== null);
+    const previousFix = state.lastFix;
+    const wasInDepot = state.inDepot;
+    const moving = coords ? coords.speed >= config.minSpeedKmh : false;
+
+    if (coords) {
+      state.lastFix = coords;
+      state.inDepot = config.depot
+        ? haversineMeters(coords.lat, coords.lng, config.depot.lat, config.depot.lng) <= config.depot.radiusMeters
+        : false;
+
+      if (moving) state.lastMovementAt = now;
+      if (moving || !state.inDepot) state.depotStoppedSince = null;
+      else state.depotStoppedSince ??= now;
+    }
+
+    // ───────── START ─────────
+    if (!tripOpen) {
+      if (!coords || !moving || state.inDepot) return NONE;
+      if (useIgnition && state.ignition !== true) return NONE;
+
+      const reason: TripStartReason = wasInDepot ? "depotExit" : useIgnition ? "ignitionOn" : "movement";
+      return { action: "start", reason };
+    }
+
+    // ───────── END ─────────
+    if (coords && previousFix) {
+      const gapMs = coords.timestamp.getTime() - previousFix.timestamp.getTime();
+      if (gapMs >= config.maxGapMinutes * 60_000) return { action: "end", reason: "gap", lastFix: previousFix };
+    }
+
+    if (useIgnition && state.ignition === false && now - state.ignitionChangedAt >= config.ignitionOffMinutes * 60_000) {
+      return { action: "end", reason: "ignitionOff", lastFix: state.lastFix };
+    }
+
+    if (state.depotStoppedSince !== null && now - state.depotStoppedSince >= config.depotDwellMinutes * 60_000) {
+      return { action: "end", reason: "depotDwell", lastFix: state.lastFix };
+    }
+
+    // Open trip we haven't seen move yet (e.g. after a restart) – count from now
+    state.lastMovementAt ??= now;
+    if (!useIgnition && now - state.lastMovementAt >= config.inactivityMinutes * 60_000) {
+      return { action: "end", reason: "inactivity", lastFix: state.lastFix };
+    }
+
+    return NONE;
+  }
+
+  /**
+   * Trip opened for `busId`
+   */
+  tripStarted(busId: string, now = Date.now()): void {
+    const state = this.state(busId);
+    state.lastMovementAt = now;
+    state.depotStoppedSince = null;
+  }
+
+  /**
+   * Trip closed for `busId`; keep ignition and the last fix for the next start / gap check
+   */
+  tripEnded(busId: string): void {
+    const state = this.state(busId);
+    state.lastMovementAt = null;
+    state.depotStoppedSince = null;
+  }
+
+  private state(busId: string): BusBoundaryState {
+    let state = this.buses.get(busId);
+    if (!state) {
+      state = {
+        ignition: null,
+        ignitionChangedAt: Date.now(),
+        lastFix: null,
+        lastMovementAt: null,
+        inDepot: false,
+        depotStoppedSince: null,
+      };
+      this.buses.set(busId, state);
+    }
+    return state;
+  }
+}
+
+export const tripBoundary = new TripBoundaryDetector();
@@ -0,0 +1,334 @@
+// src/services/tripExport.ts
+import { Writable } from "stream";
+import { FilterQuery, Types } from "mongoose";
+import TripLog, { ITripLog } from "../models/TripLog.model";
+import TripSegment from "../models/TripSegment.model";
+import StopEvent from "../models/StopEvent.model";
+import Bus from "../models/Bus.model";
+
+/**
+ * TripExport
+ * Trip tracks as GPX, KML, GeoJSON or CSV files: every fix with its speed and time, and
+ * the trips' station stops as waypoints.
+ *
+ * Written straight to the response: stops first (GPX wants waypoints before tracks),
+ * then the trips' TripSegment documents from one cursor, each segment's fixes written as
+ * it is read and waiting for the client to drain, so a month of trips never sits in
+ * memory at once. Tracks come in time order, per bus: a bus runs one trip at a time, so
+ * its segments in time order are its trips one after another.
+ */
+
+export const EXPORT_FORMATS = ["gpx", "kml", "geojson", "csv"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  gpx: "application/gpx+xml",
+  kml: "application/vnd.google-earth.kml+xml",
+  geojson: "application/geo+json",
+  csv: "text/csv; charset=utf-8",
+};
+
+const EXPORT_BATCH_SEGMENTS = 20;
+const CREATOR = "KU Fleet";
+
+export interface ExportPoint {
+  lat: number;
+  lng: number;
+  speed: number; // km/h
+  timestamp: Date;
+}
+
+export interface ExportStop {
+  tripId: string;
+  bus: string;
+  stationName: string;
+  sequence: number;
+  lat: number;
+  lng: number;
+  arrivedAt: Date;
+  departedAt: Date | null;
+  dwellSeconds: number | null;
+}
+
+export interface ExportTrack {
+  tripId: string;
+  bus: string;
+  startTime: Date; // first fix
+}
+
+interface ExportWriter {
+  begin(title: string): string;
+  stop(stop: ExportStop): string;
+  tracks(): string; // after the last stop, before the first track
+  trackStart(track: ExportTrack): string;
+  segment(track: ExportTrack, points: ExportPoint[]): string; // a TripSegment's fixes, in order
+  trackEnd(track: ExportTrack): string;
+  end(): string;
+}
+
+type PopulatedStation = { stationName: string; position?: { coordinates: number[] } } | null;
+
+/* -------------------- HELPERS -------------------- */
+const xml = (value: unknown) =>
+  String(value).replace(/[<>&'"]/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", "'": "&apos;", '"': "&quot;" })[c]!);
+
+const csv = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const stopLabel = (stop: ExportStop) =>
+  `Stop ${stop.sequence + 1} · bus ${stop.bus} · trip ${stop.tripId}` +
+  (stop.dwellSeconds !== null ? ` · dwell ${stop.dwellSeconds} s` : "");
+
+const trackName = (track: ExportTrack) => `Bus ${track.bus} · ${track.startTime.toISOString()}`;
+
+/* -------------------- WRITERS -------------------- */
+const WRITERS: Record<ExportFormat, () => ExportWriter> = {
+  // GPX 1.1, speed in m/s as a Garmin TrackPointExtension
+  gpx: () => ({
+    begin: (title) =>
+      `<?xml version="1.0" encoding="UTF-8"?>\n` +
+      `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1" ` +
+      `xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2">\n` +
+      `<metadata><name>${xml(title)}</name><time>${new Date().toISOString()}</time></metadata>\n`,
+    stop: (stop) =>
+      `<wpt lat="${stop.lat}" lon="${stop.lng}"><time>${stop.arrivedAt.toISOString()}</time>` +
+      `<name>${xml(stop.stationName)}</name><desc>${xml(stopLabel(stop))}</desc><type>stop</type></wpt>\n`,
+    tracks: () => "",
+    trackStart: (track) => `<trk><name>${xml(trackName(track))}</name><desc>trip ${track.tripId}</desc><trkseg>\n`,
+    segment: (_track, points) =>
+      points
+        .map(
+          (p) =>
+            `<trkpt lat="${p.lat}" lon="${p.lng}"><time>${p.timestamp.toISOString()}</time><extensions>` +
+            `<gpxtpx:TrackPointExtension><gpxtpx:speed>${(p.speed / 3.6).toFixed(2)}</gpxtpx:speed>` +
+            `</gpxtpx:TrackPointExtension></extensions></trkpt>\n`
+        )
+        .join(""),
+    trackEnd: () => `</trkseg></trk>\n`,
+    end: () => `</gpx>\n`,
+  }),
+
+  // KML 2.2, a gx:MultiTrack per trip with a gx:Track per segment (time per coordinate, speed
+  // in km/h as track data), interpolated across segments
+  kml: () => ({
+    begin: (title) =>
+      `<?xml version="1.0" encoding="UTF-8"?>\n` +
+      `<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2"><Document>\n` +
+      `<name>${xml(title)}</name>\n` +
+      `<Schema id="trackData"><gx:SimpleArrayField name="speed" type="float">` +
+      `<displayName>Speed (km/h)</displayName></gx:SimpleArrayField></Schema>\n` +
+      `<Folder><name>Stops</name>\n`,
+    stop: (stop) =>
+      `<Placemark><name>${xml(stop.stationName)}</name><description>${xml(stopLabel(stop))}</description>` +
+      `<TimeSpan><begin>${stop.arrivedAt.toISOString()}</begin>` +
+      (stop.departedAt ? `<end>${stop.departedAt.toISOString()}</end>` : "") +
+      `</TimeSpan><Point><coordinates>${stop.lng},${stop.lat}</coordinates></Point></Placemark>\n`,
+    tracks: () => `</Folder>\n<Folder><name>Tracks</name>\n`,
+    trackStart: (track) =>
+      `<Placemark><name>${xml(trackName(track))}</name><description>trip ${track.tripId}</description>` +
+      `<gx:MultiTrack><gx:interpolate>1</gx:interpolate>\n`,
+    segment: (_track, points) =>
+      `<gx:Track>\n` +
+      points.map((p) => `<when>${p.timestamp.toISOString()}</when>\n`).join("") +
+      points.map((p) => `<gx:coord>${p.lng} ${p.lat} 0</gx:coord>\n`).join("") +
+      `<ExtendedData><SchemaData schemaUrl="#trackData"><gx:SimpleArrayData name="speed">\n` +
+      points.map((p) => `<gx:value>${p.speed}</gx:value>\n`).join("") +
+      `</gx:SimpleArrayData></SchemaData></ExtendedData></gx:Track>\n`,
+    trackEnd: () => `</gx:MultiTrack></Placemark>\n`,
+    end: () => `</Folder>\n</Document></kml>\n`,
+  }),
+
+  // FeatureCollection: a Point per stop and a LineString per trip segment, its fixes' times and
+  // speeds in properties.coordinateProperties (same order as the coordinates). A segment's line
+  // starts at the previous segment's last fix so the trip's lines join up.
+  geojson: () => {
+    let features = 0;
+    let previous: ExportPoint | null = null;
+    const next = () => (features++ ? ",\n" : "\n");
+
+    return {
+      begin: (title) => `{"type":"FeatureCollection","name":${JSON.stringify(title)},"features":[`,
+      stop: (stop) =>
+        next() +
+        JSON.stringify({
+          type: "Feature",
+          geometry: { type: "Point", coordinates: [stop.lng, stop.lat] },
+          properties: {
+            kind: "stop",
+            tripId: stop.tripId,
+            bus: stop.bus,
+            stationName: stop.stationName,
+            sequence: stop.sequence,
+            arrivedAt: stop.arrivedAt,
+            departedAt: stop.departedAt,
+            dwellSeconds: stop.dwellSeconds,
+          },
+        }),
+      tracks: () => "",
+      trackStart: () => {
+        previous = null;
+        return "";
+      },
+      segment: (track, points) => {
+        const line = previous ? [previous, ...points] : points;
+        previous = points[points.length - 1] ?? previous;
+        if (line.length < 2) return ""; // a LineString needs two positions
+        return (
+          next() +
+          JSON.stringify({
+            type: "Feature",
+            geometry: { type: "LineString", coordinates: line.map((p) => [p.lng, p.lat]) },
+            properties: {
+              kind: "track",
+              tripId: track.tripId,
+              bus: track.bus,
+              startTime: line[0]!.timestamp,
+              endTime: line[line.length - 1]!.timestamp,
+              coordinateProperties: { times: line.map((p) => p.timestamp), speeds: line.map((p) => p.speed) },
+            },
+          })
+        );
+      },
+      trackEnd: () => "",
+      end: () => `\n]}\n`,
+    };
+  },
+
+  // One row per stop and per fix
+  csv: () => ({
+    begin: () => "record,trip_id,bus,timestamp,lat,lng,speed_kmh,station,sequence,departed_at,dwell_seconds\n",
+    stop: (stop) =>
+      [
+        "stop",
+        stop.tripId,
+        stop.bus,
+        stop.arrivedAt,
+        stop.lat,
+        stop.lng,
+        null,
+        stop.stationName,
+        stop.sequence,
+        stop.departedAt,
+        stop.dwellSeconds,
+      ]
+        .map(csv)
+        .join(",") + "\n",
+    tracks: () => "",
+    trackStart: () => "",
+    segment: (track, points) => {
+      const prefix = `point,${csv(track.tripId)},${csv(track.bus)},`;
+      return points.map((p) => `${prefix}${p.timestamp.toISOString()},${p.lat},${p.lng},${p.speed},,,,\n`).join("");
+    },
+    trackEnd: () => "",
+    end: () => "",
+  }),
+};
+
+/* -------------------- STREAMING -------------------- */
+// Write a chunk, waiting for the client to catch up when its buffer is full
+async function send(out: Writable, chunk: string): Promise<void> {
+  if (!chunk || out.write(chunk)) return;
+  await new Promise<void>((resolve) => {
+    const done = () => {
+      out.off("drain", done);
+      out.off("close", done);
+      resolve();
+    };
+    out.once("drain", done);
+    out.once("close", done);
+  });
+}
+
+export const TripExport = {
+  /**
+   * Write the trips matching `filter` to `out`, one trip after another, and end it
+   */
+  async stream(out: Writable, format: ExportFormat, filter: FilterQuery<ITripLog>, title: string): Promise<void> {
+    const writer = WRITERS[format]();
+    const trips = await TripLog.find(filter).select("bus").lean();
+    const tripIds = trips.map((t) => t._id);
+    const busIds = [...new Set(trips.map((t) => String(t.bus)))];
+
+    // Bus numbers for the labels (an export is one bus, or a few)
+    const busNumbers = new Map<string, string>();
+    const busNumberOf = async (busId: Types.ObjectId): Promise<string> => {
+      let busNumber = busNumbers.get(String(busId));
+      if (busNumber === undefined) {
+        const bus = await Bus.findById(busId).select("busNumber").lean();
+        busNumber = bus?.busNumber ?? "unknown";
+        busNumbers.set(String(busId), busNumber);
+      }
+      return busNumber;
+    };
+
+    await send(out, writer.begin(title));
+
+    const stops = StopEvent.find({ trip: { $in: tripIds } })
+      .select("trip bus station sequence arrivedAt departedAt dwellSeconds")
+      .populate<{ station: PopulatedStation }>("station", "stationName position")
+      .sort({ arrivedAt: 1 })
+      .lean()
+      .cursor();
+    for await (const stop of stops) {
+      if (out.destroyed) return;
+      const [lng, lat] = stop.station?.position?.coordinates ?? [];
+      if (!stop.station || lat === undefined || lng === undefined) continue; // deleted station
+      await send(
+        out,
+        writer.stop({
+          tripId: String(stop.trip),
+          bus: await busNumberOf(stop.bus),
+          stationName: stop.station.stationName,
+          sequence: stop.sequence,
+          lat,
+          lng,
+          arrivedAt: stop.arrivedAt,
+          departedAt: stop.departedAt ?? null,
+          dwellSeconds: stop.dwellSeconds ?? null,
+        })
+      );
+    }
+
+    await send(out, writer.tracks());
+
+    // Time span of the trips' segments ({ trip, bucket } index), bounding the bus scan below
+    const [first, last] = await Promise.all(
+      ([1, -1] as const).map((order) =>
+        TripSegment.findOne({ trip: { $in: tripIds } }).sort({ bucket: order }).select("bucket -_id").lean()
+      )
+    );
+
+    // Segments in time order per bus ({ bus, bucket, startTime } index): trips sharing a
+    // bucket at a handover are ordered by their first fix in it. No bounds: no fixes at all.
+    const segments =
+      first && last
+        ? TripSegment.find({
+            bus: { $in: busIds },
+            bucket: { $gte: first.bucket, $lte: last.bucket },
+            trip: { $in: tripIds },
+          })
+            .select("trip bus startTime points")
+            .sort({ bus: 1, bucket: 1, startTime: 1 })
+            .lean()
+            .cursor({ batchSize: EXPORT_BATCH_SEGMENTS })
+        : [];
+
+    let track: ExportTrack | null = null;
+    for await (const segment of segments) {
+      if (out.destroyed) return;
+      if (track?.tripId !== String(segment.trip)) {
+        if (track) await send(out, writer.trackEnd(track));
+        track = { tripId: String(segment.trip), bus: await busNumberOf(segment.bus), startTime: segment.startTime };
+        await send(out, writer.trackStart(track));
+      }
+      const points = segment.points.map((p) => ({ lat: p.lat, lng: p.lng, speed: p.speed ?? 0, timestamp: p.timestamp }));
+      await send(out, writer.segment(track, points));
+    }
+    if (track) await send(out, writer.trackEnd(track));
+
+    out.end(writer.end());
+  },
+};
@@ -0,0 +1,355 @@
+// src/services/tripLifecycle.ts
+import TripLog, {
+  ITripLog,
+  OPEN_TRIP_STATUSES,
+  TripEndReason,
+  TripStartReason,
+  TripStatus,
+} from "../models/TripLog.model";
+import RFIDLog from "../models/RFIDLog.model";
+import StopEvent from "../models/StopEvent.model";
+import { AppError } from "../middleware/errorHandler";
+import { emitToRoom, ROOMS, EVENTS } from "../utils/socketHelper";
+import { busState } from "./busState";
+import { TripTrack } from "./tripTrack";
+import { BusCoordinates } from "./gpsHandler";
+
+/**
+ * TripLifecycle
+ * The only place a trip changes status. Controllers, the GPS handler and the
+ * trip worker go through it.
+ *
+ *   scheduled ──► departed ──► in_progress ◄──► at_stop
+ *       │             │             │              │
+ *       ▼             └─────────────┴──────┬───────┘
+ *   cancelled                              ▼
+ *                          completed | cancelled | abandoned
+ *
+ *   scheduled    planned, not started yet
+ *   departed     a scheduled trip that has left
+ *   in_progress  driving (trips detected from GPS start here)
+ *   at_stop      dwelling at a station
+ *   completed    ended normally; distance, speed and passengers are final
+ *   cancelled    called off by an admin
+ *   abandoned    left open without an end (stale, or a duplicate from before the index)
+ *
+ * departed / in_progress / at_stop are "open": a bus has at most one open trip,
+ * enforced by a unique partial index on TripLog (bus, open: true).
+ *
+ * Scheduled trips come from route timetables (services/tripSchedule.ts). A trip
+ * starting within SCHEDULE_MATCH_WINDOW_MINUTES of a scheduled run of the same bus
+ * (or, failing that, the same route) departs that run instead of opening a new trip.
+ */
+
+const TRIP_STALE_HOURS = Number(process.env.TRIP_STALE_HOURS ?? 12);
+export const SCHEDULE_MATCH_WINDOW_MINUTES = Number(process.env.SCHEDULE_MATCH_WINDOW_MINUTES ?? 30);
+
+export const TRIP_TRANSITIONS: Record<TripStatus, TripStatus[]> = {
+  scheduled: ["departed", "cancelled"],
+  departed: ["in_progress", "at_stop", "completed", "cancelled", "abandoned"],
+  in_progress: ["at_stop", "completed", "cancelled", "abandoned"],
+  at_stop: ["in_progress", "completed", "cancelled", "abandoned"],
+  completed: [],
+  cancelled: [],
+  abandoned: [],
+};
+
+export type ClosedTripStatus = "completed" | "cancelled" | "abandoned";
+
+export const isOpenTripStatus = (status: TripStatus): boolean => OPEN_TRIP_STATUSES.includes(status);
+
+export const openTripFilter = (busId: string) => ({ bus: busId, status: { $in: OPEN_TRIP_STATUSES } });
+
+// Statuses a trip may move to `to` from
+const sourcesOf = (to: TripStatus): TripStatus[] =>
+  (Object.keys(TRIP_TRANSITIONS) as TripStatus[]).filter((from) => TRIP_TRANSITIONS[from].includes(to));
+
+const isDuplicateKey = (err: unknown): boolean => (err as { code?: number })?.code === 11000;
+
+export interface StartTripInput {
+  busId: string;
+  startTime: Date;
+  reason: TripStartReason;
+  coords?: BusCoordinates | null;
+  driver?: string | null;
+  route?: string | null;
+  trackerIMEI?: string;
+}
+
+export interface CloseTripInput {
+  reason: TripEndReason;
+  endTime?: Date;
+  endCoords?: { lat: number; lng: number; speed?: number } | null;
+}
+
+function announce(trip: ITripLog, from: TripStatus | null): void {
+  emitToRoom(ROOMS.ADMINS, EVENTS.TRIP_STATUS_CHANGED, {
+    tripId: String(trip._id),
+    busId: String(trip.bus),
+    from,
+    status: trip.status,
+    timestamp: new Date(),
+  });
+}
+
+// The scheduled run a trip starting now is: same bus first, then same route, nearest planned time
+async function findScheduledRun(busId: string, route: string | null, startTime: Date) {
+  const window = SCHEDULE_MATCH_WINDOW_MINUTES * 60_000;
+  const runs = await TripLog.find({
+    status: "scheduled",
+    scheduledStart: { $gte: new Date(startTime.getTime() - window), $lte: new Date(startTime.getTime() + window) },
+    $or: [{ bus: busId }, ...(route ? [{ route }] : [])],
+  })
+    .select("bus scheduledStart")
+    .lean();
+
+  const offset = (run: (typeof runs)[number]) => Math.abs(run.scheduledStart!.getTime() - startTime.getTime());
+  const sameBus = runs.filter((run) => String(run.bus) === busId);
+  const candidates = sameBus.length ? sameBus : runs;
+  return candidates.sort((a, b) => offset(a) - offset(b))[0] ?? null;
+}
+
+async function wrongState(tripId: string, to: TripStatus): Promise<never> {
+  const current = await TripLog.findById(tripId).select("status").lean();
+  if (!current) throw new AppError("Trip not found", 404);
+  throw new AppError(`Trip is ${current.status}, it can't become ${to}`, 409);
+}
+
+export const TripLifecycle = {
+  /**
+   * The bus's open trip, if any
+   */
+  findOpen(busId: string) {
+    return TripLog.findOne(openTripFilter(busId)).sort({ startTime: -1 });
+  },
+
+  /**
+   * Start a trip: departs the matching scheduled run, otherwise opens an unscheduled
+   * trip (in_progress). Safe against concurrent packets: when the bus already has an
+   * open trip, that one is returned with `created: false`.
+   */
+  async start(input: StartTripInput): Promise<{ trip: ITripLog; created: boolean }> {
+    const { busId, coords } = input;
+
+    const run = await findScheduledRun(busId, input.route ?? null, input.startTime);
+    if (run) {
+      try {
+        return { trip: await TripLifecycle.depart(String(run._id), input), created: true };
+      } catch (err) {
+        // Departed by another packet meanwhile, or the bus already has an open trip
+        if (!(err instanceof AppError)) throw err;
+      }
+    }
+
+    try {
+      const trip = await TripLog.create({
+        bus: busId,
+        driver: input.driver ?? undefined,
+        route: input.route ?? undefined,
+        trackerIMEI: input.trackerIMEI,
+        startTime: input.startTime,
+        status: "in_progress",
+        open: true,
+        startReason: input.reason,
+      });
+
+      if (coords) await TripTrack.append(trip, [coords]);
+
+      busState.tripStarted(busId, String(trip._id));
+      emitToRoom(ROOMS.ADMINS, EVENTS.TRIP_STARTED, { tripId: String(trip._id), busId, reason: input.reason });
+      announce(trip, null);
+      return { trip, created: true };
+    } catch (err) {
+      if (!isDuplicateKey(err)) throw err;
+
+      // Lost the race to another packet / process
+      const existing = await TripLifecycle.findOpen(busId);
+      if (!existing) throw err;
+      busState.tripStarted(busId, String(existing._id));
+      return { trip: existing, created: false };
+    }
+  },
+
+  /**
+   * A scheduled trip leaves, on `input.busId` (a substitute bus takes over the run).
+   * 409 if the bus already has another open trip.
+   */
+  async depart(tripId: string, input: StartTripInput): Promise<ITripLog> {
+    const set: Record<string, unknown> = {
+      bus: input.busId,
+      status: "departed",
+      open: true,
+      startTime: input.startTime,
+      startReason: input.reason,
+    };
+    if (input.trackerIMEI) set.trackerIMEI = input.trackerIMEI;
+    if (input.driver) set.driver = input.driver;
+
+    let trip: ITripLog | null;
+    try {
+      trip = await TripLog.findOneAndUpdate(
+        { _id: tripId, status: "scheduled" },
+        { $set: set },
+        { new: true }
+      );
+    } catch (err) {
+      if (isDuplicateKey(err)) throw new AppError("Bus already has an open trip", 409);
+      throw err;
+    }
+    if (!trip) return wrongState(tripId, "departed");
+    if (input.coords) await TripTrack.append(trip, [input.coords]);
+
+    busState.tripStarted(String(trip.bus), String(trip._id));
+    emitToRoom(ROOMS.ADMINS, EVENTS.TRIP_STARTED, {
+      tripId: String(trip._id),
+      busId: String(trip.bus),
+      reason: input.reason,
+    });
+    announce(trip, "scheduled");
+    return trip;
+  },
+
+  /**
+   * Move between open states: departed / at_stop → in_progress, departed / in_progress → at_stop
+   */
+  async transition(tripId: string, to: "in_progress" | "at_stop"): Promise<ITripLog> {
+    const sources = sourcesOf(to);
+    const before = await TripLog.findOneAndUpdate(
+      { _id: tripId, status: { $in: sources } },
+      { $set: { status: to } },
+      { new: false }
+    );
+    if (!before) return wrongState(tripId, to);
+
+    const from = before.status;
+    before.status = to;
+    announce(before, from);
+    return before;
+  },
+
+  /**
+   * Close the bus's open trip as completed (trip worker / trip boundary detection)
+   */
+  async complete(busId: string, input: CloseTripInput): Promise<ITripLog | null> {
+    const trip = await TripLifecycle.findOpen(busId);
+    if (!trip) {
+      busState.tripEnded(busId);
+      return null;
+    }
+    return TripLifecycle.close(trip, "completed", input);
+  },
+
+  /**
+   * Close a trip: completed, cancelled or abandoned. Open trips get their final
+   * coordinate, distance, speed, passenger and stop figures; scheduled trips can only be cancelled.
+   */
+  async close(tripOrId: ITripLog | string, status: ClosedTripStatus, input: CloseTripInput): Promise<ITripLog> {
+    const trip = typeof tripOrId === "string" ? await TripLog.findById(tripOrId) : tripOrId;
+    if (!trip) throw new AppError("Trip not found", 404);
+
+    const from = trip.status;
+    if (!TRIP_TRANSITIONS[from].includes(status)) return wrongState(String(trip._id), status);
+
+    const set: Record<string, unknown> = { status, endReason: input.reason };
+    const update: Record<string, unknown> = { $set: set, $unset: { open: 1 } };
+
+    if (isOpenTripStatus(from)) {
+      // Ends at the last fix before the boundary (e.g. before a gap), never before it started
+      const endTime = new Date(Math.max((input.endTime ?? new Date()).getTime(), trip.startTime.getTime()));
+
+      if (input.endCoords) {
+        const last = { lat: input.endCoords.lat, lng: input.endCoords.lng, speed: input.endCoords.speed ?? 0, timestamp: endTime };
+        await TripTrack.append(trip, [last]);
+      }
+
+      // ---- Passenger reconciliation, stops from the station detector ----
+      const [boarded, exited, stops, track] = await Promise.all([
+        RFIDLog.countDocuments({ trip: trip._id, eventType: "BOARD" }),
+        RFIDLog.countDocuments({ trip: trip._id, eventType: "EXIT" }),
+        StopEvent.countDocuments({ trip: trip._id }),
+        TripTrack.stats(String(trip._id)),
+      ]);
+
+      const distanceKm = track.distanceMeters / 1000;
+      const durationSec = (endTime.getTime() - trip.startTime.getTime()) / 1000;
+
+      set.endTime = endTime;
+      set.distance = distanceKm;
+      set.duration = durationSec;
+      set.avgSpeed = durationSec > 0 ? distanceKm / (durationSec / 3600) : 0;
+      set.maxSpeed = track.maxSpeed;
+      set.pointCount = track.pointCount;
+      set.passengerCount = Math.max(0, boarded - exited);
+      set.stopsCount = stops;
+    }
+
+    // Only if nobody changed it meanwhile
+    const saved = await TripLog.findOneAndUpdate({ _id: trip._id, status: from }, update, { new: true });
+    if (!saved) return wrongState(String(trip._id), status);
+
+    if (isOpenTripStatus(from)) {
+      busState.tripEnded(String(saved.bus), String(saved._id));
+      emitToRoom(ROOMS.ADMINS, EVENTS.TRIP_ENDED, {
+        tripId: String(saved._id),
+        busId: String(saved.bus),
+        status,
+        reason: input.reason,
+      });
+    }
+    announce(saved, from);
+    return saved;
+  },
+
+  /**
+   * Abandon open trips with no fix for TRIP_STALE_HOURS (tracker gone, worker lost the end job);
+   * trips without fixes go by their last update. They end at their last fix.
+   */
+  async abandonStale(now = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - TRIP_STALE_HOURS * 3600_000);
+    const stale = await TripLog.find({
+      status: { $in: OPEN_TRIP_STATUSES },
+      $or: [{ lastFixAt: { $lt: cutoff } }, { lastFixAt: { $exists: false }, updatedAt: { $lt: cutoff } }],
+    });
+
+    let abandoned = 0;
+    for (const trip of stale) {
+      try {
+        await TripLifecycle.close(trip, "abandoned", { reason: "stale", endTime: trip.lastFixAt ?? trip.updatedAt });
+        abandoned++;
+      } catch (err) {
+        if (!(err instanceof AppError)) throw err; // changed meanwhile
+      }
+    }
+    if (abandoned) console.log(`🧟 Abandoned ${abandoned} stale open trips`);
+    return abandoned;
+  },
+
+  /**
+   * Flag open trips from before the lifecycle existed so the unique index covers them;
+   * a bus with several keeps its newest, the rest are abandoned
+   */
+  async reconcileOpenTrips(): Promise<void> {
+    const legacy = await TripLog.find({ status: { $in: OPEN_TRIP_STATUSES }, open: { $ne: true } })
+      .select("bus startTime lastFixAt updatedAt")
+      .sort({ startTime: -1 })
+      .lean();
+    if (!legacy.length) return;
+
+    const flagged = new Set(
+      (await TripLog.find({ open: true }).select("bus").lean()).map((t) => String(t.bus))
+    );
+    for (const trip of legacy) {
+      const busId = String(trip.bus);
+      if (flagged.has(busId)) {
+        await TripLog.updateOne(
+          { _id: trip._id },
+          { $set: { status: "abandoned", endTime: trip.lastFixAt ?? trip.updatedAt, endReason: "stale" } }
+        );
+        continue;
+      }
+      await TripLog.updateOne({ _id: trip._id }, { $set: { open: true } });
+      flagged.add(busId);
+    }
+    console.log(`🔧 Reconciled ${legacy.length} open trips from before the trip lifecycle`);
+  },
+};
@@ -0,0 +1,218 @@
+// src/services/tripPlayback.ts
+import { Types } from "mongoose";
+import TripLog, { TripStatus } from "../models/TripLog.model";
+import StopEvent from "../models/StopEvent.model";
+import Alert from "../models/Alert.model";
+import RFIDLog from "../models/RFIDLog.model";
+import { AppError } from "../middleware/errorHandler";
+import { TripTrack } from "./tripTrack";
+
+/**
+ * TripPlayback
+ * A trip's track for replaying it on a map: fixes in time order, thinned to one per
+ * `intervalSec` (or to `maxPoints` over the window), and the trip's events on the same
+ * timeline – station arrivals / departures, alerts raised by the bus and RFID boarding /
+ * exits. Every point and event carries `offsetSec` from the trip's start so a client can
+ * scrub; events without a location of their own get the bus's interpolated position.
+ */
+
+const PLAYBACK_MAX_POINTS = 5000;
+
+export interface PlaybackPoint {
+  offsetSec: number;
+  timestamp: Date;
+  lat: number;
+  lng: number;
+  speed: number;
+}
+
+export type PlaybackEventType = "arrived" | "departed" | "alert" | "board" | "exit";
+
+export interface PlaybackEvent {
+  type: PlaybackEventType;
+  offsetSec: number;
+  timestamp: Date;
+  position: { lat: number; lng: number } | null;
+  details: Record<string, unknown>;
+}
+
+export interface PlaybackOptions {
+  from?: Date; // window within the trip, defaults to the whole trip
+  to?: Date;
+  intervalSec?: number; // at most one point per this many seconds
+  maxPoints?: number;
+}
+
+export interface TripPlaybackResult {
+  tripId: string;
+  bus: string;
+  route: string | null;
+  status: TripStatus;
+  startTime: Date;
+  endTime: Date | null;
+  window: { from: Date; to: Date; intervalSec: number };
+  totalPoints: number; // fixes in the window before thinning
+  points: PlaybackPoint[];
+  events: PlaybackEvent[];
+}
+
+type Fix = { lat: number; lng: number; speed?: number; timestamp: Date };
+
+/**
+ * One fix per `intervalSec` bucket (the first in it), always keeping the last fix
+ */
+export function downsample<T extends { timestamp: Date }>(fixes: T[], intervalSec: number): T[] {
+  if (intervalSec <= 0 || fixes.length <= 2) return fixes;
+
+  const kept: T[] = [];
+  let nextAt = -Infinity;
+  for (const fix of fixes) {
+    const t = fix.timestamp.getTime();
+    if (t < nextAt) continue;
+    kept.push(fix);
+    nextAt = t + intervalSec * 1000;
+  }
+  const last = fixes[fixes.length - 1]!;
+  if (kept[kept.length - 1] !== last) kept.push(last);
+  return kept;
+}
+
+/**
+ * Position of the bus at `time`, interpolated between the fixes around it
+ */
+export function positionAt(fixes: Fix[], time: Date): { lat: number; lng: number } | null {
+  if (!fixes.length) return null;
+  const t = time.getTime();
+
+  let lo = 0;
+  let hi = fixes.length - 1;
+  if (t <= fixes[lo]!.timestamp.getTime()) return { lat: fixes[lo]!.lat, lng: fixes[lo]!.lng };
+  if (t >= fixes[hi]!.timestamp.getTime()) return { lat: fixes[hi]!.lat, lng: fixes[hi]!.lng };
+
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (fixes[mid]!.timestamp.getTime() <= t) lo = mid;
+    else hi = mid;
+  }
+  const a = fixes[lo]!;
+  const b = fixes[hi]!;
+  const span = b.timestamp.getTime() - a.timestamp.getTime();
+  const f = span > 0 ? (t - a.timestamp.getTime()) / span : 0;
+  return { lat: a.lat + (b.lat - a.lat) * f, lng: a.lng + (b.lng - a.lng) * f };
+}
+
+export const TripPlayback = {
+  async build(tripId: string, options: PlaybackOptions = {}): Promise<TripPlaybackResult> {
+    const trip = await TripLog.findById(tripId)
+      .select("bus route status startTime endTime")
+      .lean();
+    if (!trip) throw new AppError("Trip not found", 404);
+
+    const startTime = trip.startTime;
+    const tripEnd = trip.endTime ?? new Date();
+    const from = options.from && options.from > startTime ? options.from : startTime;
+    const to = options.to && options.to < tripEnd ? options.to : tripEnd;
+    if (from > to) throw new AppError("Window is outside the trip", 400);
+
+    // The fixes just outside the window only place events at its edges
+    const fixes: Fix[] = await TripTrack.pointsAround(trip._id, { from, to });
+    const inWindow = fixes.filter((c) => c.timestamp >= from && c.timestamp <= to);
+
+    // The coarser of the requested resolution and what maxPoints allows. downsample keeps the
+    // first fix and one per interval after it, plus the last fix: that one's slot is reserved,
+    // the others fit (maxPoints - 2) intervals into the window.
+    const maxPoints = Math.min(options.maxPoints ?? PLAYBACK_MAX_POINTS, PLAYBACK_MAX_POINTS);
+    const windowSec = (to.getTime() - from.getTime()) / 1000;
+    const intervalSec = Math.max(
+      options.intervalSec ?? 0,
+      inWindow.length > maxPoints ? Math.ceil(windowSec / Math.max(1, maxPoints - 2)) : 0
+    );
+
+    const offsetSec = (time: Date) => Math.round((time.getTime() - startTime.getTime()) / 1000);
+    const points: PlaybackPoint[] = downsample(inWindow, intervalSec).map((c) => ({
+      offsetSec: offsetSec(c.timestamp),
+      timestamp: c.timestamp,
+      lat: c.lat,
+      lng: c.lng,
+      speed: c.speed ?? 0,
+    }));
+
+    const [stops, alerts, scans] = await Promise.all([
+      StopEvent.find({
+        trip: tripId,
+        $or: [{ arrivedAt: { $gte: from, $lte: to } }, { departedAt: { $gte: from, $lte: to } }],
+      })
+        .populate<{ station: { _id: Types.ObjectId; stationName: string; position?: { coordinates: number[] } } | null }>(
+          "station",
+          "stationName position"
+        )
+        .select("station sequence arrivedAt departedAt dwellSeconds")
+        .lean(),
+      Alert.find({ bus: trip.bus, timestamp: { $gte: from, $lte: to } })
+        .select("type message priority alarm location resolved timestamp")
+        .lean(),
+      // Scans linked to the trip, and the bus's unlinked scans while it ran
+      RFIDLog.find({
+        timestamp: { $gte: from, $lte: to },
+        $or: [{ trip: tripId }, { bus: trip.bus, trip: { $exists: false } }],
+      })
+        .populate<{ student: { _id: Types.ObjectId; name: string } | null }>("student", "name")
+        .select("rfidTag student eventType timestamp")
+        .lean(),
+    ]);
+
+    const events: PlaybackEvent[] = [];
+    const push = (type: PlaybackEventType, timestamp: Date, position: PlaybackEvent["position"], details: Record<string, unknown>) => {
+      if (timestamp < from || timestamp > to) return;
+      events.push({ type, offsetSec: offsetSec(timestamp), timestamp, position: position ?? positionAt(fixes, timestamp), details });
+    };
+
+    for (const stop of stops) {
+      const [lng, lat] = stop.station?.position?.coordinates ?? [];
+      const position = lat !== undefined && lng !== undefined ? { lat, lng } : null;
+      const station = {
+        stationId: stop.station ? String(stop.station._id) : null,
+        stationName: stop.station?.stationName ?? null,
+        sequence: stop.sequence,
+      };
+      push("arrived", stop.arrivedAt, position, station);
+      if (stop.departedAt) push("departed", stop.departedAt, position, { ...station, dwellSeconds: stop.dwellSeconds ?? null });
+    }
+
+    for (const alert of alerts) {
+      const details = {
+        alertId: String(alert._id),
+        type: alert.type,
+        priority: alert.priority,
+        message: alert.message ?? null,
+        alarm: alert.alarm ?? null,
+        resolved: alert.resolved,
+      };
+      const { lat, lng } = alert.location ?? {};
+      push("alert", alert.timestamp, typeof lat === "number" && typeof lng === "number" ? { lat, lng } : null, details);
+    }
+
+    for (const scan of scans) {
+      push(scan.eventType === "BOARD" ? "board" : "exit", scan.timestamp, null, {
+        rfidTag: scan.rfidTag,
+        studentId: scan.student ? String(scan.student._id) : null,
+        studentName: scan.student?.name ?? null,
+      });
+    }
+
+    events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    return {
+      tripId: String(trip._id),
+      bus: String(trip.bus),
+      route: trip.route ? String(trip.route) : null,
+      status: trip.status,
+      startTime,
+      endTime: trip.endTime ?? null,
+      window: { from, to, intervalSec },
+      totalPoints: inWindow.length,
+      points,
+      events,
+    };
+  },
+};
@@ -0,0 +1,304 @@
+// src/services/tripSchedule.ts
+import { AnyBulkWriteOperation, Types } from "mongoose";
+import Timetable, { ITimetable } from "../models/Timetable.model";
+import TripLog, { ITripLog, TripStatus } from "../models/TripLog.model";
+import { AppError } from "../middleware/errorHandler";
+import { TripLifecycle, SCHEDULE_MATCH_WINDOW_MINUTES } from "./tripLifecycle";
+
+/**
+ * TripSchedule
+ * Turns route timetables into a day's scheduled trips (TripLogs with status
+ * "scheduled", one per timetable departure) and compares them with what ran.
+ *
+ * Live trips depart their scheduled run in TripLifecycle.start. A run is then:
+ *
+ *   on_time    departed at most SCHEDULE_LATE_MINUTES after the planned time
+ *   late       departed later than that
+ *   missed     still scheduled SCHEDULE_MATCH_WINDOW_MINUTES after the planned time
+ *   cancelled  cancelled before departure
+ *   upcoming   not due yet
+ *
+ * and trips that ran without a timetable run are "extra". Times are server local time.
+ */
+
+const SCHEDULE_LATE_MINUTES = Number(process.env.SCHEDULE_LATE_MINUTES ?? 5);
+
+export type RunOutcome = "on_time" | "late" | "missed" | "cancelled" | "upcoming";
+
+export interface PlannedRun {
+  tripId: string;
+  timetable: string | null;
+  route: string | null;
+  bus: string;
+  driver: string | null;
+  scheduledStart: Date;
+  actualStart: Date | null;
+  delayMinutes: number | null;
+  status: TripStatus;
+  outcome: RunOutcome;
+}
+
+export interface ExtraRun {
+  tripId: string;
+  route: string | null;
+  bus: string;
+  driver: string | null;
+  startTime: Date;
+  endTime: Date | null;
+  status: TripStatus;
+}
+
+export interface ScheduleCounts {
+  planned: number;
+  on_time: number;
+  late: number;
+  missed: number;
+  cancelled: number;
+  upcoming: number;
+  extra: number;
+}
+
+export interface PlannedVsActualQuery {
+  from: Date;
+  to: Date;
+  route?: string;
+  bus?: string;
+}
+
+type TripLean = Pick<
+  ITripLog,
+  "bus" | "driver" | "route" | "timetable" | "scheduledStart" | "startTime" | "endTime" | "status" | "startReason"
+> & { _id: Types.ObjectId };
+
+const emptyCounts = (): ScheduleCounts => ({
+  planned: 0,
+  on_time: 0,
+  late: 0,
+  missed: 0,
+  cancelled: 0,
+  upcoming: 0,
+  extra: 0,
+});
+
+const idOrNull = (id: unknown): string | null => (id ? String(id) : null);
+
+/**
+ * Midnight (local) of a "YYYY-MM-DD" string, or of today
+ */
+export function parseDay(value?: string): Date {
+  if (value === undefined) {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return today;
+  }
+  const [, year, month, date] = (/^(\d{4})-(\d{2})-(\d{2})$/.exec(value) ?? []).map(Number);
+  const day = new Date(year ?? NaN, (month ?? NaN) - 1, date);
+  // Rejects overflowing dates such as 2024-02-31 too
+  if (day.getMonth() !== (month ?? 0) - 1 || day.getDate() !== date) {
+    throw new AppError("Dates must be YYYY-MM-DD", 400);
+  }
+  return day;
+}
+
+export const addDays = (day: Date, days: number): Date =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate() + days);
+
+export const dayKey = (day: Date): string =>
+  `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, "0")}-${String(day.getDate()).padStart(2, "0")}`;
+
+/**
+ * Planned departure of a timetable on `day`, or null when it doesn't run that day
+ */
+export function plannedStart(timetable: Pick<ITimetable, "departureTime" | "daysOfWeek">, day: Date): Date | null {
+  if (!timetable.daysOfWeek.includes(day.getDay())) return null;
+  const [hours, minutes] = timetable.departureTime.split(":").map(Number);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+}
+
+function outcomeOf(trip: TripLean, now: Date): RunOutcome {
+  const scheduledStart = trip.scheduledStart!;
+  if (trip.status === "scheduled") {
+    return now.getTime() > scheduledStart.getTime() + SCHEDULE_MATCH_WINDOW_MINUTES * 60_000 ? "missed" : "upcoming";
+  }
+  if (!trip.startReason) return "cancelled"; // cancelled before it departed
+  const delayMinutes = (trip.startTime.getTime() - scheduledStart.getTime()) / 60_000;
+  return delayMinutes > SCHEDULE_LATE_MINUTES ? "late" : "on_time";
+}
+
+function toPlannedRun(trip: TripLean, now: Date): PlannedRun {
+  const departed = Boolean(trip.startReason);
+  return {
+    tripId: String(trip._id),
+    timetable: idOrNull(trip.timetable),
+    route: idOrNull(trip.route),
+    bus: String(trip.bus),
+    driver: idOrNull(trip.driver),
+    scheduledStart: trip.scheduledStart!,
+    actualStart: departed ? trip.startTime : null,
+    delayMinutes: departed ? Math.round((trip.startTime.getTime() - trip.scheduledStart!.getTime()) / 60_000) : null,
+    status: trip.status,
+    outcome: outcomeOf(trip, now),
+  };
+}
+
+function toExtraRun(trip: TripLean): ExtraRun {
+  return {
+    tripId: String(trip._id),
+    route: idOrNull(trip.route),
+    bus: String(trip.bus),
+    driver: idOrNull(trip.driver),
+    startTime: trip.startTime,
+    endTime: trip.endTime ?? null,
+    status: trip.status,
+  };
+}
+
+const TRIP_FIELDS = "bus driver route timetable scheduledStart startTime endTime status startReason";
+
+async function findRuns({ from, to, route, bus }: PlannedVsActualQuery): Promise<{ planned: TripLean[]; extra: TripLean[] }> {
+  const scope = { ...(route ? { route } : {}), ...(bus ? { bus } : {}) };
+  const [planned, extra] = await Promise.all([
+    TripLog.find({ ...scope, timetable: { $exists: true }, scheduledStart: { $gte: from, $lt: to } })
+      .select(TRIP_FIELDS)
+      .sort({ scheduledStart: 1 })
+      .lean<TripLean[]>(),
+    TripLog.find({ ...scope, timetable: { $exists: false }, startTime: { $gte: from, $lt: to } })
+      .select(TRIP_FIELDS)
+      .sort({ startTime: 1 })
+      .lean<TripLean[]>(),
+  ]);
+  return { planned, extra };
+}
+
+export const TripSchedule = {
+  /**
+   * Scheduled trips for every active timetable running on `day`. Idempotent: runs that
+   * already exist (in any status) are left alone. `notBefore` skips departures before it.
+   */
+  async generateForDay(day: Date, { notBefore, timetableId }: { notBefore?: Date; timetableId?: string } = {}) {
+    const timetables = await Timetable.find({ active: true, ...(timetableId ? { _id: timetableId } : {}) }).lean();
+
+    const ops: AnyBulkWriteOperation<ITripLog>[] = [];
+    for (const timetable of timetables) {
+      const scheduledStart = plannedStart(timetable, day);
+      if (!scheduledStart || (notBefore && scheduledStart < notBefore)) continue;
+
+      ops.push({
+        updateOne: {
+          filter: { timetable: timetable._id, scheduledStart },
+          update: {
+            $setOnInsert: {
+              timetable: timetable._id,
+              scheduledStart,
+              startTime: scheduledStart,
+              bus: timetable.bus,
+              route: timetable.route,
+              ...(timetable.driver ? { driver: timetable.driver } : {}),
+              status: "scheduled",
+            },
+          },
+          upsert: true,
+        },
+      });
+    }
+    if (!ops.length) return { timetables: timetables.length, created: 0 };
+
+    let created: number;
+    try {
+      created = (await TripLog.bulkWrite(ops, { ordered: false })).upsertedCount;
+    } catch (err) {
+      // Another API process generated some of the same runs at the same time
+      const bulk = err as { code?: number; result?: { upsertedCount?: number } };
+      if (bulk.code !== 11000) throw err;
+      created = bulk.result?.upsertedCount ?? 0;
+    }
+    if (created) console.log(`🗓️ Scheduled ${created} trips for ${dayKey(day)}`);
+    return { timetables: timetables.length, created };
+  },
+
+  /**
+   * A timetable changed or was deleted: today's runs that haven't left yet follow it –
+   * runs at a time it no longer has are cancelled, the rest take its bus / driver / route.
+   */
+  async refreshToday(timetableId: string, timetable: ITimetable | null): Promise<void> {
+    const now = new Date();
+    const today = parseDay();
+    const upcoming = await TripLog.find({
+      timetable: timetableId,
+      status: "scheduled",
+      scheduledStart: { $gte: now, $lt: addDays(today, 1) },
+    });
+
+    const keep = timetable?.active ? plannedStart(timetable, today) : null;
+    for (const run of upcoming) {
+      if (keep && run.scheduledStart!.getTime() === keep.getTime()) {
+        await TripLog.updateOne(
+          { _id: run._id, status: "scheduled" },
+          timetable!.driver
+            ? { $set: { bus: timetable!.bus, route: timetable!.route, driver: timetable!.driver } }
+            : { $set: { bus: timetable!.bus, route: timetable!.route }, $unset: { driver: 1 } }
+        );
+        continue;
+      }
+      try {
+        await TripLifecycle.close(run, "cancelled", { reason: "manual" });
+      } catch (err) {
+        if (!(err instanceof AppError)) throw err; // departed meanwhile
+      }
+    }
+
+    if (keep) await TripSchedule.generateForDay(today, { notBefore: now, timetableId });
+  },
+
+  /**
+   * Every scheduled run in [from, to) with its outcome, plus the trips that ran without one
+   */
+  async plannedVsActual(query: PlannedVsActualQuery) {
+    const now = new Date();
+    const { planned, extra } = await findRuns(query);
+
+    const runs = planned.map((trip) => toPlannedRun(trip, now));
+    const summary = emptyCounts();
+    summary.planned = runs.length;
+    summary.extra = extra.length;
+    for (const run of runs) summary[run.outcome]++;
+
+    return { summary, runs, extra: extra.map(toExtraRun) };
+  },
+
+  /**
+   * Outcome counts per day and route in [from, to)
+   */
+  async summary(query: PlannedVsActualQuery) {
+    const now = new Date();
+    const { planned, extra } = await findRuns(query);
+
+    const rows = new Map<string, { date: string; route: string | null } & ScheduleCounts>();
+    const rowOf = (date: Date, route: unknown) => {
+      const key = `${dayKey(date)}|${idOrNull(route)}`;
+      let row = rows.get(key);
+      if (!row) {
+        row = { date: dayKey(date), route: idOrNull(route), ...emptyCounts() };
+        rows.set(key, row);
+      }
+      return row;
+    };
+
+    const totals = emptyCounts();
+    for (const trip of planned) {
+      const outcome = outcomeOf(trip, now);
+      const row = rowOf(trip.scheduledStart!, trip.route);
+      row.planned++;
+      row[outcome]++;
+      totals.planned++;
+      totals[outcome]++;
+    }
+    for (const trip of extra) {
+      rowOf(trip.startTime, trip.route).extra++;
+      totals.extra++;
+    }
+
+    const days = [...rows.values()].sort((a, b) => a.date.localeCompare(b.date) || String(a.route).localeCompare(String(b.route)));
+    return { totals, days };
+  },
+};
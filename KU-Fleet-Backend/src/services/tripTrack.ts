@@ -0,0 +1,198 @@
+// src/services/tripTrack.ts
+import { FilterQuery, Types } from "mongoose";
+import TripLog, { ITripLog } from "../models/TripLog.model";
+import TripSegment, { ITripSegmentPoint } from "../models/TripSegment.model";
+import { haversineMeters, pathDistanceMeters } from "../utils/geo";
+
+/**
+ * TripTrack
+ * A trip's fixes, stored in TripSegment documents of TRIP_SEGMENT_MINUTES each instead
+ * of one ever-growing array on the TripLog (a full day at 10 s fixes nears the document
+ * size limit and makes every trip read heavy).
+ *
+ * A fix goes into the segment of its time bucket, so late (backfilled) fixes land in
+ * place. Each segment keeps its points in time order, one per timestamp, with its own
+ * distance and speed figures; the trip's totals are summed from those.
+ */
+
+const TRIP_SEGMENT_MINUTES = Number(process.env.TRIP_SEGMENT_MINUTES ?? 5);
+const BUCKET_MS = TRIP_SEGMENT_MINUTES * 60_000;
+
+export type TrackPoint = ITripSegmentPoint;
+
+export interface TrackStats {
+  pointCount: number;
+  distanceMeters: number;
+  maxSpeed: number;
+}
+
+type TripRef = { _id: Types.ObjectId | string; bus: Types.ObjectId | string; route?: Types.ObjectId | string | null };
+
+const isDuplicateKey = (err: unknown): boolean => (err as { code?: number })?.code === 11000;
+
+// Time order, one point per timestamp (the same fix can arrive twice)
+function normalize(points: TrackPoint[]): TrackPoint[] {
+  const byTime = new Map<number, TrackPoint>();
+  for (const p of points) byTime.set(p.timestamp.getTime(), p);
+  return [...byTime.values()].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+function segmentStats(points: TrackPoint[]) {
+  const distanceMeters = pathDistanceMeters(points);
+  const durationSec = (points[points.length - 1]!.timestamp.getTime() - points[0]!.timestamp.getTime()) / 1000;
+  const speeds = points.map((p) => p.speed ?? 0);
+  return {
+    distanceMeters,
+    avgSpeed:
+      durationSec > 0 ? distanceMeters / 1000 / (durationSec / 3600) : speeds.reduce((a, b) => a + b, 0) / speeds.length,
+    maxSpeed: Math.max(...speeds),
+  };
+}
+
+export const TripTrack = {
+  /**
+   * Add fixes to a trip's track, counting the new ones on the TripLog (`pointCount`) and
+   * keeping its newest fix time (`lastFixAt`). Returns the number of new fixes; ones
+   * already in the track are skipped.
+   */
+  async append(tripOrId: TripRef | string, points: TrackPoint[]): Promise<number> {
+    const valid = points.filter((p) => p.timestamp instanceof Date && !Number.isNaN(p.timestamp.getTime()));
+    if (!valid.length) return 0;
+
+    const trip =
+      typeof tripOrId === "string" ? await TripLog.findById(tripOrId).select("bus route").lean() : tripOrId;
+    if (!trip) return 0;
+
+    const buckets = new Map<number, TrackPoint[]>();
+    for (const p of valid) {
+      const point: TrackPoint = { lat: p.lat, lng: p.lng, speed: p.speed ?? 0, timestamp: p.timestamp };
+      const bucket = Math.floor(p.timestamp.getTime() / BUCKET_MS) * BUCKET_MS;
+      if (!buckets.has(bucket)) buckets.set(bucket, []);
+      buckets.get(bucket)!.push(point);
+    }
+
+    let added = 0;
+    for (const [bucket, bucketPoints] of buckets) {
+      const sorted = normalize(bucketPoints);
+      const update = {
+        $push: { points: { $each: sorted, $sort: { timestamp: 1 } } },
+        $inc: { pointCount: sorted.length },
+        $min: { startTime: sorted[0]!.timestamp },
+        $max: { endTime: sorted[sorted.length - 1]!.timestamp },
+        $setOnInsert: { bus: trip.bus, ...(trip.route ? { route: trip.route } : {}) },
+      };
+      const filter = { trip: trip._id, bucket: new Date(bucket) };
+
+      let segment;
+      try {
+        segment = await TripSegment.findOneAndUpdate(filter, update, { upsert: true, new: true }).lean();
+      } catch (err) {
+        // Another writer created the segment first: add to it
+        if (!isDuplicateKey(err)) throw err;
+        segment = await TripSegment.findOneAndUpdate(filter, update, { new: true }).lean();
+      }
+      if (!segment) continue;
+
+      // Figures of the segment as written; skipped if another write landed meanwhile (it sets them)
+      const merged = normalize(segment.points);
+      added += Math.max(0, merged.length - (segment.points.length - sorted.length));
+      await TripSegment.updateOne(
+        { _id: segment._id, pointCount: segment.pointCount },
+        {
+          $set: {
+            ...segmentStats(merged),
+            ...(merged.length !== segment.points.length ? { points: merged, pointCount: merged.length } : {}),
+          },
+        }
+      );
+    }
+
+    const newest = new Date(Math.max(...valid.map((p) => p.timestamp.getTime())));
+    await TripLog.updateOne(
+      { _id: trip._id },
+      { $max: { lastFixAt: newest }, ...(added ? { $inc: { pointCount: added } } : {}) }
+    );
+    return added;
+  },
+
+  /**
+   * A trip's fixes in time order, optionally within [from, to]
+   */
+  async points(tripId: Types.ObjectId | string, window: { from?: Date; to?: Date } = {}): Promise<TrackPoint[]> {
+    const filter: FilterQuery<typeof TripSegment> = { trip: tripId };
+    if (window.from) filter.endTime = { $gte: window.from };
+    if (window.to) filter.startTime = { $lte: window.to };
+
+    const segments = await TripSegment.find(filter).select("points").sort({ bucket: 1 }).lean();
+    return segments
+      .flatMap((s) => s.points)
+      .filter((p) => (!window.from || p.timestamp >= window.from) && (!window.to || p.timestamp <= window.to));
+  },
+
+  /**
+   * A trip's fixes within [from, to] plus the last one before and the first one after,
+   * so positions can be interpolated up to the edges of the window
+   */
+  async pointsAround(tripId: Types.ObjectId | string, window: { from: Date; to: Date }): Promise<TrackPoint[]> {
+    const [before, inside, after] = await Promise.all([
+      TripSegment.findOne({ trip: tripId, startTime: { $lt: window.from } }).sort({ bucket: -1 }).select("points").lean(),
+      this.points(tripId, window),
+      TripSegment.findOne({ trip: tripId, endTime: { $gt: window.to } }).sort({ bucket: 1 }).select("points").lean(),
+    ]);
+
+    const previous = before?.points.filter((p) => p.timestamp < window.from).pop();
+    const next = after?.points.find((p) => p.timestamp > window.to);
+    return [...(previous ? [previous] : []), ...inside, ...(next ? [next] : [])];
+  },
+
+  /**
+   * Totals of a trip's track from its segments' figures and the gaps between segments
+   */
+  async stats(tripId: Types.ObjectId | string): Promise<TrackStats> {
+    const segments = await TripSegment.aggregate<{
+      pointCount: number;
+      distanceMeters: number;
+      maxSpeed: number;
+      first: TrackPoint | null;
+      last: TrackPoint | null;
+    }>([
+      { $match: { trip: new Types.ObjectId(String(tripId)) } },
+      { $sort: { bucket: 1 } },
+      {
+        $project: {
+          pointCount: 1,
+          distanceMeters: 1,
+          maxSpeed: 1,
+          first: { $arrayElemAt: ["$points", 0] },
+          last: { $arrayElemAt: ["$points", -1] },
+        },
+      },
+    ]);
+
+    const stats: TrackStats = { pointCount: 0, distanceMeters: 0, maxSpeed: 0 };
+    let previous: TrackPoint | null = null;
+    for (const segment of segments) {
+      stats.pointCount += segment.pointCount;
+      stats.distanceMeters += segment.distanceMeters;
+      stats.maxSpeed = Math.max(stats.maxSpeed, segment.maxSpeed);
+      if (previous && segment.first) {
+        stats.distanceMeters += haversineMeters(previous.lat, previous.lng, segment.first.lat, segment.first.lng);
+      }
+      previous = segment.last ?? previous;
+    }
+    return stats;
+  },
+
+  /**
+   * Delete trips with their tracks
+   */
+  async deleteTrips(filter: FilterQuery<ITripLog>): Promise<number> {
+    const trips = await TripLog.find(filter).select("_id").lean();
+    if (!trips.length) return 0;
+
+    const ids = trips.map((t) => t._id);
+    await TripSegment.deleteMany({ trip: { $in: ids } });
+    const { deletedCount } = await TripLog.deleteMany({ _id: { $in: ids } });
+    return deletedCount;
+  },
+};
@@ -0,0 +1,255 @@
+// src/tcp/commandChannel.ts
+import net from "net";
+import { Redis } from "ioredis";
+import TrackerCommand, {
+  ITrackerCommand,
+  TrackerCommandStatus,
+  TrackerCommandType,
+} from "../models/TrackerCommand.model";
+import { emitToRoom, ROOMS, EVENTS } from "../utils/socketHelper";
+import { redisClient } from "../config/redis";
+import { buildCommandText, decodeCommandReply, encodeServerCommand } from "./gt06Commands";
+
+/**
+ * TrackerCommandChannel
+ * Per-IMEI downlink queue. Holds the live tracker socket, sends one command
+ * at a time and waits for the matching 0x15 reply (or a timeout) before
+ * sending the next. Every command is persisted as a TrackerCommand document,
+ * which doubles as the command history.
+ *
+ * Commands queued in a process without the tracker's connection (e.g. an API
+ * process, see config/serverRole.ts) are announced on Redis so the process
+ * holding the connection sends them.
+ */
+
+const REPLY_TIMEOUT_SEC = Number(process.env.TRACKER_COMMAND_TIMEOUT_SEC ?? 30);
+const QUEUE_TTL_MIN = Number(process.env.TRACKER_COMMAND_QUEUE_TTL_MIN ?? 60);
+const QUEUED_CHANNEL = "tracker:commands:queued";
+
+interface LiveConnection {
+  connectionId: string;
+  socket: net.Socket;
+  serial: number;
+}
+
+interface InFlightCommand {
+  commandId: string;
+  serverFlag: number;
+  timer: NodeJS.Timeout;
+}
+
+export interface EnqueueCommandInput {
+  busId: string;
+  imei: string;
+  type: TrackerCommandType;
+  params?: Record<string, unknown>;
+  requestedBy?: string;
+}
+
+class TrackerCommandChannel {
+  private connections = new Map<string, LiveConnection>();
+  private inFlight = new Map<string, InFlightCommand>();
+  private draining = new Set<string>();
+  private nextServerFlag = Math.floor(Math.random() * 0xffffffff);
+  private subscriber: Redis | null = null;
+
+  /**
+   * Send commands queued by other processes for trackers connected here
+   */
+  async subscribe(): Promise<void> {
+    if (this.subscriber) return;
+    this.subscriber = redisClient.duplicate();
+    this.subscriber.on("message", (channel: string, imei: string) => {
+      if (channel === QUEUED_CHANNEL) void this.drain(imei);
+    });
+    this.subscriber.on("error", (err) => console.error("❌ Tracker command subscriber error:", err));
+    await this.subscriber.subscribe(QUEUED_CHANNEL);
+  }
+
+  /**
+   * Tracker logged in on a socket – flush anything queued while it was away
+   */
+  attach(imei: string, connectionId: string, socket: net.Socket): void {
+    const current = this.connections.get(imei);
+    if (current?.connectionId === connectionId) return;
+
+    this.connections.set(imei, { connectionId, socket, serial: 1 });
+    void this.drain(imei);
+  }
+
+  /**
+   * Socket closed. A command still waiting for its reply is marked failed.
+   */
+  detach(imei: string, connectionId: string): void {
+    const current = this.connections.get(imei);
+    if (!current || current.connectionId !== connectionId) return;
+
+    this.connections.delete(imei);
+
+    const pending = this.inFlight.get(imei);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.inFlight.delete(imei);
+      void this.finish(pending.commandId, "failed", { error: "Connection closed before reply" });
+    }
+  }
+
+  isConnected(imei: string): boolean {
+    return this.connections.has(imei);
+  }
+
+  /**
+   * Validate, persist and queue a command for a tracker
+   */
+  async enqueue(input: EnqueueCommandInput): Promise<ITrackerCommand> {
+    const text = buildCommandText(input.type, input.params);
+
+    const command = await TrackerCommand.create({
+      bus: input.busId,
+      imei: input.imei,
+      type: input.type,
+      params: input.params,
+      text,
+      serverFlag: this.allocateServerFlag(),
+      status: "queued",
+      requestedBy: input.requestedBy,
+    });
+
+    this.announce(command);
+    if (this.isConnected(input.imei)) {
+      void this.drain(input.imei);
+    } else {
+      // Stays queued (sent on reconnect) if the announcement is lost
+      await redisClient.publish(QUEUED_CHANNEL, input.imei).catch((err) => {
+        console.warn("⚠️ Tracker command announcement failed:", err);
+      });
+    }
+
+    return command;
+  }
+
+  /**
+   * Terminal 0x15 / 0x21 reply. Returns false if the frame is not a command reply.
+   */
+  async handleReply(imei: string, frame: Buffer): Promise<boolean> {
+    const reply = decodeCommandReply(frame);
+    if (!reply) return false;
+
+    console.log("📬 Tracker command reply:", { imei, serverFlag: reply.serverFlag, text: reply.text });
+
+    const pending = this.inFlight.get(imei);
+    if (pending && pending.serverFlag === reply.serverFlag) {
+      clearTimeout(pending.timer);
+      this.inFlight.delete(imei);
+      await this.finish(pending.commandId, "acknowledged", { response: reply.text });
+      void this.drain(imei);
+      return true;
+    }
+
+    // Late reply to a command that already timed out
+    const late = await TrackerCommand.findOneAndUpdate(
+      { imei, serverFlag: reply.serverFlag, status: { $in: ["sent", "timeout"] } },
+      { status: "acknowledged", response: reply.text, respondedAt: new Date() },
+      { new: true }
+    );
+    if (late) this.announce(late);
+    else console.warn("⚠️ Unmatched tracker command reply:", { imei, serverFlag: reply.serverFlag });
+
+    return true;
+  }
+
+  /**
+   * Send the oldest queued command if the tracker is connected and idle
+   */
+  private async drain(imei: string): Promise<void> {
+    if (this.draining.has(imei) || this.inFlight.has(imei)) return;
+    if (!this.connections.has(imei)) return;
+
+    this.draining.add(imei);
+    try {
+      await this.expireStale(imei);
+
+      const command = await TrackerCommand.findOne({ imei, status: "queued" }).sort({ createdAt: 1 });
+      if (!command) return;
+
+      // Mark as sent before writing so a fast reply cannot be overwritten
+      command.status = "sent";
+      command.sentAt = new Date();
+      await command.save();
+
+      // Connection may have dropped while we were talking to Mongo
+      const live = this.connections.get(imei);
+      if (!live || live.socket.destroyed) {
+        await this.finish(String(command._id), "failed", { error: "Tracker disconnected before send" });
+        return;
+      }
+
+      const packet = encodeServerCommand(command.text, command.serverFlag, live.serial++);
+      const commandId = String(command._id);
+      const timer = setTimeout(() => {
+        this.inFlight.delete(imei);
+        void this.finish(commandId, "timeout", { error: `No reply within ${REPLY_TIMEOUT_SEC}s` })
+          .then(() => this.drain(imei));
+      }, REPLY_TIMEOUT_SEC * 1000);
+
+      this.inFlight.set(imei, { commandId, serverFlag: command.serverFlag, timer });
+      live.socket.write(packet);
+      this.announce(command);
+
+      console.log("📤 Tracker command sent:", {
+        imei,
+        type: command.type,
+        text: command.text,
+        hex: packet.toString("hex"),
+      });
+    } catch (err) {
+      console.error("❌ Tracker command drain failed:", err);
+    } finally {
+      this.draining.delete(imei);
+    }
+  }
+
+  private async expireStale(imei: string): Promise<void> {
+    const cutoff = new Date(Date.now() - QUEUE_TTL_MIN * 60 * 1000);
+    await TrackerCommand.updateMany(
+      { imei, status: "queued", createdAt: { $lt: cutoff } },
+      { status: "expired", error: `Tracker did not connect within ${QUEUE_TTL_MIN} minutes` }
+    );
+  }
+
+  private async finish(
+    commandId: string,
+    status: TrackerCommandStatus,
+    fields: { response?: string; error?: string }
+  ): Promise<void> {
+    try {
+      const update: Record<string, unknown> = { status, ...fields };
+      if (status === "acknowledged") update.respondedAt = new Date();
+
+      const command = await TrackerCommand.findByIdAndUpdate(commandId, update, { new: true });
+      if (command) this.announce(command);
+    } catch (err) {
+      console.error("❌ Tracker command update failed:", err);
+    }
+  }
+
+  private allocateServerFlag(): number {
+    this.nextServerFlag = (this.nextServerFlag + 1) >>> 0;
+    return this.nextServerFlag;
+  }
+
+  private announce(command: ITrackerCommand): void {
+    emitToRoom(ROOMS.ADMINS, EVENTS.TRACKER_COMMAND_UPDATED, {
+      commandId: String(command._id),
+      busId: String(command.bus),
+      imei: command.imei,
+      type: command.type,
+      status: command.status,
+      response: command.response,
+      error: command.error,
+      timestamp: new Date(),
+    });
+  }
+}
+
+export const commandChannel = new TrackerCommandChannel();
@@ -0,0 +1,119 @@
+// src/tcp/gt06Commands.ts
+import { crc16Itu } from "../utils/crc16";
+import { TrackerCommandType } from "../models/TrackerCommand.model";
+import { AppError } from "../middleware/errorHandler";
+
+/**
+ * GT06 downlink (server → terminal) command encoding.
+ *
+ * 0x80 server command:
+ *   0x7878 | len | 0x80 | cmdLen | serverFlag (4) | ASCII command | serial (2) | crc (2) | 0x0D0A
+ * `cmdLen` covers the server flag plus the command text.
+ *
+ * The terminal answers with 0x15 (or 0x21 on 0x7979 frames) echoing the
+ * same server flag, which is how a reply is matched back to its request.
+ */
+
+export const PROTOCOL_SERVER_COMMAND = 0x80;
+export const PROTOCOL_COMMAND_REPLY = 0x15;
+export const PROTOCOL_COMMAND_REPLY_LONG = 0x21;
+
+const MAX_COMMAND_TEXT = 200;
+
+/**
+ * Map an API command type to the ASCII command understood by GT06 firmware
+ */
+export function buildCommandText(type: TrackerCommandType, params: Record<string, unknown> = {}): string {
+  switch (type) {
+    case "setInterval": {
+      const seconds = Number(params.seconds);
+      if (!Number.isInteger(seconds) || seconds < 5 || seconds > 3600) {
+        throw new AppError("params.seconds must be an integer between 5 and 3600", 400);
+      }
+      return `TIMER,${seconds}#`;
+    }
+    case "requestLocation":
+      return "WHERE#";
+    case "reboot":
+      return "RESET#";
+    case "cutFuel":
+      return "RELAY,1#";
+    case "restoreFuel":
+      return "RELAY,0#";
+    case "custom": {
+      const text = typeof params.text === "string" ? params.text.trim() : "";
+      if (!text) throw new AppError("params.text is required for custom commands", 400);
+      if (text.length > MAX_COMMAND_TEXT || !/^[\x20-\x7e]+$/.test(text)) {
+        throw new AppError(`params.text must be printable ASCII, max ${MAX_COMMAND_TEXT} chars`, 400);
+      }
+      return text;
+    }
+    default:
+      throw new AppError(`Unknown command type: ${String(type)}`, 400);
+  }
+}
+
+/**
+ * Encode a 0x80 server command packet
+ */
+export function encodeServerCommand(text: string, serverFlag: number, serial: number): Buffer {
+  const content = Buffer.from(text, "ascii");
+  const cmdLen = 4 + content.length;
+  // protocol + cmdLen byte + flag/content + serial + crc
+  const bodyLen = 1 + 1 + cmdLen + 2 + 2;
+
+  const packet = Buffer.alloc(3 + bodyLen + 2);
+  let offset = 0;
+  packet.writeUInt16BE(0x7878, offset); offset += 2;
+  packet.writeUInt8(bodyLen, offset); offset += 1;
+  packet.writeUInt8(PROTOCOL_SERVER_COMMAND, offset); offset += 1;
+  packet.writeUInt8(cmdLen, offset); offset += 1;
+  packet.writeUInt32BE(serverFlag >>> 0, offset); offset += 4;
+  content.copy(packet, offset); offset += content.length;
+  packet.writeUInt16BE(serial & 0xffff, offset); offset += 2;
+  packet.writeUInt16BE(crc16Itu(packet.subarray(2, offset)), offset); offset += 2;
+  packet.writeUInt16BE(0x0d0a, offset);
+
+  return packet;
+}
+
+export interface CommandReply {
+  serverFlag: number;
+  text: string;
+}
+
+/**
+ * Protocol number of a framed packet (works for both start bit variants)
+ */
+export function frameProtocol(frame: Buffer): number | undefined {
+  return frame[0] === 0x79 ? frame[4] : frame[3];
+}
+
+/**
+ * Decode a terminal 0x15 / 0x21 reply frame. Returns null for any other frame.
+ */
+export function decodeCommandReply(frame: Buffer): CommandReply | null {
+  const isLong = frame[0] === 0x79;
+  const protocol = frameProtocol(frame);
+  const expected = isLong ? PROTOCOL_COMMAND_REPLY_LONG : PROTOCOL_COMMAND_REPLY;
+  if (protocol !== expected) return null;
+
+  // 0x7878: start(2) len(1) proto(1) | 0x7979: start(2) len(2) proto(1)
+  const offset = isLong ? 5 : 4;
+  // trailing serial(2) + crc(2) + stop(2)
+  const end = frame.length - 6;
+
+  if (isLong) {
+    // 0x21: serverFlag(4) | encoding(1) | content
+    if (end < offset + 5) return null;
+    const serverFlag = frame.readUInt32BE(offset);
+    return { serverFlag, text: frame.subarray(offset + 5, end).toString("ascii") };
+  }
+
+  // 0x15: cmdLen(1) | serverFlag(4) | content | [language(2)]
+  if (end < offset + 5) return null;
+  const cmdLen = frame[offset]!;
+  const serverFlag = frame.readUInt32BE(offset + 1);
+  const textEnd = Math.min(offset + 1 + cmdLen, end);
+  return { serverFlag, text: frame.subarray(offset + 5, textEnd).toString("ascii") };
+}
@@ -0,0 +1,154 @@
+// src/tcp/gt06Framer.ts
+import { crc16Itu } from "../utils/crc16";
+
+/**
+ * Gt06Framer
+ * Per-connection stream reassembly for GT06 packets.
+ *
+ * TCP gives us arbitrary chunks: a packet can be split across several
+ * `data` events, or several packets can arrive glued together. The framer
+ * buffers bytes, cuts complete frames on the 0x7878 / 0x7979 start bits and
+ * 0x0D0A stop bits, verifies the CRC and only hands back whole frames.
+ *
+ * Frame layout:
+ *   0x7878 | len (1 byte) | protocol .. serial | crc (2) | 0x0D0A
+ *   0x7979 | len (2 bytes) | protocol .. serial | crc (2) | 0x0D0A
+ * `len` counts from the protocol number up to and including the CRC.
+ */
+
+const START_SHORT = 0x78;
+const START_LONG = 0x79;
+const STOP = Buffer.from([0x0d, 0x0a]);
+
+const MAX_FRAME_BYTES = Number(process.env.GT06_MAX_FRAME_BYTES ?? 1024);
+const MAX_PENDING_BYTES = Number(process.env.GT06_MAX_PENDING_BYTES ?? 8192);
+
+export type RejectReason = "garbage" | "bad_length" | "bad_stop_bits" | "bad_crc" | "overflow";
+
+export interface RejectedFrame {
+  reason: RejectReason;
+  bytes: Buffer;
+}
+
+export interface FramerStats {
+  framesOk: number;
+  framesBad: number;
+  bytesDiscarded: number;
+  badByReason: Record<RejectReason, number>;
+}
+
+export function emptyFramerStats(): FramerStats {
+  return {
+    framesOk: 0,
+    framesBad: 0,
+    bytesDiscarded: 0,
+    badByReason: { garbage: 0, bad_length: 0, bad_stop_bits: 0, bad_crc: 0, overflow: 0 },
+  };
+}
+
+export interface FramerResult {
+  frames: Buffer[];
+  rejected: RejectedFrame[];
+}
+
+export class Gt06Framer {
+  private pending: Buffer = Buffer.alloc(0);
+
+  readonly stats: FramerStats = emptyFramerStats();
+
+  /**
+   * Feed a raw TCP chunk, get back every frame it completed
+   */
+  push(chunk: Buffer): FramerResult {
+    const frames: Buffer[] = [];
+    const rejected: RejectedFrame[] = [];
+
+    this.pending = this.pending.length ? Buffer.concat([this.pending, chunk]) : chunk;
+
+    while (this.pending.length > 0) {
+      const start = findStart(this.pending);
+
+      // No start bits at all – keep a trailing 0x78/0x79 in case the pair is split
+      if (start === -1) {
+        const last = this.pending[this.pending.length - 1];
+        const keep = last === START_SHORT || last === START_LONG ? 1 : 0;
+        this.reject(rejected, "garbage", this.pending.subarray(0, this.pending.length - keep));
+        this.pending = this.pending.subarray(this.pending.length - keep);
+        break;
+      }
+
+      if (start > 0) {
+        this.reject(rejected, "garbage", this.pending.subarray(0, start));
+        this.pending = this.pending.subarray(start);
+      }
+
+      const isLong = this.pending[0] === START_LONG;
+      const headerLen = isLong ? 4 : 3;
+      if (this.pending.length < headerLen) break;
+
+      const bodyLen = isLong ? this.pending.readUInt16BE(2) : this.pending[2]!;
+      const total = headerLen + bodyLen + STOP.length;
+
+      if (total > MAX_FRAME_BYTES || bodyLen < 5) {
+        // Not a real header – drop the start bits and resync
+        this.reject(rejected, "bad_length", this.pending.subarray(0, 2));
+        this.pending = this.pending.subarray(2);
+        continue;
+      }
+
+      if (this.pending.length < total) break;
+
+      const frame = this.pending.subarray(0, total);
+
+      if (!frame.subarray(total - 2).equals(STOP)) {
+        this.reject(rejected, "bad_stop_bits", frame.subarray(0, 2));
+        this.pending = this.pending.subarray(2);
+        continue;
+      }
+
+      this.pending = this.pending.subarray(total);
+
+      const expected = frame.readUInt16BE(total - 4);
+      const actual = crc16Itu(frame.subarray(2, total - 4));
+      if (expected !== actual) {
+        this.reject(rejected, "bad_crc", frame);
+        continue;
+      }
+
+      this.stats.framesOk++;
+      frames.push(Buffer.from(frame));
+    }
+
+    // Guard against a peer that never sends a complete frame
+    if (this.pending.length > MAX_PENDING_BYTES) {
+      this.reject(rejected, "overflow", this.pending);
+      this.pending = Buffer.alloc(0);
+    }
+
+    return { frames, rejected };
+  }
+
+  /**
+   * Bytes waiting for the rest of a frame
+   */
+  get pendingBytes(): number {
+    return this.pending.length;
+  }
+
+  private reject(rejected: RejectedFrame[], reason: RejectReason, bytes: Buffer): void {
+    if (bytes.length === 0) return;
+
+    this.stats.framesBad++;
+    this.stats.badByReason[reason]++;
+    this.stats.bytesDiscarded += bytes.length;
+    rejected.push({ reason, bytes: Buffer.from(bytes) });
+  }
+}
+
+function findStart(buf: Buffer): number {
+  for (let i = 0; i < buf.length - 1; i++) {
+    const b = buf[i];
+    if ((b === START_SHORT || b === START_LONG) && buf[i + 1] === b) return i;
+  }
+  return -1;
+}
@@ -0,0 +1,93 @@
+// src/tcp/gt06Status.ts
+import { TerminalInfo, TrackerAlarm } from "../services/gpsHandler";
+import { frameProtocol } from "./gt06Commands";
+
+/**
+ * GT06 terminal status decoding (0x13 status / heartbeat and 0x16 alarm packets).
+ *
+ * Status block: terminal info (1) | voltage level (1) | GSM signal (1) | alarm (1) | language (1)
+ *   0x13: right after the protocol byte
+ *   0x16: after GPS (18) and LBS (9) blocks
+ *
+ * The gt06 package only decodes this block for 0x13 (voltage / GSM as text) and
+ * hands back raw numbers for 0x16, so both are decoded here from the frame.
+ */
+
+export const PROTOCOL_STATUS = 0x13;
+export const PROTOCOL_ALARM = 0x16;
+
+// Alarm byte of the status block
+export const GT06_ALARM_CODES: Record<TrackerAlarm, number> = {
+  sos: 0x01,
+  powerCut: 0x02,
+  vibration: 0x03,
+  geofenceIn: 0x04,
+  geofenceOut: 0x05,
+  overspeed: 0x06,
+  displacement: 0x09,
+  lowBattery: 0x0e,
+};
+
+// Alarm bits (3..5) of the terminal information byte, older firmware only sets these
+export const GT06_TERMINAL_ALARM_BITS: Partial<Record<TrackerAlarm, number>> = {
+  vibration: 1,
+  powerCut: 2,
+  lowBattery: 3,
+  sos: 4,
+};
+
+const ALARM_BY_CODE = new Map(
+  Object.entries(GT06_ALARM_CODES).map(([alarm, code]) => [code, alarm as TrackerAlarm])
+);
+const ALARM_BY_BITS = new Map(
+  Object.entries(GT06_TERMINAL_ALARM_BITS).map(([alarm, bits]) => [bits, alarm as TrackerAlarm])
+);
+
+// Legacy alarmType strings (gt06 package / H02) → normalised alarm
+export const LEGACY_ALARM_TYPES: Record<string, TrackerAlarm> = {
+  sos: "sos",
+  shock: "vibration",
+  "power cut": "powerCut",
+  "low battery": "lowBattery",
+};
+
+export interface Gt06StatusBlock {
+  terminalInfo: TerminalInfo;
+  voltageLevel: number;
+  gsmSignal: number;
+  alarm: TrackerAlarm | null;
+}
+
+// gt06 package wording of the terminal info alarm bits, kept for terminalInfo.alarmType
+const ALARM_TYPE_BY_BITS: Record<number, string> = { 1: "shock", 2: "power cut", 3: "low battery", 4: "sos" };
+
+export function decodeTerminalInfo(byte: number): TerminalInfo {
+  return {
+    status: Boolean(byte & 0x01),
+    ignition: Boolean(byte & 0x02),
+    charging: Boolean(byte & 0x04),
+    alarmType: ALARM_TYPE_BY_BITS[(byte & 0x38) >> 3] ?? "normal",
+    gpsTracking: Boolean(byte & 0x40),
+    relayState: Boolean(byte & 0x80),
+  };
+}
+
+/**
+ * Decode the status block of a 0x13 / 0x16 frame, null for any other frame
+ */
+export function decodeGt06Status(frame: Buffer): Gt06StatusBlock | null {
+  const protocol = frameProtocol(frame);
+  const offset = protocol === PROTOCOL_STATUS ? 4 : protocol === PROTOCOL_ALARM ? 4 + 18 + 9 : -1;
+  if (offset < 0 || frame[0] !== 0x78 || frame.length < offset + 4 + 6) return null;
+
+  const info = frame[offset]!;
+  const terminalInfo = decodeTerminalInfo(info);
+  const alarm = ALARM_BY_CODE.get(frame[offset + 3]!) ?? ALARM_BY_BITS.get((info & 0x38) >> 3) ?? null;
+
+  return {
+    terminalInfo,
+    voltageLevel: frame[offset + 1]!,
+    gsmSignal: frame[offset + 2]!,
+    alarm,
+  };
+}
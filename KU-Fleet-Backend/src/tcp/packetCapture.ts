@@ -0,0 +1,163 @@
+// src/tcp/packetCapture.ts
+import fs from "fs";
+import path from "path";
+import { ProtocolName } from "./protocols";
+
+/**
+ * Optional raw packet capture sink.
+ *
+ * Enabled by PACKET_CAPTURE_DIR. Every chunk a tracker sends is appended as one
+ * JSON line to <dir>/<imei>/<imei>-<yyyymmdd>-<n>.jsonl, exactly as it came off
+ * the socket (split / glued frames included), so a capture can be replayed
+ * through the same decoder with `npm run replay`.
+ *
+ * Chunks received before the tracker identifies itself are held per connection
+ * and flushed once the IMEI is known; connections that never log in are written
+ * under "unknown".
+ */
+
+const CAPTURE_DIR = process.env.PACKET_CAPTURE_DIR;
+const MAX_FILE_BYTES = Number(process.env.PACKET_CAPTURE_MAX_FILE_MB ?? 10) * 1024 * 1024;
+const MAX_FILES_PER_IMEI = Number(process.env.PACKET_CAPTURE_MAX_FILES ?? 20);
+const MAX_PENDING_CHUNKS = 64;
+
+export const UNKNOWN_IMEI = "unknown";
+
+export interface CaptureRecord {
+  ts: string; // ISO time the chunk was received
+  conn: string; // connection id, one decoder per connection on replay
+  protocol: ProtocolName | null;
+  remote?: string;
+  hex: string;
+}
+
+interface CaptureFile {
+  stream: fs.WriteStream;
+  path: string;
+  day: string;
+  bytes: number;
+}
+
+class PacketCapture {
+  private files = new Map<string, CaptureFile>();
+  private pending = new Map<string, CaptureRecord[]>();
+
+  constructor(private readonly dir: string | undefined) {}
+
+  get enabled(): boolean {
+    return Boolean(this.dir);
+  }
+
+  /**
+   * Record a raw chunk. `imei` is null until the connection has identified itself.
+   */
+  record(imei: string | null, record: Omit<CaptureRecord, "ts">, at = new Date()): void {
+    if (!this.enabled) return;
+
+    const entry: CaptureRecord = { ts: at.toISOString(), ...record };
+
+    if (!imei) {
+      const held = this.pending.get(record.conn) ?? [];
+      held.push(entry);
+      // Never hold an unbounded amount for a peer that never logs in
+      if (held.length > MAX_PENDING_CHUNKS) {
+        this.pending.delete(record.conn);
+        held.forEach((r) => this.write(UNKNOWN_IMEI, r));
+        return;
+      }
+      this.pending.set(record.conn, held);
+      return;
+    }
+
+    this.identify(record.conn, imei);
+    this.write(imei, entry);
+  }
+
+  /**
+   * Flush chunks held for a connection under its IMEI
+   */
+  identify(conn: string, imei: string): void {
+    const held = this.pending.get(conn);
+    if (!held) return;
+    this.pending.delete(conn);
+    held.forEach((r) => this.write(imei, r));
+  }
+
+  /**
+   * Connection closed – anything still held belongs to an unidentified peer
+   */
+  closeConnection(conn: string): void {
+    const held = this.pending.get(conn);
+    if (!held) return;
+    this.pending.delete(conn);
+    held.forEach((r) => this.write(UNKNOWN_IMEI, r));
+  }
+
+  async shutdown(): Promise<void> {
+    const closing = [...this.files.values()].map(
+      (f) => new Promise<void>((resolve) => f.stream.end(resolve))
+    );
+    this.files.clear();
+    await Promise.all(closing);
+  }
+
+  private write(imei: string, record: CaptureRecord): void {
+    const line = JSON.stringify(record) + "\n";
+    const file = this.fileFor(imei, record.ts.slice(0, 10).replace(/-/g, ""));
+    file.stream.write(line);
+    file.bytes += Buffer.byteLength(line);
+  }
+
+  // ───────── ROTATION ─────────
+  private fileFor(imei: string, day: string): CaptureFile {
+    const current = this.files.get(imei);
+    if (current && current.day === day && current.bytes < MAX_FILE_BYTES) return current;
+
+    current?.stream.end();
+
+    const imeiDir = path.join(this.dir!, safeName(imei));
+    fs.mkdirSync(imeiDir, { recursive: true });
+
+    const prefix = `${safeName(imei)}-${day}-`;
+    const existing = fs.readdirSync(imeiDir).filter((f) => f.startsWith(prefix));
+    const seq = existing.length ? Math.max(...existing.map(fileSeq)) + 1 : 1;
+
+    const filePath = path.join(imeiDir, `${prefix}${seq}.jsonl`);
+    const stream = fs.createWriteStream(filePath, { flags: "a" });
+    stream.on("error", (err) => console.error("❌ Packet capture write failed:", filePath, err.message));
+
+    const file: CaptureFile = { stream, path: filePath, day, bytes: 0 };
+    this.files.set(imei, file);
+    this.prune(imeiDir);
+
+    console.log(`📼 Packet capture file opened: ${filePath}`);
+    return file;
+  }
+
+  private prune(imeiDir: string): void {
+    const files = fs
+      .readdirSync(imeiDir)
+      .filter((f) => f.endsWith(".jsonl"))
+      .sort(compareCaptureFiles);
+
+    for (const old of files.slice(0, Math.max(0, files.length - MAX_FILES_PER_IMEI))) {
+      fs.rmSync(path.join(imeiDir, old), { force: true });
+    }
+  }
+}
+
+function safeName(imei: string): string {
+  return imei.replace(/[^\w-]/g, "_");
+}
+
+function fileSeq(name: string): number {
+  return Number(name.match(/-(\d+)\.jsonl$/)?.[1] ?? 0);
+}
+
+// <imei>-<yyyymmdd>-<n>.jsonl, oldest first
+export function compareCaptureFiles(a: string, b: string): number {
+  const day = (f: string) => f.match(/-(\d{8})-\d+\.jsonl$/)?.[1] ?? "";
+  return day(a).localeCompare(day(b)) || fileSeq(a) - fileSeq(b);
+}
+
+export const packetCapture = new PacketCapture(CAPTURE_DIR);
@@ -0,0 +1,68 @@
+// src/tcp/protocols/gt06.adapter.ts
+import Gt06 from "gt06";
+import { ParsedMessage } from "../../services/gpsHandler";
+import { Gt06Framer } from "../gt06Framer";
+import { PROTOCOL_COMMAND_REPLY, PROTOCOL_COMMAND_REPLY_LONG, frameProtocol } from "../gt06Commands";
+import { decodeGt06Status } from "../gt06Status";
+import { DecodeResult, ProtocolAdapter, ProtocolDecoder, emptyDecodeResult } from "./types";
+
+/**
+ * GT06 (Concox) binary protocol – framing by Gt06Framer, parsing by the gt06 package.
+ */
+class Gt06Decoder implements ProtocolDecoder {
+  readonly protocol = "gt06" as const;
+  private parser = new Gt06();
+  private framer = new Gt06Framer();
+
+  get stats() {
+    return this.framer.stats;
+  }
+
+  decode(chunk: Buffer): DecodeResult {
+    const result = emptyDecodeResult();
+    const { frames, rejected } = this.framer.push(chunk);
+    result.rejected.push(...rejected);
+
+    for (const frame of frames) {
+      // Replies to our 0x80 commands – the gt06 parser does not know them
+      const protocol = frameProtocol(frame);
+      if (protocol === PROTOCOL_COMMAND_REPLY || protocol === PROTOCOL_COMMAND_REPLY_LONG) {
+        result.commandReplies.push(frame);
+        continue;
+      }
+
+      try {
+        this.parser.parse(frame);
+      } catch (e: any) {
+        result.parseErrors.push({
+          error: String(e?.error ?? e?.message ?? e),
+          hex: frame.toString("hex"),
+        });
+        this.parser.clearMsgBuffer();
+        continue;
+      }
+
+      if (this.parser.expectsResponse && this.parser.responseMsg) {
+        result.responses.push(Buffer.from(this.parser.responseMsg));
+      }
+
+      // Numeric voltage / GSM levels and the alarm byte for status + alarm packets
+      const status = decodeGt06Status(frame);
+      for (const msg of this.parser.msgBuffer as unknown as ParsedMessage[]) {
+        result.messages.push(status ? Object.assign(msg, status) : msg);
+      }
+      this.parser.clearMsgBuffer();
+    }
+
+    return result;
+  }
+}
+
+export const gt06Adapter: ProtocolAdapter = {
+  name: "gt06",
+  supportsCommands: true,
+  detect: (head) =>
+    head.length >= 2 &&
+    ((head[0] === 0x78 && head[1] === 0x78) || (head[0] === 0x79 && head[1] === 0x79)),
+  createDecoder: () => new Gt06Decoder(),
+};
@@ -0,0 +1,164 @@
+// src/tcp/protocols/h02.adapter.ts
+import { ParsedMessage, TerminalInfo } from "../../services/gpsHandler";
+import { LEGACY_ALARM_TYPES } from "../gt06Status";
+import { FramerStats, emptyFramerStats, RejectReason } from "../gt06Framer";
+import { DecodeResult, ProtocolAdapter, ProtocolDecoder, emptyDecodeResult } from "./types";
+
+/**
+ * H02 / TK103 text protocol.
+ *
+ *   *HQ,865205030330012,V1,145452,A,2240.55181,N,11358.32389,E,0.00,0,100815,FFFFFBFF#
+ *    |   imei            cmd time  fix lat      ns lon       ew knots course date status
+ *
+ * Only the text variant is supported (messages start with '*' and end with '#').
+ * Status bits are active-low, see processStatus below.
+ */
+
+const MAX_MESSAGE_BYTES = 512;
+const KNOTS_TO_KMH = 1.852;
+
+const HEARTBEAT_COMMANDS = new Set(["LINK", "XT", "HTBT", "NBR"]);
+
+class H02Decoder implements ProtocolDecoder {
+  readonly protocol = "h02" as const;
+  readonly stats: FramerStats = emptyFramerStats();
+  private pending = "";
+
+  decode(chunk: Buffer): DecodeResult {
+    const result = emptyDecodeResult();
+    this.pending += chunk.toString("latin1");
+
+    while (this.pending.length > 0) {
+      const start = this.pending.indexOf("*");
+      if (start === -1) {
+        this.reject(result, "garbage", this.pending);
+        this.pending = "";
+        break;
+      }
+      if (start > 0) {
+        this.reject(result, "garbage", this.pending.slice(0, start));
+        this.pending = this.pending.slice(start);
+      }
+
+      const end = this.pending.indexOf("#");
+      if (end === -1) {
+        if (this.pending.length > MAX_MESSAGE_BYTES) {
+          this.reject(result, "overflow", this.pending);
+          this.pending = "";
+        }
+        break;
+      }
+
+      const text = this.pending.slice(0, end + 1);
+      this.pending = this.pending.slice(end + 1);
+
+      try {
+        result.messages.push(parseH02(text));
+        this.stats.framesOk++;
+      } catch (e: any) {
+        result.parseErrors.push({
+          error: String(e?.message ?? e),
+          hex: Buffer.from(text, "latin1").toString("hex"),
+        });
+      }
+    }
+
+    return result;
+  }
+
+  private reject(result: DecodeResult, reason: RejectReason, text: string): void {
+    if (!text.trim()) return;
+    const bytes = Buffer.from(text, "latin1");
+    this.stats.framesBad++;
+    this.stats.badByReason[reason]++;
+    this.stats.bytesDiscarded += bytes.length;
+    result.rejected.push({ reason, bytes });
+  }
+}
+
+/**
+ * Parse a single "*...#" message into the shared ParsedMessage shape
+ */
+export function parseH02(text: string): ParsedMessage {
+  const fields = text.slice(1, -1).split(",");
+  const [, imei, command] = fields;
+
+  if (!imei || !/^\d{10,16}$/.test(imei)) throw new Error(`Invalid H02 IMEI: ${imei}`);
+  if (!command) throw new Error("Missing H02 command");
+
+  if (HEARTBEAT_COMMANDS.has(command)) {
+    return { imei, event: { number: 0, string: "status" } };
+  }
+
+  if (command !== "V1") {
+    return { imei, event: { number: 0, string: command.toLowerCase() } };
+  }
+
+  const [, , , time, validity, lat, ns, lon, ew, knots, , date, status] = fields;
+  if (!time || !date || !lat || !lon) throw new Error("Incomplete H02 V1 message");
+
+  const terminalInfo = status ? processStatus(status) : undefined;
+  const msg: ParsedMessage = {
+    imei,
+    event: { number: 0x12, string: terminalInfo && terminalInfo.alarmType !== "normal" ? "alarm" : "location" },
+    fixTime: parseDateTime(date, time).toISOString(),
+  };
+  if (terminalInfo) {
+    msg.terminalInfo = terminalInfo;
+    msg.alarm = LEGACY_ALARM_TYPES[terminalInfo.alarmType ?? ""] ?? null;
+  }
+
+  // 'V' = no valid fix, keep the message for presence/alarms but drop coordinates
+  if (validity === "A") {
+    msg.lat = round6(parseCoordinate(lat) * (ns === "S" ? -1 : 1));
+    msg.lon = round6(parseCoordinate(lon) * (ew === "W" ? -1 : 1));
+    msg.speed = Math.round(Number(knots ?? 0) * KNOTS_TO_KMH * 10) / 10;
+  }
+
+  return msg;
+}
+
+// ddmm.mmmm / dddmm.mmmm → decimal degrees
+function parseCoordinate(value: string): number {
+  const raw = Number(value);
+  if (!Number.isFinite(raw)) throw new Error(`Invalid H02 coordinate: ${value}`);
+  const degrees = Math.floor(raw / 100);
+  return degrees + (raw - degrees * 100) / 60;
+}
+
+// ddmmyy + hhmmss (UTC)
+function parseDateTime(date: string, time: string): Date {
+  const d = (s: string, i: number) => Number(s.slice(i, i + 2));
+  const parsed = new Date(
+    Date.UTC(2000 + d(date, 4), d(date, 2) - 1, d(date, 0), d(time, 0), d(time, 2), d(time, 4))
+  );
+  if (Number.isNaN(parsed.getTime())) throw new Error(`Invalid H02 timestamp: ${date} ${time}`);
+  return parsed;
+}
+
+// Status word is active-low: a cleared bit means the condition is present
+function processStatus(hex: string): TerminalInfo {
+  const status = parseInt(hex, 16);
+  const clear = (bit: number) => (status & (1 << bit)) === 0;
+
+  let alarmType = "normal";
+  if (clear(0)) alarmType = "shock";
+  else if (clear(1)) alarmType = "sos";
+  else if (clear(19)) alarmType = "power cut";
+
+  return {
+    ignition: !clear(10),
+    alarmType,
+  };
+}
+
+function round6(v: number): number {
+  return Math.round(v * 1_000_000) / 1_000_000;
+}
+
+export const h02Adapter: ProtocolAdapter = {
+  name: "h02",
+  supportsCommands: false,
+  detect: (head) => head.length >= 1 && head[0] === 0x2a, // '*'
+  createDecoder: () => new H02Decoder(),
+};
@@ -0,0 +1,49 @@
+// src/tcp/protocols/index.ts
+import { gt06Adapter } from "./gt06.adapter";
+import { h02Adapter } from "./h02.adapter";
+import { teltonikaAdapter } from "./teltonika.adapter";
+import { ProtocolAdapter, ProtocolName } from "./types";
+
+export * from "./types";
+
+/**
+ * Registered tracker protocols, in detection order
+ */
+export const PROTOCOL_ADAPTERS: ProtocolAdapter[] = [gt06Adapter, h02Adapter, teltonikaAdapter];
+
+export type PortProtocol = ProtocolName | "auto";
+
+export function getProtocolAdapter(name: ProtocolName): ProtocolAdapter {
+  const adapter = PROTOCOL_ADAPTERS.find((a) => a.name === name);
+  if (!adapter) throw new Error(`Unknown tracker protocol: ${name}`);
+  return adapter;
+}
+
+/**
+ * Pick the adapter from the first bytes a tracker sends
+ */
+export function detectProtocol(head: Buffer): ProtocolAdapter | null {
+  return PROTOCOL_ADAPTERS.find((a) => a.detect(head)) ?? null;
+}
+
+/**
+ * Parse TCP_PROTOCOL_PORTS, e.g. "5050:auto,5051:h02,5052:teltonika"
+ */
+export function parsePortProtocols(value: string | undefined): { port: number; protocol: PortProtocol }[] {
+  if (!value) return [];
+
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [portStr, protocolStr = "auto"] = entry.split(":");
+      const port = Number(portStr);
+      const protocol = protocolStr.trim().toLowerCase() as PortProtocol;
+
+      if (!Number.isInteger(port) || port <= 0) throw new Error(`Invalid port in TCP_PROTOCOL_PORTS: ${entry}`);
+      if (protocol !== "auto") getProtocolAdapter(protocol);
+
+      return { port, protocol };
+    });
+}
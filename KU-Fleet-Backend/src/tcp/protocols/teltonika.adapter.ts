@@ -0,0 +1,201 @@
+// src/tcp/protocols/teltonika.adapter.ts
+import { ParsedMessage } from "../../services/gpsHandler";
+import { crc16Ibm } from "../../utils/crc16";
+import { FramerStats, emptyFramerStats, RejectReason } from "../gt06Framer";
+import { DecodeResult, ProtocolAdapter, ProtocolDecoder, emptyDecodeResult } from "./types";
+
+/**
+ * Teltonika Codec 8 over TCP.
+ *
+ * Handshake: len (2) | IMEI (ASCII)             → server answers 0x01
+ * AVL packet: 0x00000000 | dataLen (4) | codec 0x08 | count | records.. | count | crc (4)
+ *                                                   → server answers count (4, BE)
+ *
+ * Record: timestamp ms (8) | priority (1) | lon (4) | lat (4) | alt (2) | angle (2)
+ *         | satellites (1) | speed km/h (2) | eventIO (1) | totalIO (1)
+ *         | n1 × (id, u8) | n2 × (id, u16) | n4 × (id, u32) | n8 × (id, u64)
+ */
+
+const CODEC_8 = 0x08;
+const MAX_PACKET_BYTES = 64 * 1024;
+
+// Standard FMB IO element ids
+const IO_IGNITION = 239;
+const IO_EXTERNAL_VOLTAGE = 66;
+
+const PRIORITY_PANIC = 2;
+
+export interface TeltonikaRecord {
+  timestamp: Date;
+  priority: number;
+  lat: number;
+  lon: number;
+  altitude: number;
+  angle: number;
+  satellites: number;
+  speed: number;
+  eventId: number;
+  io: Record<number, number>;
+}
+
+class TeltonikaDecoder implements ProtocolDecoder {
+  readonly protocol = "teltonika" as const;
+  readonly stats: FramerStats = emptyFramerStats();
+  private pending: Buffer = Buffer.alloc(0);
+  private imei: string | null = null;
+
+  decode(chunk: Buffer): DecodeResult {
+    const result = emptyDecodeResult();
+    this.pending = this.pending.length ? Buffer.concat([this.pending, chunk]) : chunk;
+
+    while (this.pending.length > 0) {
+      // ───────── IMEI HANDSHAKE ─────────
+      if (!this.imei) {
+        if (this.pending.length < 2) break;
+        const len = this.pending.readUInt16BE(0);
+        if (len < 10 || len > 17) {
+          this.reject(result, "bad_length", this.pending);
+          this.pending = Buffer.alloc(0);
+          break;
+        }
+        if (this.pending.length < 2 + len) break;
+
+        const imei = this.pending.subarray(2, 2 + len).toString("ascii");
+        this.pending = this.pending.subarray(2 + len);
+
+        if (!/^\d+$/.test(imei)) {
+          result.parseErrors.push({ error: "Invalid Teltonika IMEI", hex: Buffer.from(imei).toString("hex") });
+          result.responses.push(Buffer.from([0x00]));
+          continue;
+        }
+
+        this.imei = imei;
+        this.stats.framesOk++;
+        result.responses.push(Buffer.from([0x01]));
+        result.messages.push({ imei, event: { number: 0x01, string: "login" } });
+        continue;
+      }
+
+      // ───────── AVL PACKET ─────────
+      if (this.pending.length < 8) break;
+
+      if (this.pending.readUInt32BE(0) !== 0) {
+        this.reject(result, "garbage", this.pending);
+        this.pending = Buffer.alloc(0);
+        break;
+      }
+
+      const dataLen = this.pending.readUInt32BE(4);
+      if (dataLen < 3 || dataLen > MAX_PACKET_BYTES) {
+        this.reject(result, "bad_length", this.pending);
+        this.pending = Buffer.alloc(0);
+        break;
+      }
+
+      const total = 8 + dataLen + 4;
+      if (this.pending.length < total) break;
+
+      const packet = this.pending.subarray(0, total);
+      this.pending = this.pending.subarray(total);
+
+      const data = packet.subarray(8, 8 + dataLen);
+      if (packet.readUInt32BE(8 + dataLen) !== crc16Ibm(data)) {
+        this.reject(result, "bad_crc", packet);
+        continue;
+      }
+
+      try {
+        const records = parseCodec8(data);
+        this.stats.framesOk++;
+        const ack = Buffer.alloc(4);
+        ack.writeUInt32BE(records.length);
+        result.responses.push(ack);
+        result.messages.push(...records.map((r) => toParsedMessage(this.imei!, r)));
+      } catch (e: any) {
+        result.parseErrors.push({ error: String(e?.message ?? e), hex: packet.toString("hex") });
+      }
+    }
+
+    return result;
+  }
+
+  private reject(result: DecodeResult, reason: RejectReason, bytes: Buffer): void {
+    if (bytes.length === 0) return;
+    this.stats.framesBad++;
+    this.stats.badByReason[reason]++;
+    this.stats.bytesDiscarded += bytes.length;
+    result.rejected.push({ reason, bytes: Buffer.from(bytes) });
+  }
+}
+
+/**
+ * Parse the data field of a Codec 8 packet (codec id .. trailing record count)
+ */
+export function parseCodec8(data: Buffer): TeltonikaRecord[] {
+  const codec = data[0];
+  if (codec !== CODEC_8) throw new Error(`Unsupported Teltonika codec 0x${(codec ?? 0).toString(16)}`);
+
+  const count = data[1]!;
+  const records: TeltonikaRecord[] = [];
+  let o = 2;
+
+  for (let i = 0; i < count; i++) {
+    const timestamp = new Date(Number(data.readBigUInt64BE(o))); o += 8;
+    const priority = data.readUInt8(o); o += 1;
+    const lon = data.readInt32BE(o) / 1e7; o += 4;
+    const lat = data.readInt32BE(o) / 1e7; o += 4;
+    const altitude = data.readInt16BE(o); o += 2;
+    const angle = data.readUInt16BE(o); o += 2;
+    const satellites = data.readUInt8(o); o += 1;
+    const speed = data.readUInt16BE(o); o += 2;
+    const eventId = data.readUInt8(o); o += 1;
+    o += 1; // total IO count
+
+    const io: Record<number, number> = {};
+    for (const size of [1, 2, 4, 8]) {
+      const n = data.readUInt8(o); o += 1;
+      for (let j = 0; j < n; j++) {
+        const id = data.readUInt8(o); o += 1;
+        io[id] = size === 8 ? Number(data.readBigUInt64BE(o)) : data.readUIntBE(o, size);
+        o += size;
+      }
+    }
+
+    records.push({ timestamp, priority, lat, lon, altitude, angle, satellites, speed, eventId, io });
+  }
+
+  if (data[o] !== count) throw new Error("Teltonika record count mismatch");
+
+  return records;
+}
+
+function toParsedMessage(imei: string, record: TeltonikaRecord): ParsedMessage {
+  const panic = record.priority === PRIORITY_PANIC;
+  const msg: ParsedMessage = {
+    imei,
+    event: { number: CODEC_8, string: panic ? "alarm" : "location" },
+    fixTime: record.timestamp.toISOString(),
+    terminalInfo: { alarmType: panic ? "sos" : "normal" },
+    alarm: panic ? "sos" : null,
+  };
+
+  if (record.io[IO_IGNITION] !== undefined) msg.terminalInfo!.ignition = record.io[IO_IGNITION] === 1;
+  if (record.io[IO_EXTERNAL_VOLTAGE] !== undefined) msg.terminalInfo!.charging = record.io[IO_EXTERNAL_VOLTAGE] > 0;
+
+  // No satellites and 0,0 means the tracker had no fix for this record
+  if (record.satellites > 0 || record.lat !== 0 || record.lon !== 0) {
+    msg.lat = record.lat;
+    msg.lon = record.lon;
+    msg.speed = record.speed;
+  }
+
+  return msg;
+}
+
+export const teltonikaAdapter: ProtocolAdapter = {
+  name: "teltonika",
+  supportsCommands: false,
+  // IMEI handshake starts with a 2-byte length, 0x000F for a 15-digit IMEI
+  detect: (head) => head.length >= 2 && head[0] === 0x00 && head[1]! >= 10 && head[1]! <= 17,
+  createDecoder: () => new TeltonikaDecoder(),
+};
@@ -0,0 +1,43 @@
+// src/tcp/protocols/types.ts
+import { ParsedMessage } from "../../services/gpsHandler";
+import { FramerStats, RejectedFrame } from "../gt06Framer";
+
+export type ProtocolName = "gt06" | "h02" | "teltonika";
+
+export interface ParseError {
+  error: string;
+  hex: string;
+}
+
+/**
+ * Everything one TCP chunk produced for a connection
+ */
+export interface DecodeResult {
+  messages: ParsedMessage[]; // fed to handleParsedMessage, in order
+  responses: Buffer[]; // acks to write back to the tracker
+  commandReplies: Buffer[]; // replies to downlink commands (GT06 0x15 / 0x21)
+  rejected: RejectedFrame[]; // bytes the framer threw away
+  parseErrors: ParseError[]; // complete frames the decoder could not read
+}
+
+/**
+ * Per-connection, stateful decoder (framing + parsing)
+ */
+export interface ProtocolDecoder {
+  readonly protocol: ProtocolName;
+  readonly stats: FramerStats;
+  decode(chunk: Buffer): DecodeResult;
+}
+
+export interface ProtocolAdapter {
+  readonly name: ProtocolName;
+  /** Whether the tracker understands our downlink command channel */
+  readonly supportsCommands: boolean;
+  /** Does the first chunk of a connection look like this protocol? */
+  detect(head: Buffer): boolean;
+  createDecoder(): ProtocolDecoder;
+}
+
+export function emptyDecodeResult(): DecodeResult {
+  return { messages: [], responses: [], commandReplies: [], rejected: [], parseErrors: [] };
+}
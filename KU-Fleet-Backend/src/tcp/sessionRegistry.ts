@@ -0,0 +1,244 @@
+// src/tcp/sessionRegistry.ts
+import EventEmitter from "events";
+import { redisClient } from "../config/redis";
+import { emitToRoom, ROOMS, EVENTS } from "../utils/socketHelper";
+
+/**
+ * TrackerSessionRegistry
+ * Tracks which tracker IMEIs are connected, when they last spoke and from where.
+ *
+ * Sessions live in the process holding the tracker's connection (the ingest role), so
+ * each session is also published to Redis for the API processes: written when the
+ * tracker comes online or goes offline and refreshed by every sweep. An online entry
+ * expires after PRESENCE_TTL_SEC, so the trackers of a process that died show offline.
+ */
+
+const OFFLINE_AFTER_SEC = Number(process.env.DEVICE_OFFLINE_AFTER_SEC ?? 300);
+const SWEEP_INTERVAL_MS = 30_000;
+const PRESENCE_KEY_PREFIX = "tracker:session:";
+const PRESENCE_TTL_SEC = (SWEEP_INTERVAL_MS / 1000) * 3;
+const OFFLINE_SNAPSHOT_TTL_SEC = 24 * 60 * 60; // last known session of an offline tracker
+const SESSION_DATE_FIELDS = ["connectedAt", "lastLoginAt", "lastHeartbeatAt", "lastMessageAt", "disconnectedAt"] as const;
+
+export type OfflineReason = "disconnected" | "timeout";
+
+export interface TrackerSession {
+  imei: string;
+  connectionId: string;
+  remoteAddress: string | null;
+  remotePort: number | null;
+  online: boolean;
+  connectedAt: Date;
+  lastLoginAt: Date | null;
+  lastHeartbeatAt: Date | null;
+  lastMessageAt: Date;
+  lastEvent: string | null;
+  messageCount: number;
+  disconnectedAt: Date | null;
+  offlineReason: OfflineReason | null;
+}
+
+export interface ConnectionInfo {
+  connectionId: string;
+  remoteAddress?: string | undefined;
+  remotePort?: number | undefined;
+}
+
+class TrackerSessionRegistry extends EventEmitter {
+  private sessions: Map<string, TrackerSession>;
+  private sweepInterval: NodeJS.Timeout;
+
+  constructor() {
+    super();
+    this.sessions = new Map();
+
+    this.sweepInterval = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweepInterval.unref();
+  }
+
+  /**
+   * Record any message from a tracker. Login (0x01) and status (0x13,
+   * the GT06 heartbeat) also update their own timestamps.
+   */
+  record(imei: string, conn: ConnectionInfo, event?: string): TrackerSession {
+    const now = new Date();
+    let session = this.sessions.get(imei);
+    const wasOnline = session?.online ?? false;
+    const newConnection = !session || session.connectionId !== conn.connectionId;
+
+    if (!session || newConnection) {
+      session = {
+        imei,
+        connectionId: conn.connectionId,
+        remoteAddress: conn.remoteAddress ?? null,
+        remotePort: conn.remotePort ?? null,
+        online: true,
+        connectedAt: now,
+        lastLoginAt: session?.lastLoginAt ?? null,
+        lastHeartbeatAt: session?.lastHeartbeatAt ?? null,
+        lastMessageAt: now,
+        lastEvent: null,
+        messageCount: 0,
+        disconnectedAt: null,
+        offlineReason: null,
+      };
+      this.sessions.set(imei, session);
+    }
+
+    session.online = true;
+    session.disconnectedAt = null;
+    session.offlineReason = null;
+    session.lastMessageAt = now;
+    session.messageCount++;
+    if (event) session.lastEvent = event;
+    if (event === "login") session.lastLoginAt = now;
+    if (event === "status") session.lastHeartbeatAt = now;
+
+    if (!wasOnline) this.announce(EVENTS.DEVICE_ONLINE, session);
+    if (!wasOnline || newConnection) void this.publish([session]);
+
+    return session;
+  }
+
+  /**
+   * Socket closed. Ignored if the IMEI already reconnected on another socket.
+   */
+  disconnect(imei: string, connectionId: string): void {
+    const session = this.sessions.get(imei);
+    if (!session || session.connectionId !== connectionId || !session.online) return;
+
+    this.markOffline(session, "disconnected");
+  }
+
+  get(imei: string): TrackerSession | null {
+    return this.sessions.get(imei) ?? null;
+  }
+
+  list(): TrackerSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  isOnline(imei: string): boolean {
+    return this.sessions.get(imei)?.online ?? false;
+  }
+
+  /**
+   * Sessions of these trackers wherever they are connected: this process's when the
+   * tracker is online here, else the one published to Redis by another process
+   */
+  async lookupMany(imeis: string[]): Promise<Map<string, TrackerSession>> {
+    const found = new Map<string, TrackerSession>();
+    const remote = imeis.filter((imei) => !this.sessions.get(imei)?.online);
+
+    if (remote.length) {
+      try {
+        const values = await redisClient.mget(...remote.map((imei) => PRESENCE_KEY_PREFIX + imei));
+        values.forEach((value, i) => {
+          if (value) found.set(remote[i]!, parseSession(value));
+        });
+      } catch (err) {
+        console.warn("⚠️ Tracker presence lookup failed:", err);
+      }
+    }
+
+    for (const imei of imeis) {
+      const local = this.sessions.get(imei);
+      if (local && (local.online || !found.has(imei))) found.set(imei, local);
+    }
+    return found;
+  }
+
+  async lookup(imei: string): Promise<TrackerSession | null> {
+    return (await this.lookupMany([imei])).get(imei) ?? null;
+  }
+
+  /**
+   * Every session known here or in Redis
+   */
+  async lookupAll(): Promise<TrackerSession[]> {
+    const imeis = new Set(this.sessions.keys());
+    try {
+      let cursor = "0";
+      do {
+        const [next, keys] = await redisClient.scan(cursor, "MATCH", `${PRESENCE_KEY_PREFIX}*`, "COUNT", 500);
+        cursor = next;
+        for (const key of keys) imeis.add(key.slice(PRESENCE_KEY_PREFIX.length));
+      } while (cursor !== "0");
+    } catch (err) {
+      console.warn("⚠️ Tracker presence scan failed:", err);
+    }
+    return Array.from((await this.lookupMany(Array.from(imeis))).values());
+  }
+
+  /**
+   * Silent trackers (half-open TCP, dead GSM) never send FIN –
+   * mark them offline once they stop talking. Refreshes the presence of the others.
+   */
+  private sweep(): void {
+    const cutoff = Date.now() - OFFLINE_AFTER_SEC * 1000;
+    for (const session of this.sessions.values()) {
+      if (session.online && session.lastMessageAt.getTime() < cutoff) {
+        this.markOffline(session, "timeout");
+      }
+    }
+    void this.publish(this.list().filter((s) => s.online));
+  }
+
+  private markOffline(session: TrackerSession, reason: OfflineReason): void {
+    session.online = false;
+    session.disconnectedAt = new Date();
+    session.offlineReason = reason;
+    this.announce(EVENTS.DEVICE_OFFLINE, session);
+    void this.publish([session]);
+  }
+
+  /**
+   * Write sessions to Redis. An offline write may land after the tracker reconnected to
+   * another process; that process's next sweep puts it back online.
+   */
+  private async publish(sessions: TrackerSession[]): Promise<void> {
+    if (!sessions.length) return;
+    const pipeline = redisClient.pipeline();
+    for (const session of sessions) {
+      const ttl = session.online ? PRESENCE_TTL_SEC : OFFLINE_SNAPSHOT_TTL_SEC;
+      pipeline.set(PRESENCE_KEY_PREFIX + session.imei, JSON.stringify(session), "EX", ttl);
+    }
+    try {
+      await pipeline.exec();
+    } catch (err) {
+      console.warn("⚠️ Tracker presence publish failed:", err);
+    }
+  }
+
+  private announce(event: typeof EVENTS.DEVICE_ONLINE | typeof EVENTS.DEVICE_OFFLINE, session: TrackerSession): void {
+    const payload = {
+      imei: session.imei,
+      remoteAddress: session.remoteAddress,
+      lastMessageAt: session.lastMessageAt,
+      reason: session.offlineReason,
+      timestamp: new Date(),
+    };
+
+    console.log(event === EVENTS.DEVICE_ONLINE ? "🟢 Tracker online:" : "🔴 Tracker offline:", payload);
+    this.emit(event, session);
+    emitToRoom(ROOMS.ADMINS, event, payload);
+    emitToRoom(ROOMS.imei(session.imei), event, payload);
+  }
+
+  /**
+   * Graceful shutdown
+   */
+  shutdown(): void {
+    clearInterval(this.sweepInterval);
+  }
+}
+
+function parseSession(value: string): TrackerSession {
+  const session = JSON.parse(value) as TrackerSession;
+  for (const field of SESSION_DATE_FIELDS) {
+    if (session[field]) session[field] = new Date(session[field]);
+  }
+  return session;
+}
+
+export const sessionRegistry = new TrackerSessionRegistry();
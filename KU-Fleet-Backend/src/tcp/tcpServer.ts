@@ -1,12 +1,45 @@
 // src/tcp/tcpServer.ts
 import net from "net";
-import Gt06 from "gt06";
+import { randomUUID } from "crypto";
 import { handleParsedMessage } from "../services/gpsHandler";
-import { app } from "../app";
+import { sessionRegistry } from "./sessionRegistry";
+import { commandChannel } from "./commandChannel";
+import { packetCapture } from "./packetCapture";
+import { deviceProvisioning } from "../services/deviceProvisioning";
+import {
+  PortProtocol,
+  ProtocolAdapter,
+  ProtocolDecoder,
+  detectProtocol,
+  getProtocolAdapter,
+} from "./protocols";
+
+// imei → socket of every identified connection, to drop blocklisted trackers
+const liveConnections = new Map<string, net.Socket>();
+
+deviceProvisioning.on("blocklisted", (imei: string) => {
+  const socket = liveConnections.get(imei);
+  if (!socket) return;
+  console.warn(`⛔ Closing connection of blocklisted tracker ${imei}`);
+  socket.destroy();
+});
+
+/**
+ * Start a tracker ingestion port.
+ * `protocol: "auto"` picks the adapter from the first bytes of each connection,
+ * otherwise every connection on the port uses the given adapter.
+ */
+export async function startTcpServer(port: number, protocol: PortProtocol = "auto") {
+  const fixedAdapter = protocol === "auto" ? null : getProtocolAdapter(protocol);
 
-export async function startTcpServer(port: number) {
   const server = net.createServer((client) => {
-    const gt06 = new Gt06();
+    let adapter: ProtocolAdapter | null = fixedAdapter;
+    let decoder: ProtocolDecoder | null = adapter?.createDecoder() ?? null;
+    let head: Buffer = Buffer.alloc(0);
+    let parseErrors = 0;
+    const connectionId = randomUUID();
+    let sessionImei: string | null = null;
+    const remote = () => `${client.remoteAddress}:${client.remotePort}`;
 
     console.log("📡 TCP client connected:", {
       ip: client.remoteAddress,
@@ -26,64 +59,136 @@ export async function startTcpServer(port: number) {
       console.log("📏 Packet Length:", data.length);
       console.log("======================================================\n");
 
-      // 🧠 Attempt GT06 parse (preserve original logic)
-      try {
-        gt06.parse(data);
-      } catch (e: any) {
-        console.log("❌ GT06 parse error:", e?.message ?? e);
-        return;
+      // 🔎 Detect protocol from the first bytes of the connection
+      if (!decoder) {
+        head = Buffer.concat([head, data]);
+        if (head.length < 2) return;
+
+        adapter = detectProtocol(head);
+        if (!adapter) {
+          console.warn("🚫 Unknown tracker protocol, closing connection:", {
+            ip: client.remoteAddress,
+            hex: head.subarray(0, 16).toString("hex"),
+          });
+          packetCapture.record(null, {
+            conn: connectionId,
+            protocol: null,
+            remote: remote(),
+            hex: head.toString("hex"),
+          });
+          client.destroy();
+          return;
+        }
+        decoder = adapter.createDecoder();
+        data = head;
+        console.log(`🔌 Protocol detected: ${adapter.name}`);
       }
 
-      // 🔁 Log protocol expectations
-      console.log("📥 GT06 expects response:", gt06.expectsResponse);
+      // 📼 Keep the raw bytes for replay (no-op unless PACKET_CAPTURE_DIR is set)
+      packetCapture.record(sessionImei, {
+        conn: connectionId,
+        protocol: decoder.protocol,
+        remote: remote(),
+        hex: data.toString("hex"),
+      });
+
+      // 🧱 Reassemble complete frames (split / glued packets) and decode
+      const result = decoder.decode(data);
+      const name = decoder.protocol.toUpperCase();
+
+      for (const bad of result.rejected) {
+        console.warn(`🚫 ${name} frame rejected:`, {
+          reason: bad.reason,
+          hex: bad.bytes.toString("hex"),
+          totalBad: decoder.stats.framesBad,
+        });
+      }
 
-      if (gt06.expectsResponse && gt06.responseMsg) {
-        console.log(
-          "📤 Sending GT06 response (HEX):",
-          Buffer.from(gt06.responseMsg).toString("hex")
-        );
-        client.write(gt06.responseMsg);
+      for (const err of result.parseErrors) {
+        parseErrors++;
+        console.log(`❌ ${name} parse error:`, err.error, {
+          hex: err.hex,
+          totalParseErrors: parseErrors,
+        });
       }
 
-      // 🧩 Parsed messages from GT06
-      if (gt06.msgBuffer?.length) {
-        console.log(`📨 Parsed Messages Count: ${gt06.msgBuffer.length}`);
-      } else {
-        console.log("⚠️ No parsed messages in buffer");
+      for (const response of result.responses) {
+        console.log(`📤 Sending ${name} response (HEX):`, response.toString("hex"));
+        client.write(response);
       }
 
-      for (const msg of gt06.msgBuffer as any[]) {
-        console.log("\n------------- PARSED GT06 MESSAGE ----------------");
+      // 📬 Replies to our downlink commands
+      for (const frame of result.commandReplies) {
+        if (!sessionImei) {
+          console.warn("⚠️ Command reply before login, ignored:", frame.toString("hex"));
+          continue;
+        }
+        try {
+          await commandChannel.handleReply(sessionImei, frame);
+        } catch (err) {
+          console.error("❌ Error handling command reply:", err);
+        }
+      }
+
+      if (result.messages.length) {
+        console.log(`📨 Parsed Messages Count: ${result.messages.length}`);
+      } else if (!result.commandReplies.length) {
+        console.log("⏳ No complete messages yet");
+      }
+
+      for (const msg of result.messages) {
+        console.log(`\n------------- PARSED ${name} MESSAGE ----------------`);
         console.log("📄 Parsed Message (RAW OBJECT):");
         console.dir(msg, { depth: null });
 
         // 🔍 Try extracting IMEI if present
         if (msg?.imei) {
           console.log("🆔 IMEI:", msg.imei);
+          sessionImei = String(msg.imei);
+
+          if (deviceProvisioning.isBlocklisted(sessionImei)) {
+            console.warn(`⛔ Blocklisted tracker ${sessionImei}, closing connection`);
+            client.destroy();
+            return;
+          }
+          liveConnections.set(sessionImei, client);
+          packetCapture.identify(connectionId, sessionImei);
+          sessionRegistry.record(
+            sessionImei,
+            { connectionId, remoteAddress: client.remoteAddress, remotePort: client.remotePort },
+            msg.event?.string
+          );
+          if (adapter?.supportsCommands) commandChannel.attach(sessionImei, connectionId, client);
         }
 
         try {
-          // Original behavior preserved
           await handleParsedMessage(msg);
           console.log(`✅ Message passed to handleParsedMessage for IMEI: ${msg.imei}, Event: ${msg.event?.string}`);
-
         } catch (err) {
           console.error("❌ Error handling parsed message:", err);
         }
         console.log("--------------------------------------------------\n");
       }
-
-      // clear buffer (preserve original)
-      gt06.clearMsgBuffer();
     });
 
     client.on("end", () => {
       console.log("❌ TCP client disconnected:", {
         ip: client.remoteAddress,
         time: new Date().toISOString(),
+        protocol: decoder?.protocol ?? null,
+        frames: decoder?.stats ?? null,
+        parseErrors,
       });
     });
 
+    client.on("close", () => {
+      packetCapture.closeConnection(connectionId);
+      if (!sessionImei) return;
+      if (liveConnections.get(sessionImei) === client) liveConnections.delete(sessionImei);
+      sessionRegistry.disconnect(sessionImei, connectionId);
+      commandChannel.detach(sessionImei, connectionId);
+    });
+
     client.on("error", (err) => {
       console.error("⚠️ TCP client error:", {
         ip: client.remoteAddress,
@@ -94,7 +199,7 @@ export async function startTcpServer(port: number) {
 
   return new Promise<void>((resolve, reject) => {
     server.listen(port, () => {
-      console.log(`✅ GT06 TCP server listening on port ${port}`);
+      console.log(`✅ Tracker TCP server listening on port ${port} (${protocol})`);
       resolve();
     });
 
@@ -0,0 +1,153 @@
+// Fixture checks for the tracker protocol adapters (no DB / TCP needed)
+// Run: npx ts-node src/test-protocols.ts
+import assert from "node:assert/strict";
+import { detectProtocol, getProtocolAdapter, ProtocolName } from "./tcp/protocols";
+
+const hex = (s: string) => Buffer.from(s.replace(/\s+/g, ""), "hex");
+
+// ───────── FIXTURES ─────────
+const FIXTURES = {
+  gt06Login: hex("78780D01012345678901234500018CDD0D0A"),
+  // 0x16 alarm: SOS, ignition off, not charging, voltage 4, GSM 3
+  gt06SosAlarm: hex("787825161A0301080F1EC902ACFF600733818000340009019A01123400ABCD61040301020007CE780D0A"),
+  h02Location: Buffer.from(
+    "*HQ,865205030330012,V1,145452,A,2240.55181,N,11358.32389,E,0.00,0,100815,FFFFFBFF#"
+  ),
+  h02Sos: Buffer.from(
+    "*HQ,865205030330012,V1,145452,A,2240.55181,N,11358.32389,E,10.00,0,100815,FFFFFBFD#"
+  ),
+  h02Heartbeat: Buffer.from("*HQ,865205030330012,XT,1,100815#"),
+  teltonikaImei: hex("000F333536333037303432343431303133"),
+  teltonikaAvl: hex(
+    "000000000000003608010000016B40D8EA30010000000000000000000000000000000105021503010101425E0F01F10000601A014E0000000000000000010000C7CF"
+  ),
+};
+
+let failed = 0;
+function check(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✅ ${name}`);
+  } catch (err) {
+    failed++;
+    console.error(`❌ ${name}`);
+    console.error(err);
+  }
+}
+
+const decoder = (name: ProtocolName) => getProtocolAdapter(name).createDecoder();
+
+// ───────── DETECTION ─────────
+check("detects protocol from first bytes", () => {
+  assert.equal(detectProtocol(FIXTURES.gt06Login)?.name, "gt06");
+  assert.equal(detectProtocol(FIXTURES.h02Location)?.name, "h02");
+  assert.equal(detectProtocol(FIXTURES.teltonikaImei)?.name, "teltonika");
+  assert.equal(detectProtocol(Buffer.from("GET / HTTP/1.1")), null);
+});
+
+// ───────── GT06 ─────────
+check("gt06: login frame split across chunks", () => {
+  const d = decoder("gt06");
+  const first = d.decode(FIXTURES.gt06Login.subarray(0, 7));
+  assert.equal(first.messages.length, 0);
+
+  const second = d.decode(FIXTURES.gt06Login.subarray(7));
+  assert.equal(second.messages.length, 1);
+  assert.equal(String(second.messages[0]!.imei), "123456789012345");
+  assert.equal(second.messages[0]!.event?.string, "login");
+  assert.equal(second.responses.length, 1);
+});
+
+check("gt06: corrupted frame is rejected", () => {
+  const bad = Buffer.from(FIXTURES.gt06Login);
+  bad[5] = bad[5]! ^ 0xff;
+  const result = decoder("gt06").decode(bad);
+  assert.equal(result.messages.length, 0);
+  assert.equal(result.rejected[0]?.reason, "bad_crc");
+});
+
+check("gt06: alarm packet decodes alarm and terminal status", () => {
+  const d = decoder("gt06");
+  d.decode(FIXTURES.gt06Login);
+  const msg = d.decode(FIXTURES.gt06SosAlarm).messages[0]!;
+  assert.equal(msg.event?.string, "alarm");
+  assert.equal(msg.alarm, "sos");
+  assert.equal(msg.voltageLevel, 4);
+  assert.equal(msg.gsmSignal, 3);
+  assert.equal(msg.terminalInfo?.ignition, false);
+  assert.equal(msg.terminalInfo?.charging, false);
+  assert.equal(msg.lat, 24.94);
+  assert.equal(msg.lon, 67.12);
+});
+
+// ───────── H02 ─────────
+check("h02: V1 location", () => {
+  const result = decoder("h02").decode(FIXTURES.h02Location);
+  assert.equal(result.messages.length, 1);
+  const msg = result.messages[0]!;
+  assert.equal(msg.imei, "865205030330012");
+  assert.equal(msg.event?.string, "location");
+  assert.equal(msg.lat, 22.675864);
+  assert.equal(msg.lon, 113.972065);
+  assert.equal(msg.speed, 0);
+  assert.equal(msg.fixTime, "2015-08-10T14:54:52.000Z");
+  assert.equal(msg.terminalInfo?.ignition, false);
+  assert.equal(msg.terminalInfo?.alarmType, "normal");
+});
+
+check("h02: SOS bit becomes alarm", () => {
+  const msg = decoder("h02").decode(FIXTURES.h02Sos).messages[0]!;
+  assert.equal(msg.event?.string, "alarm");
+  assert.equal(msg.terminalInfo?.alarmType, "sos");
+  assert.equal(msg.alarm, "sos");
+  assert.equal(msg.speed, 18.5);
+});
+
+check("h02: glued messages with leading garbage", () => {
+  const result = decoder("h02").decode(
+    Buffer.concat([Buffer.from("\r\nxx"), FIXTURES.h02Heartbeat, FIXTURES.h02Location])
+  );
+  assert.equal(result.rejected.length, 1);
+  assert.deepEqual(
+    result.messages.map((m) => m.event?.string),
+    ["status", "location"]
+  );
+});
+
+// ───────── TELTONIKA ─────────
+check("teltonika: IMEI handshake then AVL packet", () => {
+  const d = decoder("teltonika");
+  const login = d.decode(FIXTURES.teltonikaImei);
+  assert.equal(login.messages[0]?.imei, "356307042441013");
+  assert.equal(login.messages[0]?.event?.string, "login");
+  assert.deepEqual(login.responses[0], Buffer.from([0x01]));
+
+  const avl = d.decode(FIXTURES.teltonikaAvl);
+  assert.equal(avl.rejected.length, 0);
+  assert.equal(avl.parseErrors.length, 0);
+  assert.equal(avl.messages.length, 1);
+  assert.deepEqual(avl.responses[0], hex("00000001"));
+
+  const msg = avl.messages[0]!;
+  assert.equal(msg.imei, "356307042441013");
+  assert.equal(msg.fixTime, "2019-06-10T10:04:46.000Z");
+  assert.equal(msg.terminalInfo?.ignition, undefined); // IO 239 not reported
+  assert.equal(msg.terminalInfo?.charging, true); // IO 66 external voltage
+  assert.equal(msg.lat, undefined); // no satellites, no fix
+});
+
+check("teltonika: bad CRC is rejected", () => {
+  const d = decoder("teltonika");
+  d.decode(FIXTURES.teltonikaImei);
+  const bad = Buffer.from(FIXTURES.teltonikaAvl);
+  bad[bad.length - 1] = bad[bad.length - 1]! ^ 0xff;
+  const result = d.decode(bad);
+  assert.equal(result.messages.length, 0);
+  assert.equal(result.rejected[0]?.reason, "bad_crc");
+});
+
+if (failed) {
+  console.error(`\n${failed} protocol fixture check(s) failed`);
+  process.exit(1);
+}
+console.log("\nAll protocol fixture checks passed");
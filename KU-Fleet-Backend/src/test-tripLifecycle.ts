@@ -0,0 +1,160 @@
+// Stale trip checks against in-memory TripLog / TripSegment stand-ins (no DB needed):
+// fixes go through TripTrack.append, the stale query is matched in memory.
+// Run: npx ts-node src/test-tripLifecycle.ts
+import assert from "node:assert/strict";
+import { FilterQuery, Types } from "mongoose";
+import TripLog, { ITripLog } from "./models/TripLog.model";
+import TripSegment, { ITripSegment, ITripSegmentPoint } from "./models/TripSegment.model";
+import { redisClient } from "./config/redis";
+import { ClosedTripStatus, CloseTripInput, TripLifecycle } from "./services/tripLifecycle";
+import { TripTrack } from "./services/tripTrack";
+
+const HOUR = 3600_000;
+const NOW = new Date("2026-03-02T12:00:00Z");
+
+type StoredTrip = Pick<ITripLog, "bus" | "status" | "startTime" | "pointCount" | "lastFixAt" | "createdAt" | "updatedAt"> & {
+  _id: Types.ObjectId;
+};
+type StoredSegment = Pick<ITripSegment, "points" | "pointCount"> & { _id: Types.ObjectId };
+
+let trips: StoredTrip[] = [];
+let segments = new Map<string, StoredSegment>();
+let closed: { tripId: string; endTime: Date | undefined }[] = [];
+
+// ───────── IN-MEMORY MODELS ─────────
+// The operators of the stale query; anything else fails loudly instead of matching wrongly
+function matches(trip: StoredTrip, filter: FilterQuery<ITripLog>): boolean {
+  return Object.entries(filter).every(([field, condition]) => {
+    if (field === "$or") return (condition as FilterQuery<ITripLog>[]).some((f) => matches(trip, f));
+
+    const value = trip[field as keyof StoredTrip];
+    const ops = condition as { $in?: unknown[]; $lt?: Date; $exists?: boolean };
+    const unsupported = Object.keys(ops).filter((op) => !["$in", "$lt", "$exists"].includes(op));
+    if (unsupported.length) throw new Error(`Unsupported condition on ${field}: ${unsupported.join(", ")}`);
+
+    if (ops.$exists !== undefined && (value !== undefined) !== ops.$exists) return false;
+    if (ops.$in && !ops.$in.includes(value)) return false;
+    if (ops.$lt && !(value instanceof Date && value < ops.$lt)) return false;
+    return true;
+  });
+}
+
+// Only what TripTrack.append and TripLifecycle.abandonStale use. updatedAt is left alone on
+// purpose: staleness must not depend on it.
+Object.assign(TripLog, {
+  async updateOne(filter: { _id: Types.ObjectId | string }, update: { $max?: { lastFixAt?: Date }; $inc?: { pointCount?: number } }) {
+    const trip = trips.find((t) => String(t._id) === String(filter._id));
+    if (!trip) return { matchedCount: 0 };
+    const lastFixAt = update.$max?.lastFixAt;
+    if (lastFixAt && !(trip.lastFixAt && trip.lastFixAt >= lastFixAt)) trip.lastFixAt = lastFixAt;
+    if (update.$inc?.pointCount) trip.pointCount = (trip.pointCount ?? 0) + update.$inc.pointCount;
+    return { matchedCount: 1 };
+  },
+  async find(filter: FilterQuery<ITripLog>) {
+    return trips.filter((t) => matches(t, filter));
+  },
+});
+
+Object.assign(TripSegment, {
+  findOneAndUpdate(
+    filter: { trip: Types.ObjectId | string; bucket: Date },
+    update: { $push: { points: { $each: ITripSegmentPoint[] } }; $inc: { pointCount: number } }
+  ) {
+    return {
+      lean: async (): Promise<StoredSegment> => {
+        const key = `${filter.trip}|${filter.bucket.getTime()}`;
+        const segment = segments.get(key) ?? { _id: new Types.ObjectId(), points: [], pointCount: 0 };
+        segment.points.push(...update.$push.points.$each);
+        segment.pointCount += update.$inc.pointCount;
+        segments.set(key, segment);
+        return { ...segment, points: [...segment.points] };
+      },
+    };
+  },
+  async updateOne() {
+    return { matchedCount: 1 };
+  },
+});
+
+Object.assign(TripLifecycle, {
+  async close(trip: StoredTrip, _status: ClosedTripStatus, input: CloseTripInput) {
+    closed.push({ tripId: String(trip._id), endTime: input.endTime });
+    return trip;
+  },
+});
+
+function openTrip(startTime: Date): StoredTrip {
+  const trip: StoredTrip = {
+    _id: new Types.ObjectId(),
+    bus: new Types.ObjectId(),
+    status: "in_progress",
+    startTime,
+    createdAt: startTime,
+    updatedAt: startTime,
+  };
+  trips.push(trip);
+  return trip;
+}
+
+// A fix every 10 minutes over [from, to]
+async function driveBetween(trip: StoredTrip, from: Date, to: Date): Promise<void> {
+  for (let t = from.getTime(); t <= to.getTime(); t += 10 * 60_000) {
+    await TripTrack.append({ _id: trip._id, bus: trip.bus }, [{ lat: 24.9, lng: 67.1, speed: 30, timestamp: new Date(t) }]);
+  }
+}
+
+let failed = 0;
+async function check(name: string, fn: () => Promise<void>) {
+  trips = [];
+  segments = new Map();
+  closed = [];
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+  } catch (err) {
+    failed++;
+    console.error(`❌ ${name}`);
+    console.error(err);
+  }
+}
+
+// ───────── STALE TRIPS ─────────
+async function main() {
+  await check("a trip that keeps receiving fixes is not abandoned", async () => {
+    const start = new Date(NOW.getTime() - 20 * HOUR);
+    const trip = openTrip(start);
+    await driveBetween(trip, start, NOW);
+
+    assert.equal(await TripLifecycle.abandonStale(NOW), 0);
+    assert.deepEqual(closed, []);
+    assert.equal(trip.lastFixAt?.getTime(), NOW.getTime());
+  });
+
+  await check("a trip whose fixes stopped is abandoned at its last fix", async () => {
+    const start = new Date(NOW.getTime() - 20 * HOUR);
+    const lastFix = new Date(NOW.getTime() - 13 * HOUR);
+    const trip = openTrip(start);
+    await driveBetween(trip, start, lastFix);
+
+    assert.equal(await TripLifecycle.abandonStale(NOW), 1);
+    assert.deepEqual(closed, [{ tripId: String(trip._id), endTime: lastFix }]);
+  });
+
+  await check("a trip without fixes goes by its last update", async () => {
+    const recent = openTrip(new Date(NOW.getTime() - 2 * HOUR));
+    const old = openTrip(new Date(NOW.getTime() - 13 * HOUR));
+
+    assert.equal(await TripLifecycle.abandonStale(NOW), 1);
+    assert.deepEqual(closed, [{ tripId: String(old._id), endTime: old.updatedAt }]);
+    assert.equal(recent.lastFixAt, undefined);
+  });
+
+  redisClient.disconnect();
+  if (failed) {
+    console.error(`\n${failed} stale trip check(s) failed`);
+    process.exit(1);
+  }
+  console.log("\nAll stale trip checks passed");
+}
+
+main();
@@ -0,0 +1,72 @@
+// src/tools/backfillSegmentTravelTimes.ts
+// Build the segment travel-time model from trips already recorded, one day at a time
+// (the nightly job only adds the previous day).
+//
+//   npm run backfill:segment-times -- --from 2026-09-01 [--to 2026-09-30]
+//   npm run backfill:segment-times -- --all
+//
+//   --from, --to   days the trips completed, YYYY-MM-DD (--to defaults to yesterday)
+//   --all          every day still inside SEGMENT_HISTORY_DAYS (older legs are pruned anyway)
+//
+// Safe to run again: a rebuilt day replaces its samples.
+import dotenv from "dotenv";
+import mongoose from "mongoose";
+import { connectDB } from "../config/db";
+import { parseDay, addDays } from "../services/tripSchedule";
+import { buildSegmentTravelTimes, SEGMENT_HISTORY_DAYS } from "../workers/segmentTravelTime.service";
+
+dotenv.config();
+
+interface BackfillOptions {
+  from: Date;
+  to: Date; // last day, inclusive
+}
+
+function parseArgs(argv: string[]): BackfillOptions {
+  let from: string | undefined;
+  let to: string | undefined;
+  let all = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === "--from") from = argv[++i];
+    else if (arg === "--to") to = argv[++i];
+    else if (arg === "--all") all = true;
+    else throw new Error(`Unknown option ${arg}`);
+  }
+
+  const yesterday = addDays(parseDay(), -1);
+  if (all) {
+    if (from || to) throw new Error("--all can't be combined with --from / --to");
+    return { from: addDays(yesterday, 1 - SEGMENT_HISTORY_DAYS), to: yesterday };
+  }
+  if (!from) throw new Error("Pass --from YYYY-MM-DD (and optionally --to), or --all");
+
+  const options = { from: parseDay(from), to: to ? parseDay(to) : yesterday };
+  if (options.from > options.to) throw new Error("--from must not be after --to");
+  return options;
+}
+
+async function backfill(options: BackfillOptions) {
+  await connectDB();
+
+  console.log(`▶️ Rebuilding segment travel times from ${options.from.toDateString()} to ${options.to.toDateString()}`);
+  const totals = { days: 0, trips: 0, samples: 0 };
+
+  for (let day = options.from; day <= options.to; day = addDays(day, 1)) {
+    const result = await buildSegmentTravelTimes(day, addDays(day, 1));
+    totals.days++;
+    totals.trips += result.trips;
+    totals.samples += result.samples;
+  }
+
+  console.log("✅ Backfill finished:", totals);
+  await mongoose.disconnect();
+}
+
+backfill(parseArgs(process.argv.slice(2)))
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error("Fatal backfill error:", err);
+    process.exit(1);
+  });
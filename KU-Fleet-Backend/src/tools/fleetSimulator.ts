@@ -0,0 +1,265 @@
+// src/tools/fleetSimulator.ts
+// Route-driven GT06 fleet simulator: N virtual buses drive a route and send real
+// GT06 packets to the tracker TCP port.
+//
+//   npm run simulate -- --route "Route 1" --buses 5
+//   npm run simulate -- --path ./route.json --buses 300 --ramp 20 --interval 5
+//
+// Route source (one of):
+//   --route <id|name>     stations of a Route from MongoDB (every station is a stop)
+//   --path <file.json>    [{ "lat", "lng", "name"?, "stop"? }, ...] or a GeoJSON LineString
+//                         (for a LineString only the two ends are stops)
+//
+// Trackers:
+//   --buses n             number of virtual buses (default 5)
+//   --imeis a,b,c         use these IMEIs (e.g. trackers already bound to buses)
+//   --route-buses         with --route, use the trackerIMEI of buses assigned to it
+//   --imei-prefix p       generated IMEIs are <prefix><index>, 15 digits (default 35800000000)
+//
+// Connection / timing:
+//   --host, --port        tracker server (default 127.0.0.1 / TCP_PORT / 5050)
+//   --ramp ms             delay between opening connections (default 100)
+//   --duration sec        stop after this long (default: run until Ctrl+C)
+//   --interval sec        location report interval (default 10)
+//   --heartbeat sec       status packet interval (default 60)
+//
+// Behaviour (defaults in DEFAULT_PROFILE):
+//   --speed-min / --speed-max km/h, --dwell-min / --dwell-max sec, --layover sec,
+//   --noise m, --outlier-rate, --alarm-rate, --traffic-stop-rate
+import fs from "fs";
+import dotenv from "dotenv";
+import mongoose from "mongoose";
+import { RoutePath, SimulatorProfile, VirtualBus, Waypoint } from "./simulator/virtualBus";
+
+dotenv.config();
+
+const DEFAULT_PROFILE: SimulatorProfile = {
+  minSpeedKmh: 25,
+  maxSpeedKmh: 45,
+  accelMs2: 1.0,
+  decelMs2: 1.5,
+  dwellMinSec: 20,
+  dwellMaxSec: 90,
+  layoverSec: 180,
+  trafficStopRate: 0.003,
+  noiseMeters: 5,
+  outlierRate: 0.005,
+  alarmRate: 0.002,
+  reportIntervalSec: 10,
+  heartbeatSec: 60,
+};
+
+const PROFILE_FLAGS: Record<string, keyof SimulatorProfile> = {
+  "--speed-min": "minSpeedKmh",
+  "--speed-max": "maxSpeedKmh",
+  "--dwell-min": "dwellMinSec",
+  "--dwell-max": "dwellMaxSec",
+  "--layover": "layoverSec",
+  "--noise": "noiseMeters",
+  "--outlier-rate": "outlierRate",
+  "--alarm-rate": "alarmRate",
+  "--traffic-stop-rate": "trafficStopRate",
+  "--interval": "reportIntervalSec",
+  "--heartbeat": "heartbeatSec",
+};
+
+const TICK_MS = 1_000;
+const STATS_EVERY_MS = 30_000;
+
+interface SimulatorOptions {
+  route?: string;
+  path?: string;
+  buses: number;
+  imeis: string[];
+  routeBuses: boolean;
+  imeiPrefix: string;
+  host: string;
+  port: number;
+  rampMs: number;
+  durationSec?: number;
+  profile: SimulatorProfile;
+}
+
+function parseArgs(argv: string[]): SimulatorOptions {
+  const options: SimulatorOptions = {
+    buses: 5,
+    imeis: [],
+    routeBuses: false,
+    imeiPrefix: "35800000000",
+    host: "127.0.0.1",
+    port: Number(process.env.TCP_PORT || 5050),
+    rampMs: 100,
+    profile: { ...DEFAULT_PROFILE },
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    const value = () => {
+      const v = argv[++i];
+      if (v === undefined) throw new Error(`Missing value for ${arg}`);
+      return v;
+    };
+    const number = () => {
+      const n = Number(value());
+      if (!Number.isFinite(n) || n < 0) throw new Error(`${arg} must be a non-negative number`);
+      return n;
+    };
+
+    const profileKey = PROFILE_FLAGS[arg];
+    if (profileKey) options.profile[profileKey] = number();
+    else if (arg === "--route") options.route = value();
+    else if (arg === "--path") options.path = value();
+    else if (arg === "--buses") options.buses = Math.floor(number());
+    else if (arg === "--imeis") options.imeis = value().split(",").map((s) => s.trim()).filter(Boolean);
+    else if (arg === "--route-buses") options.routeBuses = true;
+    else if (arg === "--imei-prefix") options.imeiPrefix = value();
+    else if (arg === "--host") options.host = value();
+    else if (arg === "--port") options.port = number();
+    else if (arg === "--ramp") options.rampMs = number();
+    else if (arg === "--duration") options.durationSec = number();
+    else throw new Error(`Unknown option ${arg}`);
+  }
+
+  if (!options.route === !options.path) throw new Error("Give exactly one of --route or --path");
+  if (options.routeBuses && !options.route) throw new Error("--route-buses needs --route");
+  if (options.profile.minSpeedKmh > options.profile.maxSpeedKmh) throw new Error("--speed-min > --speed-max");
+  return options;
+}
+
+// ───────── ROUTE SOURCES ─────────
+function loadPathFile(file: string): Waypoint[] {
+  const json = JSON.parse(fs.readFileSync(file, "utf8"));
+  const geometry = json?.type === "Feature" ? json.geometry : json;
+
+  if (geometry?.type === "LineString") {
+    const coords = geometry.coordinates as [number, number][];
+    return coords.map(([lng, lat], i) => ({ lat, lng, stop: i === 0 || i === coords.length - 1 }));
+  }
+
+  if (!Array.isArray(json)) throw new Error(`${file}: expected a waypoint array or GeoJSON LineString`);
+  return json.map((p: any, i: number) => {
+    if (typeof p?.lat !== "number" || typeof p?.lng !== "number") {
+      throw new Error(`${file}: waypoint ${i} needs numeric lat/lng`);
+    }
+    return { lat: p.lat, lng: p.lng, name: p.name, stop: p.stop ?? Boolean(p.name) };
+  });
+}
+
+async function loadRouteFromDb(routeRef: string, withBuses: boolean): Promise<{ waypoints: Waypoint[]; imeis: string[] }> {
+  const { connectDB } = await import("../config/db");
+  const { default: Route } = await import("../models/Route.model");
+  const { default: Bus } = await import("../models/Bus.model");
+  await import("../models/Station.model");
+
+  await connectDB();
+  try {
+    const filter = mongoose.isValidObjectId(routeRef) ? { _id: routeRef } : { routeName: routeRef };
+    const route = await Route.findOne(filter).populate("stations").lean();
+    if (!route) throw new Error(`Route not found: ${routeRef}`);
+
+    const waypoints = (route.stations as any[])
+      .filter((s) => s?.position?.coordinates?.length === 2)
+      .map((s) => ({
+        lat: s.position.coordinates[1],
+        lng: s.position.coordinates[0],
+        name: s.stationName,
+        stop: true,
+      }));
+
+    const imeis = withBuses
+      ? (await Bus.find({ route: route._id, trackerIMEI: { $exists: true, $ne: null } }).select("trackerIMEI").lean())
+          .map((b) => b.trackerIMEI)
+          .filter((imei): imei is string => Boolean(imei))
+      : [];
+
+    console.log(`🗺️ Route "${route.routeName}": ${waypoints.length} stations, ${imeis.length} tracker(s) bound`);
+    return { waypoints, imeis };
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+function generateImeis(prefix: string, count: number): string[] {
+  const width = 15 - prefix.length;
+  if (width < 1 || !/^\d+$/.test(prefix)) throw new Error("--imei-prefix must be 1-14 digits");
+  return Array.from({ length: count }, (_, i) => prefix + String(i + 1).padStart(width, "0"));
+}
+
+async function simulate(options: SimulatorOptions) {
+  let waypoints: Waypoint[];
+  let imeis = options.imeis;
+
+  if (options.route) {
+    const loaded = await loadRouteFromDb(options.route, options.routeBuses);
+    waypoints = loaded.waypoints;
+    if (options.routeBuses) imeis = loaded.imeis;
+  } else {
+    waypoints = loadPathFile(options.path!);
+  }
+
+  const path = new RoutePath(waypoints);
+  if (!imeis.length) imeis = generateImeis(options.imeiPrefix, options.buses);
+
+  console.log(
+    `🚌 Simulating ${imeis.length} bus(es) on a ${(path.length / 1000).toFixed(1)} km path → ` +
+      `${options.host}:${options.port}, report every ${options.profile.reportIntervalSec}s`
+  );
+
+  // Spread buses along the path (half of them driving it in reverse)
+  const buses = imeis.map((imei, i) => {
+    const busPath = i % 2 === 0 ? path : path.reversed();
+    const start = imeis.length > 1 ? (path.length * i) / imeis.length : 0;
+    return new VirtualBus(imei, busPath, options.profile, { host: options.host, port: options.port }, start);
+  });
+
+  for (const bus of buses) {
+    bus.connect();
+    if (options.rampMs) await new Promise((resolve) => setTimeout(resolve, options.rampMs));
+  }
+
+  let last = Date.now();
+  const ticker = setInterval(() => {
+    const now = Date.now();
+    const dt = (now - last) / 1000;
+    last = now;
+    for (const bus of buses) bus.tick(now, dt);
+  }, TICK_MS);
+
+  const printStats = () => {
+    const totals = buses.reduce(
+      (acc, b) => {
+        acc.packets += b.stats.packets;
+        acc.bytes += b.stats.bytes;
+        acc.alarms += b.stats.alarms;
+        acc.commands += b.stats.commands;
+        acc.reconnects += Math.max(0, b.stats.connects - 1);
+        return acc;
+      },
+      { packets: 0, bytes: 0, alarms: 0, commands: 0, reconnects: 0 }
+    );
+    console.log("📊 Simulator:", {
+      connected: buses.filter((b) => b.isConnected).length,
+      dwelling: buses.filter((b) => b.state === "dwelling").length,
+      ...totals,
+    });
+  };
+  const statsTimer = setInterval(printStats, STATS_EVERY_MS);
+
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", resolve);
+    if (options.durationSec) setTimeout(resolve, options.durationSec * 1000);
+  });
+
+  clearInterval(ticker);
+  clearInterval(statsTimer);
+  buses.forEach((b) => b.stop());
+  printStats();
+  console.log("🛑 Simulator stopped");
+}
+
+simulate(parseArgs(process.argv.slice(2)))
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error("Fatal simulator error:", err);
+    process.exit(1);
+  });
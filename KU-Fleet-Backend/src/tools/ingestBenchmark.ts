@@ -0,0 +1,138 @@
+// src/tools/ingestBenchmark.ts
+// Load-test tracker ingestion with the fleet simulator: starts the ingest side of the
+// backend in this process (tracker TCP port, bus state cache), runs `npm run simulate`
+// against it and reports what ingestion did with the packets.
+//
+//   npm run benchmark:ingest -- --route "Route 1" --route-buses --interval 1 --duration 60
+//   npm run benchmark:ingest -- --path src/tools/simulator/sample-route.json --imeis a,b,c --interval 1
+//
+//   --port n        tracker port to listen on for the run (default 5099)
+//   --duration sec  how long the simulator drives (default 60)
+//   --settle sec    wait after the simulator stops before counting (default 5)
+//
+// Every other option goes to the simulator. Trackers must be bound to buses (e.g.
+// --route-buses) or their packets only reach the pending device queue. Needs MongoDB
+// and Redis like the server; run it against a development database, trips and alerts
+// are recorded as usual (trip and stop jobs are queued for the API process's workers).
+//
+// Reported: messages handled per second, MongoDB queries in total and per message (by
+// collection.method), bus state cache hits / loads and event loop delay percentiles.
+import path from "path";
+import { spawn } from "child_process";
+import { monitorEventLoopDelay } from "perf_hooks";
+import dotenv from "dotenv";
+import mongoose from "mongoose";
+import { connectDB } from "../config/db";
+import { createSocketServer } from "../config/socketIO";
+import { startTcpServer } from "../tcp/tcpServer";
+import { sessionRegistry } from "../tcp/sessionRegistry";
+import { deviceProvisioning } from "../services/deviceProvisioning";
+import { busState } from "../services/busState";
+import { setSocketIO } from "../utils/socketHelper";
+
+dotenv.config();
+
+interface BenchmarkOptions {
+  port: number;
+  durationSec: number;
+  settleSec: number;
+  simulatorArgs: string[];
+}
+
+function parseArgs(argv: string[]): BenchmarkOptions {
+  const options: BenchmarkOptions = { port: 5099, durationSec: 60, settleSec: 5, simulatorArgs: [] };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    const number = () => {
+      const n = Number(argv[++i]);
+      if (!Number.isFinite(n) || n <= 0) throw new Error(`${arg} must be a positive number`);
+      return n;
+    };
+
+    if (arg === "--port") options.port = number();
+    else if (arg === "--duration") options.durationSec = number();
+    else if (arg === "--settle") options.settleSec = number();
+    else if (arg === "--host") throw new Error("--host is not supported, the benchmark listens locally");
+    else options.simulatorArgs.push(arg);
+  }
+  return options;
+}
+
+// Messages handled so far, over every tracker that connected
+const handledMessages = () => sessionRegistry.list().reduce((sum, s) => sum + s.messageCount, 0);
+
+function runSimulator(options: BenchmarkOptions): Promise<void> {
+  // Same runtime as this process: ts-node from the sources, node from dist/
+  const ext = path.extname(__filename);
+  const args = [
+    ...(ext === ".ts" ? ["--require", "ts-node/register/transpile-only"] : []),
+    path.join(__dirname, `fleetSimulator${ext}`),
+    "--host",
+    "127.0.0.1",
+    "--port",
+    String(options.port),
+    "--duration",
+    String(options.durationSec),
+    ...options.simulatorArgs,
+  ];
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, args, { stdio: "inherit" });
+    child.on("error", reject);
+    child.on("exit", (code) => (code === 0 ? resolve() : reject(new Error(`Simulator exited with code ${code}`))));
+  });
+}
+
+async function benchmark(options: BenchmarkOptions) {
+  await connectDB();
+  await deviceProvisioning.start();
+  await busState.hydrate();
+  setSocketIO(createSocketServer());
+  await startTcpServer(options.port, "auto");
+
+  const queries = new Map<string, number>();
+  mongoose.set("debug", (collection: string, method: string) => {
+    const key = `${collection}.${method}`;
+    queries.set(key, (queries.get(key) ?? 0) + 1);
+  });
+  const loopDelay = monitorEventLoopDelay({ resolution: 10 });
+  loopDelay.enable();
+  const cacheBefore = busState.getStats();
+  const startedAt = Date.now();
+
+  await runSimulator(options);
+  await new Promise((resolve) => setTimeout(resolve, options.settleSec * 1000));
+
+  loopDelay.disable();
+  const seconds = (Date.now() - startedAt) / 1000;
+  const messages = handledMessages();
+  const totalQueries = Array.from(queries.values()).reduce((sum, n) => sum + n, 0);
+  const cache = busState.getStats();
+  const ms = (ns: number) => Number((ns / 1e6).toFixed(1));
+
+  console.log("📈 Ingest benchmark:", {
+    trackers: sessionRegistry.list().length,
+    seconds: Number(seconds.toFixed(1)),
+    messages,
+    messagesPerSec: Number((messages / seconds).toFixed(1)),
+    mongoQueries: totalQueries,
+    mongoQueriesPerMessage: messages ? Number((totalQueries / messages).toFixed(3)) : null,
+    busStateCache: { hits: cache.hits - cacheBefore.hits, loads: cache.loads - cacheBefore.loads },
+    eventLoopDelayMs: { p50: ms(loopDelay.percentile(50)), p99: ms(loopDelay.percentile(99)), max: ms(loopDelay.max) },
+  });
+  console.table(
+    Array.from(queries, ([query, count]) => ({ query, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 15)
+  );
+
+  await mongoose.disconnect();
+}
+
+benchmark(parseArgs(process.argv.slice(2)))
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error("Fatal benchmark error:", err);
+    process.exit(1);
+  });
@@ -0,0 +1,91 @@
+// src/tools/migrateTripSegments.ts
+// Move the fixes of trips stored before TripSegment (TripLog.coordinates) into their
+// trip's segments, then drop the array from the TripLog.
+//
+//   npm run migrate:trip-segments -- [--limit 100] [--dry-run]
+//
+//   --limit n    migrate at most n trips
+//   --dry-run    count trips and fixes only, write nothing
+//
+// Safe to run again (e.g. after an interruption): fixes already in a segment are not
+// added twice, and migrated trips no longer have the array.
+import dotenv from "dotenv";
+import mongoose, { Types } from "mongoose";
+import { connectDB } from "../config/db";
+import TripLog from "../models/TripLog.model";
+import { TripTrack, TrackPoint } from "../services/tripTrack";
+
+dotenv.config();
+
+interface MigrateOptions {
+  limit: number;
+  dryRun: boolean;
+}
+
+// Shape of a TripLog written before the fixes moved out
+interface LegacyTripLog {
+  _id: Types.ObjectId;
+  bus: Types.ObjectId;
+  route?: Types.ObjectId;
+  coordinates?: { lat: number; lng: number; speed?: number; timestamp?: Date }[];
+}
+
+function parseArgs(argv: string[]): MigrateOptions {
+  const options: MigrateOptions = { limit: 0, dryRun: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === "--limit") options.limit = Number(argv[++i]);
+    else if (arg === "--dry-run") options.dryRun = true;
+    else throw new Error(`Unknown option ${arg}`);
+  }
+
+  if (!Number.isInteger(options.limit) || options.limit < 0) throw new Error("--limit must be a whole number");
+  return options;
+}
+
+async function migrate(options: MigrateOptions) {
+  await connectDB();
+
+  const legacy = TripLog.collection.find<LegacyTripLog>(
+    { coordinates: { $exists: true } },
+    { projection: { bus: 1, route: 1, coordinates: 1 }, batchSize: 20 }
+  );
+  if (options.limit) legacy.limit(options.limit);
+
+  console.log(`▶️ Moving trip coordinates into trip segments${options.dryRun ? " (dry run)" : ""}`);
+  const totals = { trips: 0, fixes: 0, skipped: 0, errors: 0 };
+
+  for await (const trip of legacy) {
+    const points: TrackPoint[] = (trip.coordinates ?? [])
+      .filter((c) => c.timestamp instanceof Date)
+      .map((c) => ({ lat: c.lat, lng: c.lng, speed: c.speed ?? 0, timestamp: c.timestamp! }));
+    totals.skipped += (trip.coordinates?.length ?? 0) - points.length; // no time: can't be placed
+
+    if (options.dryRun) {
+      totals.trips++;
+      totals.fixes += points.length;
+      continue;
+    }
+
+    try {
+      totals.fixes += await TripTrack.append(trip, points);
+      await TripLog.collection.updateOne({ _id: trip._id }, { $unset: { coordinates: "" } });
+      totals.trips++;
+      if (totals.trips % 100 === 0) console.log(`   … ${totals.trips} trips, ${totals.fixes} fixes`);
+    } catch (err) {
+      totals.errors++;
+      console.error(`❌ Trip ${trip._id} not migrated:`, err);
+    }
+  }
+
+  console.log("✅ Migration finished:", totals);
+  await mongoose.disconnect();
+}
+
+migrate(parseArgs(process.argv.slice(2)))
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error("Fatal migration error:", err);
+    process.exit(1);
+  });
@@ -0,0 +1,148 @@
+// src/tools/simulator/gt06Packets.ts
+import { crc16Itu } from "../../utils/crc16";
+import { PROTOCOL_COMMAND_REPLY } from "../../tcp/gt06Commands";
+import {
+  GT06_ALARM_CODES,
+  GT06_TERMINAL_ALARM_BITS,
+  PROTOCOL_ALARM,
+  PROTOCOL_STATUS,
+} from "../../tcp/gt06Status";
+import { TrackerAlarm } from "../../services/gpsHandler";
+
+/**
+ * GT06 terminal → server packet encoding, used by the fleet simulator.
+ *
+ *   0x7878 | len | protocol | content | serial (2) | crc (2) | 0x0D0A
+ *
+ * `len` covers protocol + content + serial + crc; the crc covers len .. serial.
+ */
+
+export const PROTOCOL_LOGIN = 0x01;
+export const PROTOCOL_LOCATION = 0x12;
+
+export type Gt06Alarm = TrackerAlarm;
+
+export interface Gt06Fix {
+  time: Date;
+  lat: number;
+  lng: number;
+  speed: number; // km/h
+  course: number; // degrees
+  satellites: number;
+}
+
+export interface Gt06Status {
+  ignition: boolean;
+  charging: boolean;
+  gpsTracking: boolean;
+  voltageLevel: number; // 0..6
+  gsmSignal: number; // 0..4
+  alarm?: Gt06Alarm;
+}
+
+// Dummy but well-formed cell info (MCC 410 / Pakistan)
+const LBS = { mcc: 410, mnc: 1, lac: 0x1234, cellId: 0x00abcd };
+
+function packet(protocol: number, content: Buffer, serial: number): Buffer {
+  const len = 1 + content.length + 2 + 2;
+  const buf = Buffer.alloc(2 + 1 + len + 2);
+  let o = 0;
+  buf.writeUInt16BE(0x7878, o); o += 2;
+  buf.writeUInt8(len, o); o += 1;
+  buf.writeUInt8(protocol, o); o += 1;
+  content.copy(buf, o); o += content.length;
+  buf.writeUInt16BE(serial & 0xffff, o); o += 2;
+  buf.writeUInt16BE(crc16Itu(buf.subarray(2, o)), o); o += 2;
+  buf.writeUInt16BE(0x0d0a, o);
+  return buf;
+}
+
+// 15-digit IMEI as 8 BCD bytes with a leading zero nibble
+function imeiBcd(imei: string): Buffer {
+  if (!/^\d{1,16}$/.test(imei)) throw new Error(`Invalid IMEI: ${imei}`);
+  return Buffer.from(imei.padStart(16, "0"), "hex");
+}
+
+function gpsContent(fix: Gt06Fix): Buffer {
+  const buf = Buffer.alloc(18);
+  const t = fix.time;
+  buf.writeUInt8(t.getUTCFullYear() - 2000, 0);
+  buf.writeUInt8(t.getUTCMonth() + 1, 1);
+  buf.writeUInt8(t.getUTCDate(), 2);
+  buf.writeUInt8(t.getUTCHours(), 3);
+  buf.writeUInt8(t.getUTCMinutes(), 4);
+  buf.writeUInt8(t.getUTCSeconds(), 5);
+  // high nibble: GPS info length (12), low nibble: satellites in use
+  buf.writeUInt8(0xc0 | Math.min(15, Math.max(0, Math.round(fix.satellites))), 6);
+  buf.writeUInt32BE(Math.round(Math.abs(fix.lat) * 60 * 30000), 7);
+  buf.writeUInt32BE(Math.round(Math.abs(fix.lng) * 60 * 30000), 11);
+  buf.writeUInt8(Math.min(255, Math.max(0, Math.round(fix.speed))), 15);
+
+  let courseStatus = Math.round(((fix.course % 360) + 360) % 360) & 0x3ff;
+  courseStatus |= 0x2000; // real-time GPS
+  if (fix.satellites > 0) courseStatus |= 0x1000; // positioned
+  if (fix.lng < 0) courseStatus |= 0x0800; // west
+  if (fix.lat >= 0) courseStatus |= 0x0400; // north
+  buf.writeUInt16BE(courseStatus, 16);
+  return buf;
+}
+
+function lbsContent(withLength: boolean): Buffer {
+  const buf = Buffer.alloc(withLength ? 9 : 8);
+  let o = 0;
+  if (withLength) buf.writeUInt8(9, o++);
+  buf.writeUInt16BE(LBS.mcc, o); o += 2;
+  buf.writeUInt8(LBS.mnc, o); o += 1;
+  buf.writeUInt16BE(LBS.lac, o); o += 2;
+  buf.writeUIntBE(LBS.cellId, o, 3);
+  return buf;
+}
+
+function statusContent(status: Gt06Status): Buffer {
+  let info = 0x01; // defence / oil-electric connected
+  if (status.ignition) info |= 0x02;
+  if (status.charging) info |= 0x04;
+  info |= ((status.alarm && GT06_TERMINAL_ALARM_BITS[status.alarm]) || 0) << 3;
+  if (status.gpsTracking) info |= 0x40;
+
+  const buf = Buffer.alloc(5);
+  buf.writeUInt8(info, 0);
+  buf.writeUInt8(status.voltageLevel, 1);
+  buf.writeUInt8(status.gsmSignal, 2);
+  buf.writeUInt8(status.alarm ? GT06_ALARM_CODES[status.alarm] : 0, 3);
+  buf.writeUInt8(0x02, 4); // language: English
+  return buf;
+}
+
+export function encodeLogin(imei: string, serial: number): Buffer {
+  return packet(PROTOCOL_LOGIN, imeiBcd(imei), serial);
+}
+
+export function encodeLocation(fix: Gt06Fix, serial: number): Buffer {
+  return packet(PROTOCOL_LOCATION, Buffer.concat([gpsContent(fix), lbsContent(false)]), serial);
+}
+
+export function encodeStatus(status: Gt06Status, serial: number): Buffer {
+  return packet(PROTOCOL_STATUS, statusContent(status), serial);
+}
+
+export function encodeAlarm(fix: Gt06Fix, status: Gt06Status, serial: number): Buffer {
+  return packet(
+    PROTOCOL_ALARM,
+    Buffer.concat([gpsContent(fix), lbsContent(true), statusContent(status)]),
+    serial
+  );
+}
+
+/**
+ * 0x15 reply to a 0x80 server command, echoing its server flag
+ */
+export function encodeCommandReply(serverFlag: number, text: string, serial: number): Buffer {
+  const body = Buffer.from(text, "ascii");
+  const content = Buffer.alloc(1 + 4 + body.length + 2);
+  content.writeUInt8(4 + body.length, 0); // server flag + text, language not counted
+  content.writeUInt32BE(serverFlag >>> 0, 1);
+  body.copy(content, 5);
+  content.writeUInt16BE(0x0002, 5 + body.length); // language: English
+  return packet(PROTOCOL_COMMAND_REPLY, content, serial);
+}
@@ -0,0 +1,320 @@
+// src/tools/simulator/virtualBus.ts
+import net from "net";
+import { haversineMeters } from "../../utils/geo";
+import { Gt06Framer } from "../../tcp/gt06Framer";
+import { PROTOCOL_SERVER_COMMAND, frameProtocol } from "../../tcp/gt06Commands";
+import {
+  Gt06Alarm,
+  Gt06Fix,
+  Gt06Status,
+  encodeAlarm,
+  encodeCommandReply,
+  encodeLocation,
+  encodeLogin,
+  encodeStatus,
+} from "./gt06Packets";
+
+export interface Waypoint {
+  lat: number;
+  lng: number;
+  name?: string;
+  stop: boolean; // bus halts and dwells here
+}
+
+export interface SimulatorProfile {
+  minSpeedKmh: number;
+  maxSpeedKmh: number;
+  accelMs2: number;
+  decelMs2: number;
+  dwellMinSec: number;
+  dwellMaxSec: number;
+  layoverSec: number; // dwell at the terminus before driving back
+  trafficStopRate: number; // chance per driving second of a short traffic halt
+  noiseMeters: number; // 1σ GPS noise
+  outlierRate: number; // chance per report of a wild jump
+  alarmRate: number; // chance per report of an alarm packet
+  reportIntervalSec: number;
+  heartbeatSec: number;
+}
+
+export interface BusStats {
+  connects: number;
+  packets: number;
+  bytes: number;
+  alarms: number;
+  commands: number;
+}
+
+const ALARMS: Gt06Alarm[] = ["sos", "vibration", "powerCut", "lowBattery", "displacement", "overspeed"];
+const RECONNECT_DELAY_MS = 5_000;
+const METERS_PER_DEG_LAT = 111_320;
+
+const rand = (min: number, max: number) => min + Math.random() * (max - min);
+
+function gaussian(): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function bearing(a: Waypoint, b: Waypoint): number {
+  const toRad = (v: number) => (v * Math.PI) / 180;
+  const y = Math.sin(toRad(b.lng - a.lng)) * Math.cos(toRad(b.lat));
+  const x =
+    Math.cos(toRad(a.lat)) * Math.sin(toRad(b.lat)) -
+    Math.sin(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.cos(toRad(b.lng - a.lng));
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Polyline with cumulative distances, so a bus only has to track metres travelled
+ */
+export class RoutePath {
+  readonly length: number;
+  private readonly cumulative: number[];
+
+  constructor(readonly waypoints: Waypoint[]) {
+    if (waypoints.length < 2) throw new Error("A route path needs at least two points");
+
+    this.cumulative = [0];
+    for (let i = 1; i < waypoints.length; i++) {
+      const a = waypoints[i - 1]!;
+      const b = waypoints[i]!;
+      this.cumulative.push(this.cumulative[i - 1]! + haversineMeters(a.lat, a.lng, b.lat, b.lng));
+    }
+    this.length = this.cumulative[this.cumulative.length - 1]!;
+  }
+
+  reversed(): RoutePath {
+    return new RoutePath([...this.waypoints].reverse());
+  }
+
+  pointAt(distance: number): { lat: number; lng: number; course: number } {
+    const d = Math.min(Math.max(distance, 0), this.length);
+    let i = 1;
+    while (i < this.cumulative.length - 1 && this.cumulative[i]! < d) i++;
+
+    const a = this.waypoints[i - 1]!;
+    const b = this.waypoints[i]!;
+    const segment = this.cumulative[i]! - this.cumulative[i - 1]!;
+    const t = segment > 0 ? (d - this.cumulative[i - 1]!) / segment : 0;
+
+    return {
+      lat: a.lat + (b.lat - a.lat) * t,
+      lng: a.lng + (b.lng - a.lng) * t,
+      course: bearing(a, b),
+    };
+  }
+
+  /**
+   * Distance along the path of the next stop strictly after `distance`
+   */
+  nextStop(distance: number): { at: number; waypoint: Waypoint } {
+    for (let i = 0; i < this.waypoints.length; i++) {
+      const wp = this.waypoints[i]!;
+      const at = this.cumulative[i]!;
+      if (at > distance + 1 && (wp.stop || i === this.waypoints.length - 1)) return { at, waypoint: wp };
+    }
+    return { at: this.length, waypoint: this.waypoints[this.waypoints.length - 1]! };
+  }
+}
+
+/**
+ * One simulated bus + GT06 tracker.
+ * Drives its path back and forth, dwells at stops and reports over its own TCP connection.
+ */
+export class VirtualBus {
+  readonly stats: BusStats = { connects: 0, packets: 0, bytes: 0, alarms: 0, commands: 0 };
+
+  private socket: net.Socket | null = null;
+  private connected = false;
+  private stopped = false;
+  private framer = new Gt06Framer();
+  private serial = 0;
+
+  private path: RoutePath;
+  private distance: number;
+  private speed = 0; // m/s
+  private cruise: number; // m/s
+  private dwellUntil = 0;
+  private lastReportAt = 0;
+  private lastHeartbeatAt = 0;
+
+  constructor(
+    readonly imei: string,
+    path: RoutePath,
+    private readonly profile: SimulatorProfile,
+    private readonly server: { host: string; port: number },
+    startDistance = 0
+  ) {
+    this.path = path;
+    this.distance = startDistance;
+    this.cruise = rand(profile.minSpeedKmh, profile.maxSpeedKmh) / 3.6;
+  }
+
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  get state(): "driving" | "dwelling" {
+    return this.dwellUntil > Date.now() ? "dwelling" : "driving";
+  }
+
+  // ───────── CONNECTION ─────────
+  connect(): void {
+    if (this.stopped) return;
+
+    const socket = net.createConnection(this.server, () => {
+      this.connected = true;
+      this.stats.connects++;
+      this.send(encodeLogin(this.imei, this.nextSerial()));
+      this.lastHeartbeatAt = 0;
+    });
+
+    socket.on("data", (data) => this.onData(data));
+    socket.on("error", (err) => console.warn(`⚠️ [${this.imei}] socket error: ${err.message}`));
+    socket.on("close", () => {
+      this.connected = false;
+      this.socket = null;
+      this.framer = new Gt06Framer();
+      if (!this.stopped) setTimeout(() => this.connect(), RECONNECT_DELAY_MS);
+    });
+
+    this.socket = socket;
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.socket?.end();
+  }
+
+  private onData(data: Buffer): void {
+    const { frames } = this.framer.push(data);
+    for (const frame of frames) {
+      if (frameProtocol(frame) !== PROTOCOL_SERVER_COMMAND) continue;
+
+      // Acknowledge downlink commands the way real firmware does
+      const serverFlag = frame.readUInt32BE(5);
+      const text = frame.subarray(9, 5 + frame[4]!).toString("ascii");
+      this.stats.commands++;
+      console.log(`📥 [${this.imei}] command "${text}"`);
+      this.send(encodeCommandReply(serverFlag, `OK! ${text}`, this.nextSerial()));
+    }
+  }
+
+  private send(packet: Buffer): void {
+    if (!this.socket || !this.connected) return;
+    this.socket.write(packet);
+    this.stats.packets++;
+    this.stats.bytes += packet.length;
+  }
+
+  private nextSerial(): number {
+    this.serial = (this.serial + 1) & 0xffff;
+    return this.serial;
+  }
+
+  // ───────── MOTION ─────────
+  /**
+   * Advance the bus by `dt` seconds and send whatever reports are due at `now`
+   */
+  tick(now: number, dt: number): void {
+    this.move(now, dt);
+
+    if (!this.connected) return;
+
+    if (now - this.lastHeartbeatAt >= this.profile.heartbeatSec * 1000) {
+      this.lastHeartbeatAt = now;
+      this.send(encodeStatus(this.status(), this.nextSerial()));
+    }
+
+    if (now - this.lastReportAt >= this.profile.reportIntervalSec * 1000) {
+      this.lastReportAt = now;
+      const fix = this.fix(new Date(now));
+
+      if (Math.random() < this.profile.alarmRate) {
+        const alarm = ALARMS[Math.floor(Math.random() * ALARMS.length)]!;
+        this.stats.alarms++;
+        console.log(`🚨 [${this.imei}] alarm: ${alarm}`);
+        this.send(encodeAlarm(fix, { ...this.status(), alarm }, this.nextSerial()));
+      } else {
+        this.send(encodeLocation(fix, this.nextSerial()));
+      }
+    }
+  }
+
+  private move(now: number, dt: number): void {
+    if (now < this.dwellUntil) return;
+
+    // Reached the terminus: lay over, then drive the path back
+    if (this.distance >= this.path.length - 0.5) {
+      this.path = this.path.reversed();
+      this.distance = 0;
+      this.speed = 0;
+      this.dwellUntil = now + this.profile.layoverSec * 1000;
+      return;
+    }
+
+    // Red lights / congestion
+    if (this.speed > 3 && Math.random() < this.profile.trafficStopRate * dt) {
+      this.speed = 0;
+      this.dwellUntil = now + rand(10, 60) * 1000;
+      return;
+    }
+
+    const stop = this.path.nextStop(this.distance);
+    const toStop = stop.at - this.distance;
+
+    // Cruise with a little traffic variation, brake early enough to halt at the stop
+    const target = Math.min(
+      this.cruise * (0.85 + 0.3 * Math.random()),
+      Math.sqrt(2 * this.profile.decelMs2 * Math.max(0, toStop))
+    );
+    const delta = target - this.speed;
+    this.speed += Math.max(-this.profile.decelMs2 * dt, Math.min(this.profile.accelMs2 * dt, delta));
+    this.speed = Math.max(this.speed, 0.5); // creep so a stop is always reached
+
+    this.distance += this.speed * dt;
+
+    if (this.distance >= stop.at - 1) {
+      this.distance = stop.at;
+      this.speed = 0;
+      if (stop.at < this.path.length) {
+        this.dwellUntil = now + rand(this.profile.dwellMinSec, this.profile.dwellMaxSec) * 1000;
+      }
+    }
+  }
+
+  private fix(time: Date): Gt06Fix {
+    const point = this.path.pointAt(this.distance);
+    const moving = this.state === "driving" && this.speed > 0.5;
+
+    let north = gaussian() * this.profile.noiseMeters;
+    let east = gaussian() * this.profile.noiseMeters;
+    if (Math.random() < this.profile.outlierRate) {
+      const jump = rand(300, 1500);
+      const angle = rand(0, 2 * Math.PI);
+      north += jump * Math.cos(angle);
+      east += jump * Math.sin(angle);
+    }
+
+    return {
+      time,
+      lat: point.lat + north / METERS_PER_DEG_LAT,
+      lng: point.lng + east / (METERS_PER_DEG_LAT * Math.cos((point.lat * Math.PI) / 180)),
+      speed: moving ? this.speed * 3.6 : 0,
+      course: point.course,
+      satellites: Math.round(rand(6, 12)),
+    };
+  }
+
+  private status(): Gt06Status {
+    return {
+      ignition: true,
+      charging: true,
+      gpsTracking: true,
+      voltageLevel: Math.round(rand(4, 6)),
+      gsmSignal: Math.random() < 0.05 ? 1 : Math.round(rand(2, 4)),
+    };
+  }
+}
@@ -0,0 +1,35 @@
+// src/utils/crc16.ts
+
+/**
+ * CRC-ITU (CRC-16/X-25) as used by GT06 trackers.
+ * Reflected poly 0x8408, init 0xFFFF, final XOR 0xFFFF.
+ */
+export function crc16Itu(data: Buffer): number {
+  let crc = 0xffff;
+
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0x8408 : crc >>> 1;
+    }
+  }
+
+  return ~crc & 0xffff;
+}
+
+/**
+ * CRC-16/IBM (a.k.a. CRC-16/ARC) as used by Teltonika AVL packets.
+ * Reflected poly 0xA001, init 0x0000, no final XOR.
+ */
+export function crc16Ibm(data: Buffer): number {
+  let crc = 0x0000;
+
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1;
+    }
+  }
+
+  return crc & 0xffff;
+}
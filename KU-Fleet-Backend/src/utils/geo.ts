@@ -8,4 +8,14 @@ export function haversineMeters(lat1: number, lon1: number, lat2: number, lon2:
     const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
     return R * c;
   }
-  
\ No newline at end of file
+  
+// Total length of an ordered list of points
+export function pathDistanceMeters(points: { lat: number; lng: number }[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1]!;
+    const curr = points[i]!;
+    total += haversineMeters(prev.lat, prev.lng, curr.lat, curr.lng);
+  }
+  return total;
+}
@@ -1,19 +1,29 @@
 // src/utils/imeiCache.ts
+import { Redis } from "ioredis";
 import Bus from "../models/Bus.model";
 import { redisClient } from "../config/redis";
 
-const memoryCache: Map<string, string | null> = new Map();
+const memoryCache: Map<string, { busId: string | null; expiresAt: number }> = new Map();
 const IMEI_TTL = 300; // seconds
 
+// Every instance drops its in-memory entry when a tracker is rebound anywhere
+const INVALIDATION_CHANNEL = "imei:invalidate";
+let subscriber: Redis | null = null;
+
+function remember(imei: string, busId: string | null): void {
+  memoryCache.set(imei, { busId, expiresAt: Date.now() + IMEI_TTL * 1000 });
+}
+
 export async function getBusIdForIMEI(imei: string): Promise<string | null> {
-  if (memoryCache.has(imei)) return memoryCache.get(imei) || null;
+  const entry = memoryCache.get(imei);
+  if (entry && entry.expiresAt > Date.now()) return entry.busId;
+  memoryCache.delete(imei);
 
   const key = `imei:bus:${imei}`;
   try {
     const cached = await redisClient.get(key);
     if (cached && cached !== "null") {
-      memoryCache.set(imei, cached);
-      setTimeout(() => memoryCache.delete(imei), IMEI_TTL * 1000);
+      remember(imei, cached);
       return cached;
     }
 
@@ -21,14 +31,41 @@ export async function getBusIdForIMEI(imei: string): Promise<string | null> {
     const bus = await Bus.findOne({ trackerIMEI: imei }).select("_id").lean();
     const id = bus?._id?.toString() ?? null;
     await redisClient.setex(key, IMEI_TTL, id ?? "null");
-    memoryCache.set(imei, id);
-    setTimeout(() => memoryCache.delete(imei), IMEI_TTL * 1000);
+    remember(imei, id);
     return id;
   } catch (err) {
     console.warn("⚠️ imeiCache error, falling back to DB:", err);
     const bus = await Bus.findOne({ trackerIMEI: imei }).select("_id").lean();
     const id = bus?._id?.toString() ?? null;
-    memoryCache.set(imei, id);
+    remember(imei, id);
     return id;
   }
 }
+
+/**
+ * Forget the cached bus binding of an IMEI (after binding / unbinding a tracker),
+ * here, in Redis and on every other instance
+ */
+export async function invalidateIMEI(imei: string): Promise<void> {
+  memoryCache.delete(imei);
+  try {
+    await redisClient.multi().del(`imei:bus:${imei}`).publish(INVALIDATION_CHANNEL, imei).exec();
+  } catch (err) {
+    console.warn("⚠️ imeiCache invalidation failed:", err);
+  }
+}
+
+/**
+ * Listen for invalidations published by other instances (needs its own connection,
+ * a subscribed Redis client can't run other commands)
+ */
+export async function subscribeImeiInvalidations(): Promise<void> {
+  if (subscriber) return;
+  subscriber = redisClient.duplicate();
+  subscriber.on("message", (channel: string, imei: string) => {
+    if (channel === INVALIDATION_CHANNEL) memoryCache.delete(imei);
+  });
+  subscriber.on("error", (err) => console.error("❌ imeiCache subscriber error:", err));
+  await subscriber.subscribe(INVALIDATION_CHANNEL);
+  console.log("✅ IMEI cache invalidation subscribed");
+}
@@ -2,12 +2,12 @@
 // Centralized Socket.IO helper to avoid multiple initializations and provide type-safe access
 
 import { Server as SocketIOServer } from "socket.io";
-import { app } from "../app";
 
 let ioInstance: SocketIOServer | null = null;
 
 /**
- * Initialize Socket.IO instance (called from server.ts)
+ * Initialize Socket.IO instance (called from server.ts). Every process sets one,
+ * ingest-only processes too: emits go to all API processes through the Redis adapter.
  */
 export function setSocketIO(io: SocketIOServer): void {
   ioInstance = io;
@@ -18,17 +18,7 @@ export function setSocketIO(io: SocketIOServer): void {
  * Returns null if not initialized (prevents crashes)
  */
 export function getSocketIO(): SocketIOServer | null {
-  // Try multiple access patterns for compatibility
-  if (ioInstance) return ioInstance;
-  
-  // Fallback to app storage pattern (used in server.ts)
-  const ioFromApp = (app as any).get?.("io");
-  if (ioFromApp) {
-    ioInstance = ioFromApp;
-    return ioInstance;
-  }
-  
-  return null;
+  return ioInstance;
 }
 
 /**
@@ -73,6 +63,12 @@ export const EVENTS = {
   // Trip events
   TRIP_STARTED: "trip-started",
   TRIP_ENDED: "trip-ended",
+  TRIP_STATUS_CHANGED: "trip-status-changed",
+
+  // Station events
+  BUS_ARRIVED: "bus-arrived",
+  BUS_DEPARTED: "bus-departed",
+  ETA_UPDATE: "eta-update",
   
   // Alert events
   ALERT_CREATED: "alert-created",
@@ -86,6 +82,12 @@ export const EVENTS = {
   BUS_DELETED: "bus-deleted",
   BUS_STATUS_CHANGED: "bus-status-changed",
   DRIVER_ASSIGNED: "driver-assigned",
+
+  // Tracker device events
+  DEVICE_ONLINE: "device-online",
+  DEVICE_OFFLINE: "device-offline",
+  TRACKER_COMMAND_UPDATED: "tracker-command-updated",
+  DEVICE_PENDING: "device-pending",
   
   // General
   ERROR: "error",
@@ -4,10 +4,20 @@ import Bus from "../models/Bus.model";
 import { Types } from "mongoose";
 import { getSocketIO, ROOMS, EVENTS } from "../utils/socketHelper";
 import { cacheHelpers } from "../config/redis";
+import { IAlertTerminalStatus } from "../interfaces/Alert";
 
 export const AlertService = {
-  async createAlert(payload: { busId: string; type: string; message?: string; priority?: string }) {
-    const { busId, type, message, priority = "medium" } = payload;
+  async createAlert(payload: {
+    busId: string;
+    type: string;
+    message?: string;
+    priority?: string;
+    alarm?: string;
+    terminalStatus?: IAlertTerminalStatus;
+    location?: { lat: number; lng: number } | null;
+    timestamp?: Date; // when it happened, defaults to now
+  }) {
+    const { busId, type, message, priority = "medium", alarm, terminalStatus, location, timestamp } = payload;
 
     const bus = await Bus.findById(busId).lean();
     if (!bus) throw new Error("Bus not found");
@@ -17,7 +27,10 @@ export const AlertService = {
       type,
       message,
       priority,
-      timestamp: new Date(),
+      ...(alarm ? { alarm } : {}),
+      ...(terminalStatus ? { terminalStatus } : {}),
+      ...(location ? { location } : {}),
+      timestamp: timestamp ?? new Date(),
     });
 
     const populatedAlert = await Alert.findById(alert._id)
@@ -1,5 +1,5 @@
 // src/services/analytics.service.ts
-import TripLog from "../models/TripLog.model";
+import TripLog, { RAN_TRIP_FILTER } from "../models/TripLog.model";
 import Bus from "../models/Bus.model";
 import Alert from "../models/Alert.model";
 import { cacheHelpers } from "../config/redis";
@@ -54,7 +54,7 @@ export async function generateDailyAnalytics(): Promise<void> {
 
   const [totalTrips, completedTrips, activeBuses, totalBuses, alertsToday] =
     await Promise.all([
-      TripLog.countDocuments({ startTime: { $gte: start, $lte: end } }),
+      TripLog.countDocuments({ startTime: { $gte: start, $lte: end }, ...RAN_TRIP_FILTER }),
       TripLog.countDocuments({ startTime: { $gte: start, $lte: end }, endTime: { $ne: null } }),
       Bus.countDocuments({ status: "active" }),
       Bus.countDocuments(),
@@ -81,7 +81,7 @@ export async function generateBusAnalytics(busId: string): Promise<void> {
   const { start, end } = getTodayRange();
   const dateKey = formatDate(start);
 
-  const trips = await TripLog.find({ bus: busId, startTime: { $gte: start, $lte: end } });
+  const trips = await TripLog.find({ bus: busId, startTime: { $gte: start, $lte: end }, ...RAN_TRIP_FILTER });
 
   const totalDistance = trips.reduce((acc, t) => acc + (t.distance ?? 0), 0);
   const averageSpeed = trips.length ? trips.reduce((acc, t) => acc + (t.avgSpeed ?? 0), 0) / trips.length : 0;
@@ -105,7 +105,7 @@ export async function generateRouteAnalytics(routeId: string): Promise<void> {
   const { start, end } = getTodayRange();
   const dateKey = formatDate(start);
 
-  const trips = await TripLog.find({ route: routeId, startTime: { $gte: start, $lte: end } });
+  const trips = await TripLog.find({ route: routeId, startTime: { $gte: start, $lte: end }, ...RAN_TRIP_FILTER });
 
   const totalPassengers = trips.reduce((acc, t) => acc + (t.passengerCount ?? 0), 0);
   const totalDistance = trips.reduce((acc, t) => acc + (t.distance ?? 0), 0);
@@ -4,6 +4,7 @@ import { redisClient } from "../config/redis";
 import TripLog from "../models/TripLog.model";
 import Alert from "../models/Alert.model";
 import Feedback from "../models/Feedback.model";
+import { TripTrack } from "../services/tripTrack";
 import dotenv from "dotenv";
 dotenv.config();
 
@@ -63,12 +64,12 @@ export const cleanupWorker = new Worker(
         const retention = parseInt(process.env.TRIP_RETENTION_DAYS || "7", 10);
         const cutoff = new Date(Date.now() - retention * 86400000);
 
-        const deleted = await TripLog.deleteMany({
+        const deleted = await TripTrack.deleteTrips({
           createdAt: { $lt: cutoff },
           endTime: { $ne: null },
         });
 
-        console.log(`🗑️ Deleted ${deleted.deletedCount} old trip logs`);
+        console.log(`🗑️ Deleted ${deleted} old trip logs`);
       }
 
       /* ---------------- Cleanup 2: Old Alerts ---------------- */
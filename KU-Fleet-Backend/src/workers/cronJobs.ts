@@ -2,6 +2,8 @@
 import * as cron from "node-cron";
 import { tripQueue, analyticsQueue, cleanupQueue } from "./queue";
 import { AnalyticsJobPayload } from "./workers";
+import { TripLifecycle } from "../services/tripLifecycle";
+import { TripSchedule, parseDay, addDays, dayKey } from "../services/tripSchedule";
 
 // --- Internal Health + Rate Limit ---
 let redisHealthy = true;
@@ -65,6 +67,23 @@ cron.schedule("0 1 * * *", async () =>
   }, "daily-analytics")
 );
 
+// Segment travel times from yesterday's trips - 1:30 AM
+// Every API process schedules it: the job id per day makes BullMQ keep only the first
+cron.schedule("30 1 * * *", async () =>
+  safeJob(async () => {
+    const date = dayKey(addDays(parseDay(), -1));
+    const payload: AnalyticsJobPayload = { type: "segmentTravelTimes", data: { date } };
+
+    await analyticsQueue.add("buildSegmentTravelTimes", payload, {
+      jobId: `segmentTravelTimes-${date}`,
+      attempts: 3,
+      backoff: { type: "exponential", delay: 5000 },
+    });
+
+    console.log("✅ Segment travel time job scheduled");
+  }, "segment-travel-times")
+);
+
 // Cache cleanup - Every 6 hours
 cron.schedule("0 */6 * * *", async () =>
   safeJob(async () => {
@@ -93,6 +112,25 @@ cron.schedule("0 3 * * 0", async () =>
   }, "data-archiving")
 );
 
+// Stale open trips - Every hour
+cron.schedule("30 * * * *", async () =>
+  safeJob(async () => {
+    await TripLifecycle.abandonStale();
+  }, "stale-trips")
+);
+
+// Scheduled trips from route timetables - 00:05
+cron.schedule("5 0 * * *", async () =>
+  safeJob(async () => {
+    await TripSchedule.generateForDay(parseDay());
+  }, "scheduled-trips")
+);
+
+// Today's runs in case the process was down at 00:05 (idempotent)
+safeJob(async () => {
+  await TripSchedule.generateForDay(parseDay());
+}, "scheduled-trips");
+
 // Health check — Every 15 minutes
 cron.schedule("*/15 * * * *", async () =>
   safeJob(async () => {
@@ -117,6 +155,9 @@ cron.schedule("*/15 * * * *", async () =>
 console.log("🕐 Cron jobs initialized safely:");
 console.log("  - Daily cleanup: 2:00 AM");
 console.log("  - Daily analytics: 1:00 AM");
+console.log("  - Segment travel times: 1:30 AM");
 console.log("  - Cache cleanup: Every 6 hours");
 console.log("  - Data archiving: Sunday 3:00 AM");
+console.log("  - Stale open trips: Every hour");
+console.log("  - Scheduled trips: 00:05");
 console.log("  - Health check: Every 15 minutes (optimized + safe mode)");
@@ -0,0 +1,181 @@
+// src/workers/segmentTravelTime.service.ts
+import { AnyBulkWriteOperation, Types } from "mongoose";
+import TripLog from "../models/TripLog.model";
+import SegmentTravelTime, { ISegmentSample, ISegmentTravelTime } from "../models/SegmentTravelTime.model";
+import { stationDetector, stationVisits } from "../services/stationDetector";
+import { TripTrack } from "../services/tripTrack";
+
+/**
+ * SEGMENT TRAVEL TIMES
+ * How long each station-to-station leg of a route takes, by weekday and hour of
+ * departure. Run nightly for the previous day's completed trips: each trip's track is
+ * walked past its route's stations (same radii as live station detection), and every
+ * departure from a station followed by arrival at the route's next station is a sample.
+ * Each bucket keeps its newest samples from the last SEGMENT_HISTORY_DAYS, so the model
+ * outlives the trips it was built from.
+ */
+
+export const SEGMENT_HISTORY_DAYS = Number(process.env.SEGMENT_HISTORY_DAYS ?? 28);
+const MAX_SAMPLES_PER_BUCKET = 100;
+const MAX_LEG_SECONDS = 2 * 3600; // longer is a break between runs, not a leg
+
+/* -------------------- TYPES -------------------- */
+export interface SegmentBuildResult {
+  from: Date;
+  to: Date;
+  trips: number;
+  samples: number;
+  buckets: number;
+  pruned: number;
+}
+
+interface BucketSamples {
+  route: Types.ObjectId;
+  fromStation: Types.ObjectId;
+  toStation: Types.ObjectId;
+  fromSequence: number;
+  weekday: number;
+  hour: number;
+  samples: ISegmentSample[];
+}
+
+/* -------------------- HELPERS -------------------- */
+const bucketKey = (route: unknown, from: unknown, to: unknown, weekday: number, hour: number) =>
+  `${route}|${from}|${to}|${weekday}|${hour}`;
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.max(0, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.min(rank, sorted.length - 1)]!;
+}
+
+function median(sorted: number[]): number {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+/* -------------------- NIGHTLY BUILD -------------------- */
+/**
+ * Add the legs of trips completed in [from, to) to the model (default: yesterday).
+ * Re-running a day replaces that day's samples instead of adding them twice.
+ */
+export async function buildSegmentTravelTimes(from?: Date, to?: Date): Promise<SegmentBuildResult> {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const start = from ?? new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+  const end = to ?? new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+
+  const cutoff = new Date(Date.now() - SEGMENT_HISTORY_DAYS * 86_400_000);
+  const trips = TripLog.find({
+    status: "completed",
+    route: { $exists: true },
+    endTime: { $gte: start, $lt: end },
+  })
+    .select("route")
+    .lean()
+    .cursor();
+
+  const buckets = new Map<string, BucketSamples>();
+  const rebuilt = new Set<string>();
+  let sampleCount = 0;
+
+  for await (const trip of trips) {
+    rebuilt.add(String(trip._id));
+    const route = trip.route as Types.ObjectId;
+    const [stations, points] = await Promise.all([
+      stationDetector.stationsOf(String(route)),
+      TripTrack.points(trip._id as Types.ObjectId),
+    ]);
+    const visits = stationVisits(points, stations);
+
+    for (let i = 1; i < visits.length; i++) {
+      const prev = visits[i - 1]!;
+      const next = visits[i]!;
+      // Consecutive stations of the route (a skipped station isn't a leg)
+      if (!prev.departedAt || prev.departedAt < cutoff) continue;
+      if (next.station.sequence !== prev.station.sequence + 1) continue;
+
+      const seconds = (next.arrivedAt.getTime() - prev.departedAt.getTime()) / 1000;
+      if (seconds <= 0 || seconds > MAX_LEG_SECONDS) continue;
+
+      const weekday = prev.departedAt.getDay();
+      const hour = prev.departedAt.getHours();
+      const key = bucketKey(route, prev.station.stationId, next.station.stationId, weekday, hour);
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        bucket = {
+          route,
+          fromStation: new Types.ObjectId(prev.station.stationId),
+          toStation: new Types.ObjectId(next.station.stationId),
+          fromSequence: prev.station.sequence,
+          weekday,
+          hour,
+          samples: [],
+        };
+        buckets.set(key, bucket);
+      }
+      bucket.samples.push({ trip: trip._id as Types.ObjectId, departedAt: prev.departedAt, seconds: Math.round(seconds) });
+      sampleCount++;
+    }
+  }
+
+  // Merge with the stored samples of the same buckets
+  const routes = [...new Set([...buckets.values()].map((b) => String(b.route)))];
+  const existing = routes.length
+    ? await SegmentTravelTime.find({ route: { $in: routes } }).select("route fromStation toStation weekday hour samples").lean()
+    : [];
+  const stored = new Map<string, ISegmentSample[]>(
+    existing.map((doc) => [
+      bucketKey(doc.route, doc.fromStation, doc.toStation, doc.weekday, doc.hour),
+      doc.samples,
+    ])
+  );
+
+  const ops: AnyBulkWriteOperation<ISegmentTravelTime>[] = [];
+  for (const [key, bucket] of buckets) {
+    const kept = (stored.get(key) ?? []).filter((s) => s.departedAt >= cutoff && !rebuilt.has(String(s.trip)));
+    const samples = [...bucket.samples, ...kept]
+      .sort((a, b) => b.departedAt.getTime() - a.departedAt.getTime())
+      .slice(0, MAX_SAMPLES_PER_BUCKET);
+    if (!samples.length) continue;
+
+    const seconds = samples.map((s) => s.seconds).sort((a, b) => a - b);
+    ops.push({
+      updateOne: {
+        filter: {
+          route: bucket.route,
+          fromStation: bucket.fromStation,
+          toStation: bucket.toStation,
+          weekday: bucket.weekday,
+          hour: bucket.hour,
+        },
+        update: {
+          $set: {
+            fromSequence: bucket.fromSequence,
+            samples,
+            sampleCount: samples.length,
+            medianSeconds: Math.round(median(seconds)),
+            p90Seconds: Math.round(percentile(seconds, 90)),
+            lastSampleAt: samples[0]!.departedAt,
+          },
+        },
+        upsert: true,
+      },
+    });
+  }
+  if (ops.length) await SegmentTravelTime.bulkWrite(ops, { ordered: false });
+
+  // Buckets nobody drove in the whole history window
+  const { deletedCount } = await SegmentTravelTime.deleteMany({ lastSampleAt: { $lt: cutoff } });
+
+  const result: SegmentBuildResult = {
+    from: start,
+    to: end,
+    trips: rebuilt.size,
+    samples: sampleCount,
+    buckets: ops.length,
+    pruned: deletedCount,
+  };
+  console.log("🛣️ Segment travel times updated:", result);
+  return result;
+}
@@ -1,10 +1,12 @@
 // src/services/trip.service.ts
 import { cacheHelpers } from "../config/redis";
-import TripLog from "../models/TripLog.model";
+import TripLog, { RAN_TRIP_FILTER, TripEndReason } from "../models/TripLog.model";
 import Bus from "../models/Bus.model";
 import Alert from "../models/Alert.model";
 import dotenv from "dotenv";
 import { ITripCoordinate } from "../interfaces/TripLog";
+import { TripLifecycle, openTripFilter } from "../services/tripLifecycle";
+import { TripTrack } from "../services/tripTrack";
 dotenv.config();
 
 /* ----------------------------------------------
@@ -25,6 +27,25 @@ export interface ISaveTripSegmentPayload {
 export interface IEndTripPayload {
   busId: string;
   endCoords?: ICoords | null;
+  reason?: TripEndReason;
+}
+
+export interface IBackfillFix {
+  lat: number;
+  lng: number;
+  speed?: number;
+  timestamp: string | number | Date;
+}
+
+export interface IBackfillFixesPayload {
+  busId: string;
+  fixes: IBackfillFix[];
+}
+
+export interface IBackfillResult {
+  inserted: number;
+  dropped: number; // no trip covers the fix time
+  trips: string[];
 }
 
 export interface IBusStatusLocation {
@@ -63,6 +84,22 @@ function shouldWriteCache(busId: string, coords: ICoords) {
   );
 }
 
+// Distance / avg / max speed of a completed trip from its track
+async function recomputeTripStats(tripId: string): Promise<void> {
+  const trip = await TripLog.findById(tripId).select("duration");
+  if (!trip) return;
+
+  const track = await TripTrack.stats(tripId);
+  const distanceKm = track.distanceMeters / 1000;
+  const durationSec = trip.duration ?? 0;
+
+  trip.distance = distanceKm;
+  trip.avgSpeed = durationSec > 0 ? distanceKm / (durationSec / 3600) : 0;
+  trip.maxSpeed = track.maxSpeed;
+  trip.pointCount = track.pointCount;
+  await trip.save();
+}
+
 /* ----------------------------------------------
  * SERVICE
  * ---------------------------------------------- */
@@ -82,13 +119,8 @@ export const TripService = {
     };
 
     try {
-      await TripLog.updateOne(
-        { bus: busId, endTime: null },
-        {
-          $push: { coordinates: coord },
-          $set: { lastUpdate: ts, currentSpeed: coord.speed },
-        }
-      );
+      const trip = await TripLog.findOne(openTripFilter(busId)).select("bus route").lean();
+      if (trip) await TripTrack.append(trip, [coord]);
     } catch (err) {
       console.error("❌ TripLog updateOne failed:", err);
     }
@@ -122,28 +154,11 @@ export const TripService = {
   /**
    * END TRIP
    */
-  async endTrip({ busId, endCoords }: IEndTripPayload): Promise<void> {
+  async endTrip({ busId, endCoords, reason = "manual" }: IEndTripPayload): Promise<void> {
     if (!busId) return;
 
     try {
-      const trip = await TripLog.findOne({ bus: busId, endTime: null });
-      if (!trip) return;
-
-      // Push final coordinate if provided
-      if (endCoords) {
-        const finalCoord: ITripCoordinate = {
-          lat: endCoords.lat,
-          lng: endCoords.lng,
-          speed: endCoords.speed ?? 0,
-          timestamp: new Date(),
-        };
-        trip.coordinates.push(finalCoord);
-      }
-
-      trip.endTime = new Date();
-      trip.status = "completed";
-
-      await trip.save();
+      await TripLifecycle.complete(busId, { reason, endCoords: endCoords ?? null });
     } catch (err) {
       console.error("❌ TripLog endTrip failed:", err);
     }
@@ -158,6 +173,76 @@ export const TripService = {
     }
   },
 
+  /**
+   * BACKFILL HISTORICAL FIXES
+   * Stored fixes a tracker flushes after regaining coverage. Each fix goes into
+   * the trip whose time window contains it, in timestamp order; completed
+   * trips get their distance / speed figures recomputed.
+   */
+  async backfillFixes({ busId, fixes }: IBackfillFixesPayload): Promise<IBackfillResult> {
+    const result: IBackfillResult = { inserted: 0, dropped: 0, trips: [] };
+    if (!busId || !fixes.length) return result;
+
+    // Sort and drop repeats within the batch
+    const byTime = new Map<number, ITripCoordinate>();
+    for (const f of fixes) {
+      const timestamp = new Date(f.timestamp);
+      if (Number.isNaN(timestamp.getTime())) continue;
+      byTime.set(timestamp.getTime(), { lat: f.lat, lng: f.lng, speed: f.speed ?? 0, timestamp });
+    }
+    const sorted = [...byTime.values()].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    if (!sorted.length) return result;
+
+    const from = sorted[0]!.timestamp;
+    const to = sorted[sorted.length - 1]!.timestamp;
+
+    try {
+      const trips = await TripLog.find({
+        bus: busId,
+        startTime: { $lte: to },
+        $and: [{ $or: [{ endTime: null }, { endTime: { $gte: from } }] }, RAN_TRIP_FILTER],
+      })
+        .select("startTime endTime status")
+        .sort({ startTime: 1 })
+        .lean();
+
+      const groups = new Map<string, ITripCoordinate[]>();
+      for (const fix of sorted) {
+        const trip = trips.find(
+          (t) => t.startTime <= fix.timestamp && (!t.endTime || fix.timestamp <= t.endTime)
+        );
+        if (!trip) {
+          result.dropped++;
+          continue;
+        }
+        const id = String(trip._id);
+        if (!groups.has(id)) groups.set(id, []);
+        groups.get(id)!.push(fix);
+      }
+
+      for (const [tripId, coords] of groups) {
+        // Fixes already in the track (a flush sent twice) are skipped
+        const added = await TripTrack.append(tripId, coords);
+        if (!added) continue;
+        result.inserted += added;
+        result.trips.push(tripId);
+
+        const trip = trips.find((t) => String(t._id) === tripId);
+        if (trip?.endTime) await recomputeTripStats(tripId);
+      }
+    } catch (err) {
+      console.error("❌ TripLog backfill failed:", err);
+    }
+
+    if (result.inserted || result.dropped) {
+      console.log(`🕰️ Backfilled ${result.inserted} historical fix(es) for bus ${busId}`, {
+        dropped: result.dropped,
+        trips: result.trips,
+      });
+    }
+    return result;
+  },
+
   /**
    * DAILY CLEANUP
    */
@@ -167,8 +252,12 @@ export const TripService = {
     cutoff.setDate(cutoff.getDate() - retentionDays);
 
     try {
-      const deleted = await TripLog.deleteMany({ createdAt: { $lt: cutoff }, endTime: { $ne: null } });
-      console.log(`🧹 Deleted ${deleted.deletedCount} old trip logs`);
+      // Ended trips, and timetable runs that never left
+      const deleted = await TripTrack.deleteTrips({
+        createdAt: { $lt: cutoff },
+        $or: [{ endTime: { $ne: null } }, { timetable: { $exists: true }, startReason: { $exists: false } }],
+      });
+      console.log(`🧹 Deleted ${deleted} old trip logs`);
     } catch (err) {
       console.error("❌ dailyCleanup failed:", err);
     }
@@ -1,10 +1,12 @@
 // src/workers/worker.ts
 import { Worker, Job, WorkerOptions } from "bullmq";
 import { redisClient, cacheHelpers } from "../config/redis";
-import TripLog from "../models/TripLog.model";
-import RFIDLog from "../models/RFIDLog.model";
+import TripLog, { RAN_TRIP_FILTER, TripEndReason } from "../models/TripLog.model";
 import Alert from "../models/Alert.model";
-import { haversineMeters } from "../utils/geo";
+import { TripService } from "./trip.service";
+import { TripLifecycle, openTripFilter } from "../services/tripLifecycle";
+import { TripTrack } from "../services/tripTrack";
+import { buildSegmentTravelTimes } from "./segmentTravelTime.service";
 
 /* -------------------------- JOB TYPES -------------------------- */
 export interface TripJobPayload {
@@ -12,11 +14,13 @@ export interface TripJobPayload {
   coords?: { lat: number; lng: number };
   speed?: number;
   timestamp?: string | number | Date;
-  endCoords?: { lat: number; lng: number };
+  endCoords?: { lat: number; lng: number; speed?: number };
+  reason?: TripEndReason;
+  fixes?: { lat: number; lng: number; speed?: number; timestamp: string | number | Date }[];
 }
 
 export interface AnalyticsJobPayload {
-  type: "daily" | "bus" | "route" | "tripEnded";
+  type: "daily" | "bus" | "route" | "tripEnded" | "segmentTravelTimes";
   data?: any;
 }
 
@@ -37,20 +41,15 @@ const baseWorkerOpts: WorkerOptions = {
 export const tripWorker = new Worker<TripJobPayload>(
   "tripQueue",
   async (job: Job<TripJobPayload>) => {
-    const { busId, coords, speed, timestamp, endCoords } = job.data;
+    const { busId, coords, speed, timestamp, endCoords, fixes, reason } = job.data;
     const ts = timestamp ? new Date(timestamp) : new Date();
 
     // ─────────── SAVE TRIP SEGMENT ───────────
     if (job.name === "saveTripSegment") {
       if (!coords) return;
 
-      await TripLog.updateOne(
-        { bus: busId, endTime: null },
-        {
-          $push: { coordinates: { ...coords, timestamp: ts } },
-          $set: { lastUpdate: ts, currentSpeed: speed ?? 0 },
-        }
-      );
+      const trip = await TripLog.findOne(openTripFilter(busId)).select("bus route").lean();
+      if (trip) await TripTrack.append(trip, [{ ...coords, speed: speed ?? 0, timestamp: ts }]);
 
       // Cache latest location
       await cacheHelpers.setBusLocation(busId, {
@@ -61,49 +60,21 @@ export const tripWorker = new Worker<TripJobPayload>(
       });
     }
 
+    // ─────────── BACKFILL HISTORICAL FIXES ───────────
+    if (job.name === "backfillFixes") {
+      if (!fixes?.length) return;
+      return TripService.backfillFixes({ busId, fixes });
+    }
+
     // ─────────── END TRIP ───────────
     if (job.name === "endTrip") {
-      if (!busId || !endCoords) return;
-
-      const trip = await TripLog.findOne({ bus: busId, endTime: null });
-      if (!trip) return;
+      if (!busId) return;
 
-      // ---- Push final coordinate ----
-      trip.coordinates.push({
-        lat: endCoords.lat,
-        lng: endCoords.lng,
-        timestamp: new Date(),
+      await TripLifecycle.complete(busId, {
+        reason: reason ?? "manual",
+        endTime: ts,
+        endCoords: endCoords ?? null,
       });
-
-      // ---- Passenger reconciliation ----
-      const boarded = await RFIDLog.countDocuments({ trip: trip._id, eventType: "BOARD" });
-      const exited = await RFIDLog.countDocuments({ trip: trip._id, eventType: "EXIT" });
-      const netPassengers = Math.max(0, boarded - exited);
-
-      // ---- Distance calculation ----
-      let totalDistanceMeters = 0;
-      for (let i = 1; i < trip.coordinates.length; i++) {
-        const prev = trip.coordinates[i - 1];
-        const curr = trip.coordinates[i];
-        if (!prev || !curr) continue;
-        totalDistanceMeters += haversineMeters(prev.lat, prev.lng, curr.lat, curr.lng);
-      }
-      const totalDistanceKm = totalDistanceMeters / 1000;
-
-      // ---- Duration & Average Speed ----
-      const endTime = new Date();
-      const durationSec = (endTime.getTime() - trip.startTime.getTime()) / 1000;
-      const avgSpeedKmh = durationSec > 0 ? totalDistanceKm / (durationSec / 3600) : 0;
-
-      // ---- Final save ----
-      trip.endTime = endTime;
-      trip.status = "completed";
-      trip.distance = totalDistanceKm;
-      trip.avgSpeed = avgSpeedKmh;
-      trip.duration = durationSec;
-      trip.passengerCount = netPassengers;
-
-      await trip.save();
     }
   },
   baseWorkerOpts
@@ -134,7 +105,7 @@ export const analyticsWorker = new Worker<AnalyticsJobPayload>(
       const today = new Date();
       today.setHours(0, 0, 0, 0);
 
-      const totalTrips = await TripLog.countDocuments({ startTime: { $gte: today } });
+      const totalTrips = await TripLog.countDocuments({ startTime: { $gte: today }, ...RAN_TRIP_FILTER });
       const completedTrips = await TripLog.countDocuments({ startTime: { $gte: today }, endTime: { $ne: null } });
 
       await cacheHelpers.setAnalyticsData(
@@ -143,6 +114,12 @@ export const analyticsWorker = new Worker<AnalyticsJobPayload>(
         86400
       );
     }
+
+    if (type === "segmentTravelTimes") {
+      // Trips completed on data.date (YYYY-MM-DD), yesterday by default
+      const from = data?.date ? new Date(`${data.date}T00:00:00`) : undefined;
+      return buildSegmentTravelTimes(from);
+    }
   },
   baseWorkerOpts
 );
@@ -154,7 +131,7 @@ export const cleanupWorker = new Worker<CleanupJobPayload>(
     const cutoff = new Date();
     cutoff.setDate(cutoff.getDate() - 30);
 
-    await TripLog.deleteMany({ endTime: { $lt: cutoff } });
+    await TripTrack.deleteTrips({ endTime: { $lt: cutoff } });
   },
   baseWorkerOpts
 );